@@ -0,0 +1,34 @@
+/**
+ * Script to backfill revision, change, status and effective date on indexed DRS documents
+ * Run with: npx tsx scripts/backfill-metadata.ts [--dry-run] [--no-drs] [--type AC]
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Load local.settings.json values before importing other modules
+const settingsPath = join(__dirname, '..', 'local.settings.json');
+const settings = JSON.parse(readFileSync(settingsPath, 'utf-8'));
+for (const [key, value] of Object.entries(settings.Values)) {
+  if (typeof value === 'string') {
+    process.env[key] = value;
+  }
+}
+
+import { backfillIndexMetadata } from '../src/lib/metadataBackfill';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const typeIndex = args.indexOf('--type');
+
+  const result = await backfillIndexMetadata({
+    dryRun: args.includes('--dry-run'),
+    lookupDRS: !args.includes('--no-drs'),
+    documentType: typeIndex >= 0 ? args[typeIndex + 1] : undefined,
+  });
+
+  if (result.notFoundInDRS.length > 0) {
+    console.log(`ℹ️ Not found in DRS: ${result.notFoundInDRS.join(', ')}`);
+  }
+}
+
+main().catch(console.error);
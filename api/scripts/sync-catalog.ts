@@ -0,0 +1,53 @@
+/**
+ * Script to sync the index with the DRS and eCFR catalogs (what the catalogSync timer function runs)
+ * Run with: npx tsx scripts/sync-catalog.ts [--dry-run] [--types AC,Order] [--parts 23,25] [--limit 20]
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Load local.settings.json values before importing other modules
+const settingsPath = join(__dirname, '..', 'local.settings.json');
+const settings = JSON.parse(readFileSync(settingsPath, 'utf-8'));
+for (const [key, value] of Object.entries(settings.Values)) {
+  if (typeof value === 'string') {
+    process.env[key] = value;
+  }
+}
+
+import { syncCatalog } from '../src/lib/catalogSync';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] ?? '' : undefined;
+  };
+  const list = (value?: string) => value?.split(',').map(v => v.trim()).filter(Boolean);
+
+  const types = option('--types');
+  const parts = option('--parts');
+  const limit = option('--limit');
+
+  const report = await syncCatalog({
+    dryRun: args.includes('--dry-run'),
+    docTypes: list(types),
+    cfrParts: list(parts)?.map(Number),
+    maxDocuments: limit ? parseInt(limit) : undefined,
+    maxSections: limit ? parseInt(limit) : undefined,
+  });
+
+  for (const result of report.drs) {
+    console.log(`📄 ${result.docType}: ${result.listed} listed, +${result.added.length} ~${result.updated.length} -${result.removed.length} (${result.deferred} deferred)`);
+  }
+  for (const result of report.cfr) {
+    console.log(`📜 Part ${result.part}: ${result.sections} sections, +${result.added.length} ~${result.updated.length} -${result.removed.length} (${result.deferred} deferred)`);
+  }
+  for (const error of report.errors) {
+    console.log(`⚠️ ${error}`);
+  }
+  if (report.reportKey) {
+    console.log(`📝 Report: ${report.reportKey}`);
+  }
+}
+
+main().catch(console.error);
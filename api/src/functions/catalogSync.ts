@@ -0,0 +1,42 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { syncCatalog, summarizeSyncReport } from "../lib/catalogSync";
+
+/**
+ * Timer-triggered function that keeps the index in step with DRS and eCFR.
+ *
+ * This function:
+ * 1. Lists the configured DRS document types and compares them with the index
+ * 2. Enqueues new and changed documents for the index worker
+ * 3. Deletes the chunks of documents DRS has cancelled
+ * 4. Indexes new and amended sections of the configured CFR parts, and deletes removed ones
+ * 5. Writes a sync report blob
+ *
+ * Runs daily at 03:00 UTC unless CATALOG_SYNC_SCHEDULE (NCRONTAB) says otherwise.
+ */
+async function catalogSyncHandler(
+  timer: Timer,
+  context: InvocationContext
+): Promise<void> {
+  const startTime = Date.now();
+
+  if (timer.isPastDue) {
+    context.warn("Catalog sync is running late");
+  }
+
+  const report = await syncCatalog();
+  const duration = Date.now() - startTime;
+
+  context.log(`${summarizeSyncReport(report)} (${duration}ms)`);
+  if (report.reportKey) {
+    context.log(`Sync report: ${report.reportKey}`);
+  }
+  for (const error of report.errors) {
+    context.warn(`Catalog sync: ${error}`);
+  }
+}
+
+// Register the timer-triggered function
+app.timer("catalogSync", {
+  schedule: process.env.CATALOG_SYNC_SCHEDULE || "0 0 3 * * *",
+  handler: catalogSyncHandler,
+});
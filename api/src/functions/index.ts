@@ -1,10 +1,170 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { AircraftCertificationRAG } from "../lib/ragPipeline";
-import { AskQuestionRequest, AskQuestionResponse } from "../lib/types";
+import { AskQuestionRequest, AskQuestionResponse, RAGStreamEvent } from "../lib/types";
 import { getConversationStore, ConversationTurn } from "../lib/conversationStore";
+import { getProfileStore, normalizeProfile } from "../lib/profileStore";
+import { getECFRClient } from "../lib/ecfrClient";
+import { checkADApplicability, normalizeConfiguration } from "../lib/adApplicability";
+import { getDocumentLineage, hasRevisionChain } from "../lib/documentLineage";
 
-// Import queue-triggered functions to register them with the Functions runtime
+// Import queue- and timer-triggered functions to register them with the Functions runtime
 import "./indexWorker";
+import "./catalogSync";
+
+// Required for returning a ReadableStream body from the streaming ask endpoint
+app.setup({ enableHttpStream: true });
+
+/**
+ * Error body shaped like an empty RAG response so the frontend can render it
+ */
+function errorBody(error: string) {
+    return {
+        error,
+        answer: "",
+        sources: [],
+        sourceCount: 0,
+        context: ""
+    };
+}
+
+/**
+ * Check if an error message indicates an upstream rate limit (429)
+ */
+function isRateLimitMessage(errorMessage: string): boolean {
+    return errorMessage.includes('429') || 
+           errorMessage.includes('rate_limit') || 
+           errorMessage.includes('rate limit');
+}
+
+// Sections a question can pin into the context
+const MAX_PINNED_SECTIONS = 5;
+
+/**
+ * Validate the ask request body
+ * @returns Error message, or null if the request is valid
+ */
+function validateAskRequest(body: AskQuestionRequest | null): string | null {
+    if (!body) {
+        return "Request body is required";
+    }
+    if (!body.question || typeof body.question !== "string" || body.question.trim() === "") {
+        return "Question is required and must be a non-empty string";
+    }
+    if (body.profileId !== undefined && typeof body.profileId !== "string") {
+        return "profileId must be a string";
+    }
+    if (body.asOf !== undefined && typeof body.asOf !== "string") {
+        return "asOf must be a date (YYYY-MM-DD) or amendment (e.g. \"Amendment 25-100\")";
+    }
+    if (body.pinnedSections !== undefined && (
+        !Array.isArray(body.pinnedSections) ||
+        body.pinnedSections.length > MAX_PINNED_SECTIONS ||
+        !body.pinnedSections.every(s => typeof s === "string" && /^\d+\.\d+$/.test(s))
+    )) {
+        return `pinnedSections must list up to ${MAX_PINNED_SECTIONS} CFR sections (e.g. ["25.1309"])`;
+    }
+    return null;
+}
+
+/**
+ * Run the RAG pipeline for a validated request and persist the conversation turns
+ * Shared by the blocking and streaming ask endpoints
+ */
+async function answerQuestion(
+    body: AskQuestionRequest,
+    context: InvocationContext,
+    onEvent?: (event: RAGStreamEvent) => void,
+    signal?: AbortSignal
+): Promise<AskQuestionResponse> {
+    const question = body.question.trim();
+    const conversationStore = getConversationStore();
+
+    // Get or create session
+    let sessionId = body.sessionId;
+    if (!sessionId) {
+        sessionId = conversationStore.generateSessionId();
+        context.log(`New session created: ${sessionId}`);
+    }
+
+    // Load existing conversation if any
+    const conversation = await conversationStore.get(sessionId);
+
+    // Project profile: from the request ('' clears it), else the one selected earlier in the session
+    const profileId = body.profileId !== undefined ? body.profileId : conversation?.profileId;
+    const profile = profileId ? await getProfileStore().get(profileId) : null;
+    if (profileId && !profile) {
+        context.warn(`Project profile not found: ${profileId}`);
+    }
+
+    // Add user question to conversation
+    const userTurn: ConversationTurn = {
+        role: 'user',
+        content: question,
+        timestamp: Date.now()
+    };
+
+    // Create RAG instance and process question
+    const rag = new AircraftCertificationRAG();
+    const result = await rag.askQuestion(question, {
+        sessionId,
+        isClarifying: body.isClarifying || false,
+        conversation,
+        onEvent,
+        signal,
+        asOf: body.asOf?.trim() || undefined,
+        profile,
+        pinnedSections: body.pinnedSections
+    });
+
+    // Add assistant response to conversation
+    const assistantTurn: ConversationTurn = {
+        role: 'assistant',
+        content: result.answer,
+        timestamp: Date.now(),
+        sources: result.sources,
+        isClarifying: result.needsClarification || false
+    };
+
+    // Save conversation turns
+    if (conversation) {
+        conversation.turns.push(userTurn, assistantTurn);
+        conversation.profileId = profile?.id;
+        await conversationStore.save(conversation);
+    } else {
+        // Create new conversation with both turns
+        await conversationStore.save({
+            sessionId,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            turns: [userTurn, assistantTurn],
+            profileId: profile?.id
+        });
+    }
+
+    return {
+        answer: result.answer,
+        sources: result.sources,
+        sourceCount: result.sourceCount,
+        context: result.context,
+        error: result.error,
+        sessionId,
+        needsClarification: result.needsClarification,
+        clarifyingQuestion: result.clarifyingQuestion,
+        ecfrUsed: result.ecfrUsed,
+        cfrSources: result.cfrSources,
+        drsSources: result.drsSources,
+        citations: result.citations,
+        grounding: result.grounding,
+        classificationUsed: result.classificationUsed,
+        vectorSearchUsed: result.vectorSearchUsed,
+        retrievalFilter: result.retrievalFilter,
+        contextReport: result.contextReport,
+        pointInTime: result.pointInTime,
+        profileId: result.profileId,
+        referenceGraph: result.referenceGraph,
+        revisionWarnings: result.revisionWarnings
+    };
+}
 
 // Ask endpoint - main RAG pipeline
 app.http('ask', {
@@ -15,129 +175,397 @@ app.http('ask', {
         context.log(`HTTP function processed request for url "${request.url}"`);
 
         try {
-            // Parse request body
+            // Parse and validate request body
             const body = await request.json() as AskQuestionRequest;
-
-            if (!body) {
+            const validationError = validateAskRequest(body);
+            if (validationError) {
                 return {
                     status: 400,
-                    jsonBody: {
-                        error: "Request body is required",
-                        answer: "",
-                        sources: [],
-                        sourceCount: 0,
-                        context: ""
-                    }
+                    jsonBody: errorBody(validationError)
                 };
             }
 
-            // Validate question
-            if (!body.question || typeof body.question !== "string" || body.question.trim() === "") {
-                return {
-                    status: 400,
-                    jsonBody: {
-                        error: "Question is required and must be a non-empty string",
-                        answer: "",
-                        sources: [],
-                        sourceCount: 0,
-                        context: ""
+            const response = await answerQuestion(body, context);
+
+            return {
+                status: 200,
+                jsonBody: response
+            };
+        } catch (error) {
+            context.error("Error processing request:", error);
+            
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const isRateLimitError = isRateLimitMessage(errorMessage);
+
+            return {
+                status: isRateLimitError ? 429 : 500,
+                jsonBody: errorBody(isRateLimitError 
+                    ? "Rate limit exceeded. Please wait a moment before trying again."
+                    : `Internal server error: ${errorMessage}`)
+            };
+        }
+    }
+});
+
+// Streaming ask endpoint - same pipeline, delivered as Server-Sent Events
+// Emits stage events as the pipeline progresses, token events while the answer
+// is generated, and a final done event carrying the full response with sources
+app.http('askStream', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'ask/stream',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`HTTP streaming function processed request for url "${request.url}"`);
+
+        const body = await request.json().catch(() => null) as AskQuestionRequest | null;
+        const validationError = validateAskRequest(body);
+        if (validationError) {
+            return {
+                status: 400,
+                jsonBody: errorBody(validationError)
+            };
+        }
+
+        const encoder = new TextEncoder();
+        // Aborted when the client goes away, so the pipeline stops instead of answering nobody
+        const abort = new AbortController();
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                // enqueue (and close) throw once the stream has been cancelled
+                const send = (event: RAGStreamEvent) => {
+                    if (abort.signal.aborted) return;
+                    controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+                };
+
+                try {
+                    const response = await answerQuestion(body, context, send, abort.signal);
+                    send({ type: 'done', response });
+                } catch (error) {
+                    if (abort.signal.aborted) {
+                        context.log("Streaming request cancelled by the client");
+                        return;
                     }
+                    context.error("Error processing streaming request:", error);
+
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    const isRateLimitError = isRateLimitMessage(errorMessage);
+
+                    send({
+                        type: 'error',
+                        status: isRateLimitError ? 429 : 500,
+                        error: isRateLimitError
+                            ? "Rate limit exceeded. Please wait a moment before trying again."
+                            : `Internal server error: ${errorMessage}`
+                    });
+                } finally {
+                    if (!abort.signal.aborted) controller.close();
+                }
+            },
+            cancel() {
+                abort.abort();
+            }
+        });
+
+        return {
+            status: 200,
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            },
+            body: stream
+        };
+    }
+});
+
+// CFR diff endpoint - word-level changes to a section or subpart between two dates
+// GET /api/cfr/diff?part=23&section=2150[&from=YYYY-MM-DD][&to=YYYY-MM-DD]
+// GET /api/cfr/diff?part=25&subpart=F&from=YYYY-MM-DD[&to=YYYY-MM-DD]
+app.http('cfrDiff', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'cfr/diff',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`CFR diff endpoint called: ${request.url}`);
+
+        const part = parseInt(request.query.get('part') || '', 10);
+        const subpart = request.query.get('subpart')?.trim() || undefined;
+        // Accept "2150" or "23.2150"
+        const section = request.query.get('section')?.trim().replace(new RegExp(`^${part}\\.`), '') || undefined;
+        const from = request.query.get('from') || undefined;
+        const to = request.query.get('to') || undefined;
+
+        const isDate = (value?: string) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value);
+        let validationError: string | null = null;
+        if (isNaN(part)) {
+            validationError = "part is required (e.g. part=25)";
+        } else if (!section === !subpart) {
+            validationError = "Specify either section (e.g. section=1309) or subpart (e.g. subpart=F)";
+        } else if (!isDate(from) || !isDate(to)) {
+            validationError = "from and to must be dates (YYYY-MM-DD)";
+        } else if (from && to && from > to) {
+            validationError = "from must be before to";
+        }
+        if (validationError) {
+            return {
+                status: 400,
+                jsonBody: { error: validationError }
+            };
+        }
+
+        try {
+            const { compareCFR } = await import('../lib/cfrDiff');
+            const diff = await compareCFR({ part, section, subpart, from, to });
+
+            if (!diff) {
+                return {
+                    status: 404,
+                    jsonBody: { error: section ? `§ ${part}.${section} not found` : `Part ${part} Subpart ${subpart} not found` }
                 };
             }
 
-            const question = body.question.trim();
-            const conversationStore = getConversationStore();
+            return {
+                status: 200,
+                jsonBody: diff
+            };
+        } catch (error) {
+            context.error("Error comparing CFR versions:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                status: 500,
+                jsonBody: { error: `Internal server error: ${errorMessage}` }
+            };
+        }
+    }
+});
 
-            // Get or create session
-            let sessionId = body.sessionId;
-            if (!sessionId) {
-                sessionId = conversationStore.generateSessionId();
-                context.log(`New session created: ${sessionId}`);
+// CFR structure endpoint - table of contents of a part (part → subparts → sections)
+// GET /api/cfr/structure/{part}[?asOf=YYYY-MM-DD]
+app.http('cfrStructure', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'cfr/structure/{part}',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`CFR structure endpoint called: ${request.url}`);
+
+        const part = parseInt(request.params.part || '', 10);
+        const asOf = request.query.get('asOf') || undefined;
+        if (isNaN(part) || part <= 0) {
+            return {
+                status: 400,
+                jsonBody: { error: "part must be a CFR part number (e.g. /api/cfr/structure/25)" }
+            };
+        }
+        if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+            return {
+                status: 400,
+                jsonBody: { error: "asOf must be a date (YYYY-MM-DD)" }
+            };
+        }
+
+        try {
+            const structure = await getECFRClient().getPartStructure(14, part, asOf);
+
+            if (!structure) {
+                return {
+                    status: 404,
+                    jsonBody: { error: `Part ${part} not found` }
+                };
             }
 
-            // Load existing conversation if any
-            const conversation = await conversationStore.get(sessionId);
+            return {
+                status: 200,
+                jsonBody: structure
+            };
+        } catch (error) {
+            context.error("Error fetching CFR structure:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                status: 500,
+                jsonBody: { error: `Internal server error: ${errorMessage}` }
+            };
+        }
+    }
+});
+
+// CFR section endpoint - text of one section, for the regulation browser
+// GET /api/cfr/section/{part}/{section}[?asOf=YYYY-MM-DD]
+app.http('cfrSection', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'cfr/section/{part}/{section}',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`CFR section endpoint called: ${request.url}`);
 
-            // Add user question to conversation
-            const userTurn: ConversationTurn = {
-                role: 'user',
-                content: question,
-                timestamp: Date.now()
+        const part = parseInt(request.params.part || '', 10);
+        const section = request.params.section || '';
+        const asOf = request.query.get('asOf') || undefined;
+        if (isNaN(part) || part <= 0 || !/^\d+$/.test(section)) {
+            return {
+                status: 400,
+                jsonBody: { error: "Specify a section as /api/cfr/section/{part}/{section} (e.g. /api/cfr/section/25/1309)" }
             };
+        }
+        if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+            return {
+                status: 400,
+                jsonBody: { error: "asOf must be a date (YYYY-MM-DD)" }
+            };
+        }
+
+        try {
+            const found = await getECFRClient().fetchSection(14, part, section, asOf);
 
-            // Create RAG instance and process question
-            const rag = new AircraftCertificationRAG();
-            const result = await rag.askQuestion(question, {
-                sessionId,
-                isClarifying: body.isClarifying || false,
-                conversation
-            });
-
-            // Add assistant response to conversation
-            const assistantTurn: ConversationTurn = {
-                role: 'assistant',
-                content: result.answer,
-                timestamp: Date.now(),
-                sources: result.sources,
-                isClarifying: result.needsClarification || false
+            if (!found) {
+                return {
+                    status: 404,
+                    jsonBody: { error: `§ ${part}.${section} not found` }
+                };
+            }
+
+            const { source, ...text } = found;
+            return {
+                status: 200,
+                jsonBody: text
             };
+        } catch (error) {
+            context.error("Error fetching CFR section:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                status: 500,
+                jsonBody: { error: `Internal server error: ${errorMessage}` }
+            };
+        }
+    }
+});
+
+// Project profiles endpoint - certification basis a session can be answered against
+// GET /api/profiles, GET /api/profiles/{id}, POST /api/profiles, PUT /api/profiles/{id}, DELETE /api/profiles/{id}
+app.http('profiles', {
+    methods: ['GET', 'POST', 'PUT', 'DELETE'],
+    authLevel: 'anonymous',
+    route: 'profiles/{id?}',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`Profiles endpoint called: ${request.method} ${request.url}`);
+
+        const profileStore = getProfileStore();
+        const id = request.params.id;
+
+        try {
+            if (request.method === 'GET') {
+                if (!id) {
+                    return { status: 200, jsonBody: { profiles: await profileStore.list() } };
+                }
+                const profile = await profileStore.get(id);
+                return profile
+                    ? { status: 200, jsonBody: profile }
+                    : { status: 404, jsonBody: { error: `Profile not found: ${id}` } };
+            }
+
+            if (request.method === 'DELETE') {
+                if (!id) {
+                    return { status: 400, jsonBody: { error: "Profile ID is required" } };
+                }
+                await profileStore.delete(id);
+                return { status: 204 };
+            }
 
-            // Save conversation turns
-            if (conversation) {
-                conversation.turns.push(userTurn, assistantTurn);
-                await conversationStore.save(conversation);
-            } else {
-                // Create new conversation with both turns
-                await conversationStore.save({
-                    sessionId,
-                    createdAt: Date.now(),
-                    updatedAt: Date.now(),
-                    turns: [userTurn, assistantTurn]
-                });
+            // POST creates, PUT updates
+            if (request.method === 'PUT' && (!id || !(await profileStore.get(id)))) {
+                return { status: 404, jsonBody: { error: `Profile not found: ${id || ''}` } };
+            }
+            const body = await request.json().catch(() => null);
+            const { profile: fields, error } = normalizeProfile(body);
+            if (!fields) {
+                return { status: 400, jsonBody: { error } };
             }
 
-            // Return successful response
-            const response: AskQuestionResponse = {
-                answer: result.answer,
-                sources: result.sources,
-                sourceCount: result.sourceCount,
-                context: result.context,
-                error: result.error,
-                sessionId,
-                needsClarification: result.needsClarification,
-                clarifyingQuestion: result.clarifyingQuestion,
-                ecfrUsed: result.ecfrUsed,
-                cfrSources: result.cfrSources,
-                drsSources: result.drsSources,
-                classificationUsed: result.classificationUsed,
-                vectorSearchUsed: result.vectorSearchUsed
+            const profile = await profileStore.save(fields, request.method === 'PUT' ? id : undefined);
+            return {
+                status: request.method === 'PUT' ? 200 : 201,
+                jsonBody: profile
+            };
+        } catch (error) {
+            context.error("Error handling profile request:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                status: 500,
+                jsonBody: { error: `Internal server error: ${errorMessage}` }
             };
+        }
+    }
+});
 
+// AD applicability endpoint - airworthiness directives that apply to an aircraft configuration
+// POST /api/ad/applicability {"make": "Boeing", "model": "737-800", "serialNumber": "30500", "engineModels": ["CFM56-7B24"]}
+app.http('adApplicability', {
+    methods: ['POST'],
+    authLevel: 'anonymous',
+    route: 'ad/applicability',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`AD applicability endpoint called: ${request.url}`);
+
+        const body = await request.json().catch(() => null);
+        const { configuration, error } = normalizeConfiguration(body);
+        if (!configuration) {
+            return {
+                status: 400,
+                jsonBody: { error }
+            };
+        }
+
+        try {
             return {
                 status: 200,
-                jsonBody: response
+                jsonBody: await checkADApplicability(configuration)
             };
         } catch (error) {
-            context.error("Error processing request:", error);
-            
+            context.error("Error checking AD applicability:", error);
             const errorMessage = error instanceof Error ? error.message : String(error);
-            
-            // Check if it's a rate limit error (429)
-            const isRateLimitError = errorMessage.includes('429') || 
-                                     errorMessage.includes('rate_limit') || 
-                                     errorMessage.includes('rate limit');
+            return {
+                status: 500,
+                jsonBody: { error: `Internal server error: ${errorMessage}` }
+            };
+        }
+    }
+});
 
+// GET /api/documents/lineage/{docType}/{docNumber}
+// Example: /api/documents/lineage/AC/23-8B
+app.http('documentLineage', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    route: 'documents/lineage/{docType}/{docNumber}',
+    handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+        context.log(`Document lineage endpoint called: ${request.url}`);
+
+        const docType = request.params.docType;
+        const docNumber = (request.params.docNumber || '').trim();
+        if (!hasRevisionChain(docType) || !docNumber) {
             return {
-                status: isRateLimitError ? 429 : 500,
-                jsonBody: {
-                    error: isRateLimitError 
-                        ? "Rate limit exceeded. Please wait a moment before trying again."
-                        : `Internal server error: ${errorMessage}`,
-                    answer: "",
-                    sources: [],
-                    sourceCount: 0,
-                    context: ""
-                }
+                status: 400,
+                jsonBody: { error: "Revision lineage is available for AC and Order documents (e.g. /api/documents/lineage/AC/23-8B)" }
+            };
+        }
+
+        try {
+            const lineage = await getDocumentLineage(docType, docNumber);
+            if (!lineage) {
+                return {
+                    status: 502,
+                    jsonBody: { error: `Could not look up revisions of ${docType} ${docNumber} in DRS` }
+                };
+            }
+            return {
+                status: 200,
+                jsonBody: lineage
+            };
+        } catch (error) {
+            context.error("Error fetching document lineage:", error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return {
+                status: 500,
+                jsonBody: { error: `Internal server error: ${errorMessage}` }
             };
         }
     }
@@ -153,9 +581,10 @@ app.http('health', {
         
         // Import vector search functions
         const { hasVectorSearch } = await import('../lib/vectorSearch');
-        const { hasEmbeddingService } = await import('../lib/embeddings');
+        const { hasEmbeddingService, getEmbeddingProvider } = await import('../lib/embeddings');
         const { getQueueStats, hasIndexQueue } = await import('../lib/indexQueue');
-        const { getIndexStats } = await import('../lib/vectorSearch');
+        const { getIndexStats, getVectorStore } = await import('../lib/vectorSearch');
+        const { getLLMConfig } = await import('../lib/llmProvider');
 
         // Get queue statistics if available
         let indexQueue = null;
@@ -177,9 +606,12 @@ app.http('health', {
 
         const config = {
             hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
+            llmProvider: getLLMConfig().provider,
             hasDrsApiKey: !!process.env.DRS_API_KEY,
             hasBlobStorage: !!process.env.BLOB_STORAGE_CONNECTION_STRING,
+            vectorStore: getVectorStore().name,
             hasVectorSearch: hasVectorSearch(),
+            embeddingProvider: getEmbeddingProvider().name,
             hasEmbeddingService: hasEmbeddingService(),
             hasIndexQueue: hasIndexQueue(),
             indexQueue,
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractWithPatterns, matchConfiguration } from "./adApplicability";
+import { ADRecord, AircraftConfiguration } from "./types";
+
+function ad(overrides: Partial<ADRecord>): ADRecord {
+  return {
+    adNumber: '2024-02-05',
+    title: 'The Boeing Company Airplanes',
+    makes: ['The Boeing Company'],
+    models: ['737-800'],
+    serialRanges: [],
+    serialNumbers: [],
+    engineModels: [],
+    propellerModels: [],
+    complianceTimes: [],
+    extraction: 'pattern',
+    ...overrides
+  };
+}
+
+const B737: AircraftConfiguration = { make: 'Boeing', model: '737-800', serialNumber: '30150' };
+
+describe('matchConfiguration', () => {
+  it('matches a series model and rejects other makes and models', () => {
+    assert.equal(matchConfiguration(ad({ models: ['737 series'] }), { make: 'Boeing', model: '737-900ER' })?.match, 'applies');
+    assert.equal(matchConfiguration(ad({ models: ['737'] }), { make: 'Boeing', model: '737-900ER' }), null);
+    assert.equal(matchConfiguration(ad({}), { make: 'Airbus', model: '737-800' }), null);
+    assert.equal(matchConfiguration(ad({}), { make: '', model: '737-800' }), null);
+  });
+
+  it('applies to listed serial numbers only', () => {
+    const listed = ad({ serialNumbers: ['30001', '30150', '30320'] });
+    assert.deepEqual(matchConfiguration(listed, { ...B737, serialNumber: 'MSN 30150' })?.reasons, ['Model 737-800', 'S/N MSN 30150 is listed']);
+    assert.equal(matchConfiguration(listed, { ...B737, serialNumber: '30151' }), null);
+    // Without the serial number it can't be told
+    assert.equal(matchConfiguration(listed, { ...B737, serialNumber: undefined })?.match, 'possibly_applies');
+  });
+
+  it('checks closed and open-ended ranges', () => {
+    const ranged = ad({ serialRanges: [{ from: '30001', to: '30100' }, { from: '31000' }] });
+    assert.equal(matchConfiguration(ranged, { ...B737, serialNumber: '30100' })?.match, 'applies');
+    assert.equal(matchConfiguration(ranged, { ...B737, serialNumber: '45000' })?.match, 'applies');
+    assert.equal(matchConfiguration(ranged, { ...B737, serialNumber: '30150' }), null);
+  });
+
+  it('only uses the ranges listed for the configured model', () => {
+    const perModel = ad({
+      models: ['737-800', '737-900'],
+      serialRanges: [{ model: '737-800', from: '100', to: '200' }, { model: '737-900', from: '300', to: '400' }]
+    });
+    assert.equal(matchConfiguration(perModel, { ...B737, model: '737-900', serialNumber: '350' })?.match, 'applies');
+    assert.equal(matchConfiguration(perModel, { ...B737, model: '737-900', serialNumber: '150' }), null);
+  });
+
+  it('compares the prefix of prefixed serial numbers as well as the number', () => {
+    const prefixed = ad({ serialRanges: [{ from: 'A-100', to: 'A-200' }], serialNumbers: ['B-0500'] });
+    assert.equal(matchConfiguration(prefixed, { ...B737, serialNumber: 'MSN A-150' })?.match, 'applies');
+    assert.equal(matchConfiguration(prefixed, { ...B737, serialNumber: 'B-150' }), null);
+    assert.equal(matchConfiguration(prefixed, { ...B737, serialNumber: 'B-500' })?.match, 'applies');
+    assert.equal(matchConfiguration(prefixed, { ...B737, serialNumber: 'A-500' }), null);
+    // A bare number can't be placed in a prefixed series
+    assert.equal(matchConfiguration(prefixed, { ...B737, serialNumber: '150' })?.match, 'possibly_applies');
+  });
+});
+
+describe('extractWithPatterns', () => {
+  it('reads the standard AD paragraphs', () => {
+    const record = extractWithPatterns(`AD 2024-02-05
+(a) Effective Date
+This AD is effective March 1, 2024.
+(b) Affected ADs
+This AD replaces AD 2019-11-02.
+(c) Applicability
+This AD applies to The Boeing Company Model 737-800, -900, and 737-900ER series airplanes, certificated in any
+category, serial numbers 30001 through 30500 and MSN 31000 and subsequent.
+(d) Subject
+Within 500 flight hours after the effective date of this AD, inspect the fasteners.`);
+
+    assert.equal(record.effectiveDate, '2024-03-01');
+    assert.equal(record.supersedes, '2019-11-02');
+    assert.deepEqual(record.makes, ['The Boeing Company']);
+    assert.deepEqual(record.models, ['737-800', '737-900', '737-900ER']);
+    assert.deepEqual(record.serialRanges, [{ from: '30001', to: '30500' }, { from: '31000' }]);
+    assert.deepEqual(record.complianceTimes, ['Within 500 flight hours after the effective date of this AD, inspect the fasteners']);
+  });
+
+  it('lists serial numbers and files engine models apart from aircraft models', () => {
+    const record = extractWithPatterns(`(c) Applicability. This AD applies to CFM International S.A. Model CFM56-7B24 and
+CFM56-7B26 turbofan engines with serial numbers 890101, 890245, and 890300. (d) Subject`);
+
+    assert.deepEqual(record.models, []);
+    assert.deepEqual(record.engineModels, ['CFM56-7B24', 'CFM56-7B26']);
+    assert.deepEqual(record.serialNumbers, ['890101', '890245', '890300']);
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * AD Applicability
+ * Airworthiness directives from DRS, with their applicability extracted into structured records
+ *
+ * Candidate ADs are found by DRS keyword search on the aircraft model and its
+ * engine and propeller models. The applicability (makes, models, serial ranges,
+ * engine/propeller models), effective date and compliance times of each AD are
+ * extracted by the LLM, falling back to text patterns, and cached per AD.
+ */
+
+import { DRSClient, DRSDocument } from "./drsClient";
+import { DocumentCache, getDocumentCache } from "./documentCache";
+import { LLMProvider, getLLMProvider } from "./llmProvider";
+import { MONTHS, toISODate } from "./queryClassifier";
+import { isRecord, optionalString, stringList } from "./fieldParsing";
+import { ADRecord, ADSerialRange, ADMatch, ADApplicabilityResponse, AircraftConfiguration } from "./types";
+
+/**
+ * AD configuration
+ */
+const AD_CONFIG = {
+  drsDocType: process.env.AD_DRS_DOCTYPE || 'AD',                       // DRS document type for ADs
+  maxCandidates: parseInt(process.env.AD_MAX_CANDIDATES || '15'),       // ADs downloaded and checked per request
+  statusFilter: ['Current'],
+  extractionChars: 12000,     // AD text given to the extractor (applicability and compliance come first)
+  maxComplianceTimes: 5,
+};
+
+const EXTRACTOR_SYSTEM_PROMPT = `You extract the applicability of FAA airworthiness directives (ADs) into JSON.
+
+Read the AD's Applicability, Effective Date, Affected ADs and compliance paragraphs and respond with JSON only:
+{
+  "effectiveDate": "YYYY-MM-DD",
+  "makes": ["type certificate holder or manufacturer, e.g. The Boeing Company"],
+  "models": ["aircraft models, each on its own, e.g. 737-800"],
+  "serialRanges": [{ "model": "model the range is listed for, if any", "from": "first serial number", "to": "last serial number" }],
+  "serialNumbers": ["individually listed serial numbers"],
+  "engineModels": ["engine models, if the AD applies to engines"],
+  "propellerModels": ["propeller models, if the AD applies to propellers"],
+  "complianceTimes": ["each compliance time as written, e.g. Within 500 flight hours after the effective date of this AD"],
+  "supersedes": "AD number this AD supersedes, if any"
+}
+
+Rules:
+- List every model separately; expand "Models 737-800 and -900" to ["737-800", "737-900"]
+- Leave "from" or "to" out for open-ended ranges ("serial number 1234 and subsequent")
+- Use empty arrays for anything the AD does not state - never guess`;
+
+/**
+ * Applicability as the extractor is asked to return it (every field is checked before use)
+ */
+interface ExtractorResponse {
+  effectiveDate?: string;
+  makes?: string[];
+  models?: string[];
+  serialRanges?: Array<{ model?: string; from?: string; to?: string }>;
+  serialNumbers?: string[];
+  engineModels?: string[];
+  propellerModels?: string[];
+  complianceTimes?: string[];
+  supersedes?: string;
+}
+
+/**
+ * Normalize an AD number ("AD 2024-02-05" → "2024-02-05")
+ */
+export function normalizeADNumber(value: string): string {
+  return value.trim().replace(/^AD\s*/i, '');
+}
+
+/**
+ * "March 1, 2024" → "2024-03-01"
+ */
+function parseWrittenDate(text: string): string | undefined {
+  const match = text.match(/([A-Z][a-z]+)\s+(\d{1,2}),\s*(\d{4})/);
+  const month = match ? MONTHS.indexOf(match[1].toLowerCase()) : -1;
+  if (!match || month < 0) return undefined;
+  return toISODate(Number(match[3]), month + 1, Number(match[2])) || undefined;
+}
+
+/**
+ * Split a list like "737-800, -900, and 737-900ER" into models, expanding dash suffixes
+ */
+function splitModels(list: string): string[] {
+  const models: string[] = [];
+  for (const raw of list.split(/,\s*(?:and\s+)?|\s+and\s+/)) {
+    const model = raw.trim().replace(/\s+(?:airplanes?|helicopters?|engines?|propellers?|series).*$/i, '');
+    if (!model || !/\d/.test(model)) continue;
+    // "-900" continues the previous model's base: 737-800, -900 → 737-900
+    if (model.startsWith('-') && models.length > 0) {
+      models.push(models[models.length - 1].replace(/-[^-]*$/, '') + model);
+    } else {
+      models.push(model);
+    }
+  }
+  return models;
+}
+
+/**
+ * Extract applicability with text patterns (fallback when the LLM returns nothing)
+ * Relies on the standard AD layout: (a) Effective Date, (b) Affected ADs, (c) Applicability
+ */
+export function extractWithPatterns(text: string): Omit<ADRecord, 'adNumber' | 'title' | 'status' | 'url' | 'extraction'> {
+  const flat = text.replace(/\s+/g, ' ');
+
+  const effective = flat.match(/\(a\)\s*Effective Date\.?\s*(.{0,120})/i) || flat.match(/This AD (?:is|becomes) effective (.{0,40})/i);
+  const supersedes = flat.match(/(?:replaces|supersedes)\s+AD\s+(\d{2,4}-\d{2}-\d{2})/i);
+  const applicability = flat.match(/\(c\)\s*Applicability\.?\s*(.{0,2000}?)(?=\(d\)\s|$)/i)?.[1]
+    || flat.match(/This AD applies to\s+(.{0,1500}?)(?=\.\s+\(|$)/i)?.[1]
+    || '';
+
+  const makes: string[] = [];
+  const make = applicability.match(/applies to\s+(?:all\s+)?(.+?)\s+Models?\b/i) || applicability.match(/^(?:all\s+)?(.+?)\s+Models?\b/i);
+  if (make) makes.push(make[1].replace(/^(?:all|certain)\s+/i, '').trim());
+
+  const models: string[] = [];
+  for (const match of applicability.matchAll(/Models?\s+([A-Z0-9][\w\-\/.]*(?:(?:,\s*(?:and\s+)?|\s+and\s+)-?[A-Z0-9][\w\-\/.]*)*)/g)) {
+    models.push(...splitModels(match[1]).filter(m => !models.includes(m)));
+  }
+
+  const serialRanges: ADSerialRange[] = [];
+  for (const match of applicability.matchAll(/(?:serial numbers?|S\/Ns?|MSNs?)\s+([\w\-]+)\s+(?:through|to)\s+([\w\-]+)/gi)) {
+    serialRanges.push({ from: match[1], to: match[2] });
+  }
+  for (const match of applicability.matchAll(/(?:serial numbers?|S\/Ns?|MSNs?)\s+([\w\-]+)\s+and\s+(?:subsequent|on)/gi)) {
+    serialRanges.push({ from: match[1] });
+  }
+  const serialNumbers: string[] = [];
+  for (const match of applicability.matchAll(/(?:serial numbers?|S\/Ns?|MSNs?)\s+((?:\d[\w\-]*)(?:,\s*(?:and\s+)?\d[\w\-]*)+)/gi)) {
+    serialNumbers.push(...match[1].split(/,\s*(?:and\s+)?/).map(s => s.trim()));
+  }
+
+  // Engine and propeller ADs name the product in the applicability ("Model CFM56-7B turbofan engines")
+  const isEngine = /\bengines?\b/i.test(applicability) && !/\b(?:airplanes?|helicopters?|rotorcraft)\b/i.test(applicability);
+  const isPropeller = /\bpropellers?\b/i.test(applicability) && !/\b(?:airplanes?|helicopters?|rotorcraft)\b/i.test(applicability);
+
+  const complianceTimes: string[] = [];
+  for (const match of flat.matchAll(/\b(?:Within|Before|Prior to|At intervals not to exceed)\b[^.;]{0,200}?\b(?:flight hours|flight cycles|hours time-in-service|cycles|landings|days|months|years)\b[^.;]*/gi)) {
+    const time = match[0].trim();
+    if (!complianceTimes.includes(time) && complianceTimes.length < AD_CONFIG.maxComplianceTimes) {
+      complianceTimes.push(time);
+    }
+  }
+
+  return {
+    effectiveDate: effective ? parseWrittenDate(effective[1]) : undefined,
+    makes,
+    models: isEngine || isPropeller ? [] : models,
+    serialRanges,
+    serialNumbers,
+    engineModels: isEngine ? models : [],
+    propellerModels: isPropeller ? models : [],
+    complianceTimes,
+    supersedes: supersedes ? supersedes[1] : undefined
+  };
+}
+
+/**
+ * Extract an AD's applicability record from its text
+ * LLM fields win; anything the LLM left empty is filled from the text patterns
+ */
+export async function extractADRecord(doc: DRSDocument, text: string, llm: LLMProvider): Promise<ADRecord> {
+  const patterns = extractWithPatterns(text);
+
+  let extracted: ExtractorResponse = {};
+  try {
+    extracted = await llm.completeJSON<ExtractorResponse>({
+      role: 'extractor',
+      maxTokens: 1500,
+      system: EXTRACTOR_SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        content: `AD ${normalizeADNumber(doc.documentNumber)}: ${doc.title}\n\n${text.substring(0, AD_CONFIG.extractionChars)}`
+      }]
+    }) || {};
+  } catch (error) {
+    console.warn(`⚠️ AD extraction failed for ${doc.documentNumber}, using text patterns:`, error);
+  }
+
+  const serialRanges: ADSerialRange[] = (Array.isArray(extracted.serialRanges) ? extracted.serialRanges : [])
+    .filter(isRecord)
+    .map(r => ({ model: optionalString(r.model), from: optionalString(r.from), to: optionalString(r.to) }))
+    .filter(r => r.from || r.to);
+  const effectiveDate = optionalString(extracted.effectiveDate);
+  const supersedes = optionalString(extracted.supersedes);
+  const fromLLM = {
+    effectiveDate: effectiveDate && /^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) ? effectiveDate : undefined,
+    makes: stringList(extracted.makes),
+    models: stringList(extracted.models),
+    serialRanges,
+    serialNumbers: stringList(extracted.serialNumbers),
+    engineModels: stringList(extracted.engineModels),
+    propellerModels: stringList(extracted.propellerModels),
+    complianceTimes: stringList(extracted.complianceTimes),
+    supersedes: supersedes ? normalizeADNumber(supersedes) : undefined
+  };
+  const hasProducts = fromLLM.models.length + fromLLM.engineModels.length + fromLLM.propellerModels.length > 0;
+  const pick = <T>(llmValue: T[], patternValue: T[]) => llmValue.length > 0 ? llmValue : patternValue;
+
+  return {
+    adNumber: normalizeADNumber(doc.documentNumber),
+    title: doc.title,
+    status: doc.status,
+    effectiveDate: fromLLM.effectiveDate || patterns.effectiveDate,
+    makes: pick(fromLLM.makes, patterns.makes),
+    // Products come from one source so aircraft and engine models aren't mixed
+    models: hasProducts ? fromLLM.models : patterns.models,
+    serialRanges: pick(fromLLM.serialRanges, patterns.serialRanges),
+    serialNumbers: pick(fromLLM.serialNumbers, patterns.serialNumbers),
+    engineModels: hasProducts ? fromLLM.engineModels : patterns.engineModels,
+    propellerModels: hasProducts ? fromLLM.propellerModels : patterns.propellerModels,
+    complianceTimes: pick(fromLLM.complianceTimes, patterns.complianceTimes),
+    supersedes: fromLLM.supersedes || patterns.supersedes,
+    extraction: hasProducts ? 'llm' : 'pattern',
+    url: doc.mainDocumentDownloadURL
+  };
+}
+
+/**
+ * Compare model designations ignoring case and punctuation
+ * An AD model listed as a series ("737 series") matches every model starting with it
+ */
+function modelMatches(adModel: string, model: string): boolean {
+  const normalize = (value: string) => value.toUpperCase().replace(/\bSERIES\b/g, '').replace(/[^A-Z0-9]/g, '');
+  const ad = normalize(adModel);
+  const candidate = normalize(model);
+  if (!ad || !candidate) return false;
+  return ad === candidate || (/series/i.test(adModel) && candidate.startsWith(ad));
+}
+
+/**
+ * A serial number split into its prefix and number
+ */
+interface SerialNumber {
+  prefix: string;             // Letters and digits before the number, e.g. "A" for "A-0100"
+  value: number;
+}
+
+/**
+ * Prefix and number of a serial number ("MSN A-01234" → A, 1234), or null if it has no number
+ * Labels like "MSN" and "S/N" aren't part of the prefix
+ */
+function parseSerial(serial: string): SerialNumber | null {
+  const match = serial.toUpperCase()
+    .replace(/^\s*(?:MSN|S\/N|SN|SERIAL(?:\s+NUMBER)?)(?![A-Z0-9])[.:]?\s*/, '')
+    .match(/^(.*?)(\d+)\D*$/);
+  return match ? { prefix: match[1].replace(/[^A-Z0-9]/g, ''), value: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Whether two serial numbers are of the same series ("A-100" and "B-100" aren't):
+ * true/false, or null when only one of them has a prefix
+ */
+function sameSeries(a: SerialNumber, b: SerialNumber): boolean | null {
+  if (a.prefix === b.prefix) return true;
+  return a.prefix && b.prefix ? false : null;
+}
+
+/**
+ * Check whether a listed serial number is the configuration's
+ */
+function sameSerial(listed: string, serial: string): boolean {
+  const a = parseSerial(listed);
+  const b = parseSerial(serial);
+  return listed.toUpperCase() === serial.toUpperCase() || (!!a && !!b && sameSeries(a, b) === true && a.value === b.value);
+}
+
+/**
+ * Check whether a serial number is in a range: true/false, or null if it can't be compared
+ */
+function serialInRange(serial: string, range: ADSerialRange): boolean | null {
+  const value = parseSerial(serial);
+  const from = range.from ? parseSerial(range.from) : null;
+  const to = range.to ? parseSerial(range.to) : null;
+  if (!value || (range.from && !from) || (range.to && !to)) return null;
+
+  const series = [from, to].filter((bound): bound is SerialNumber => bound !== null).map(bound => sameSeries(value, bound));
+  if (series.includes(false)) return false;
+  if (series.includes(null)) return null;
+  return (!from || value.value >= from.value) && (!to || value.value <= to.value);
+}
+
+/**
+ * Match an AD record against an aircraft configuration
+ * @returns The match with its reasons, or null if the AD doesn't apply
+ */
+export function matchConfiguration(ad: ADRecord, config: AircraftConfiguration): ADMatch | null {
+  const reasons: string[] = [];
+
+  // An AD without makes doesn't restrict the make; one with makes never matches an empty make
+  const normalizeMake = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const configMake = normalizeMake(config.make);
+  const adMakes = ad.makes.map(normalizeMake).filter(Boolean);
+  const makeMatches = adMakes.length === 0 ||
+    (configMake !== '' && adMakes.some(make => make.includes(configMake) || configMake.includes(make)));
+  const models = makeMatches ? ad.models.filter(m => modelMatches(m, config.model)) : [];
+  const engines = ad.engineModels.filter(m => (config.engineModels || []).some(e => modelMatches(m, e)));
+  const propellers = ad.propellerModels.filter(m => (config.propellerModels || []).some(p => modelMatches(m, p)));
+
+  if (models.length === 0 && engines.length === 0 && propellers.length === 0) {
+    // The DRS search found it but its applicability couldn't be read
+    if (ad.models.length + ad.engineModels.length + ad.propellerModels.length === 0) {
+      return { ad, match: 'possibly_applies', reasons: ['Applicability could not be extracted - check the AD'] };
+    }
+    return null;
+  }
+
+  if (models.length > 0) reasons.push(`Model ${models.join(', ')}`);
+  if (engines.length > 0) reasons.push(`Engine ${engines.join(', ')}`);
+  if (propellers.length > 0) reasons.push(`Propeller ${propellers.join(', ')}`);
+
+  // Serial numbers limit aircraft applicability; engine/propeller serials aren't part of the configuration
+  const ranges = ad.serialRanges.filter(r => !r.model || modelMatches(r.model, config.model));
+  if (ranges.length === 0 && ad.serialNumbers.length === 0) {
+    return { ad, match: 'applies', reasons };
+  }
+  if (models.length === 0 || !config.serialNumber) {
+    return { ad, match: 'possibly_applies', reasons: [...reasons, 'Applies to certain serial numbers only'] };
+  }
+
+  const serial = config.serialNumber;
+  const listed = ad.serialNumbers.find(s => sameSerial(s, serial));
+  if (listed) {
+    return { ad, match: 'applies', reasons: [...reasons, `S/N ${serial} is listed`] };
+  }
+  const results = ranges.map(range => ({ range, inRange: serialInRange(serial, range) }));
+  const hit = results.find(r => r.inRange === true);
+  if (hit) {
+    return { ad, match: 'applies', reasons: [...reasons, `S/N ${serial} in ${hit.range.from || '…'}-${hit.range.to || '…'}`] };
+  }
+  if (results.some(r => r.inRange === null)) {
+    return { ad, match: 'possibly_applies', reasons: [...reasons, `Could not compare S/N ${serial} with the AD's serial numbers`] };
+  }
+  return null;
+}
+
+/**
+ * Get the applicability record of an AD (cache first; downloads and extracts on a miss)
+ */
+async function getADRecord(doc: DRSDocument, drsClient: DRSClient, llm: LLMProvider, cache: DocumentCache): Promise<ADRecord | null> {
+  const cacheKey = DocumentCache.adKey(normalizeADNumber(doc.documentNumber));
+  const cached = await cache.get<ADRecord>(cacheKey);
+  if (cached) return cached.data;
+
+  const result = await drsClient.fetchDocumentDirect(doc, AD_CONFIG.drsDocType);
+  if (!result) return null;
+
+  const record = await extractADRecord(doc, result.text, llm);
+  await cache.set(cacheKey, record, DocumentCache.AD_TTL_HOURS);
+  console.log(`📋 AD ${record.adNumber}: ${record.models.length} models, ${record.engineModels.length} engines, ${record.propellerModels.length} propellers (${record.extraction})`);
+  return record;
+}
+
+/**
+ * Validate an aircraft configuration from a request body
+ * @returns The configuration, or an error message
+ */
+export function normalizeConfiguration(input: unknown): { configuration?: AircraftConfiguration; error?: string } {
+  if (!isRecord(input)) {
+    return { error: 'Aircraft configuration is required' };
+  }
+  const make = optionalString(input.make);
+  if (!make) {
+    return { error: 'make is required' };
+  }
+  const model = optionalString(input.model);
+  if (!model) {
+    return { error: 'model is required' };
+  }
+
+  return {
+    configuration: {
+      make,
+      model,
+      serialNumber: optionalString(input.serialNumber),
+      engineModels: stringList(input.engineModels),
+      propellerModels: stringList(input.propellerModels)
+    }
+  };
+}
+
+/**
+ * Find the ADs that apply to an aircraft configuration
+ */
+export async function checkADApplicability(
+  config: AircraftConfiguration,
+  drsClient: DRSClient = new DRSClient(),
+  llm: LLMProvider = getLLMProvider(),
+  cache: DocumentCache = getDocumentCache()
+): Promise<ADApplicabilityResponse> {
+  console.log(`🛩️  AD applicability: ${config.make} ${config.model}${config.serialNumber ? ` S/N ${config.serialNumber}` : ''}`);
+
+  // One search per product so an engine's ADs aren't crowded out by the airframe's
+  const searches = [
+    [config.model, config.make],
+    ...(config.engineModels || []).map(m => [m]),
+    ...(config.propellerModels || []).map(m => [m])
+  ];
+  const candidates = new Map<string, DRSDocument>();
+  for (const keywords of searches) {
+    try {
+      const docs = await drsClient.searchDocumentsFiltered(keywords, AD_CONFIG.drsDocType, {
+        statusFilter: AD_CONFIG.statusFilter,
+        maxResults: AD_CONFIG.maxCandidates
+      });
+      for (const doc of docs) {
+        if (doc.documentNumber && !candidates.has(doc.documentNumber)) {
+          candidates.set(doc.documentNumber, doc);
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ AD search failed for [${keywords.join(', ')}]:`, error);
+    }
+  }
+
+  const docs = Array.from(candidates.values()).slice(0, AD_CONFIG.maxCandidates);
+  const records = (await Promise.all(docs.map(doc => getADRecord(doc, drsClient, llm, cache))))
+    .filter((r): r is ADRecord => r !== null);
+
+  const matches = records
+    .map(record => matchConfiguration(record, config))
+    .filter((m): m is ADMatch => m !== null)
+    .sort((a, b) =>
+      (a.match === b.match ? 0 : a.match === 'applies' ? -1 : 1) ||
+      (b.ad.effectiveDate || '').localeCompare(a.ad.effectiveDate || '')
+    );
+
+  console.log(`✅ AD applicability: ${matches.filter(m => m.match === 'applies').length} apply, ${matches.filter(m => m.match === 'possibly_applies').length} possibly apply (${records.length} checked)`);
+
+  return { configuration: config, matches, checked: records.length };
+}
@@ -0,0 +1,454 @@
+/**
+ * Azure AI Search vector store
+ */
+
+import {
+  SearchClient,
+  SearchIndexClient,
+  AzureKeyCredential,
+  SearchIndex,
+  KnownVectorSearchAlgorithmKind,
+  KnownVectorSearchAlgorithmMetric,
+} from '@azure/search-documents';
+import { EMBEDDING_DIMENSIONS } from './embeddings';
+import {
+  FADocument,
+  FADocumentPatch,
+  SearchResult,
+  IndexStats,
+  VectorStore,
+  SEARCH_SELECT_FIELDS,
+  KEYWORD_SEARCH_FIELDS,
+  normalizeIndexedDocumentNumber,
+} from './vectorStore';
+
+const getSearchConfig = () => ({
+  endpoint: process.env.AZURE_SEARCH_ENDPOINT || '',
+  key: process.env.AZURE_SEARCH_KEY || '',
+  indexName: process.env.AZURE_SEARCH_INDEX || 'faa-documents'
+});
+
+export class AzureSearchVectorStore implements VectorStore {
+  readonly name = 'azure';
+
+  private searchClient: SearchClient<FADocument> | null = null;
+  private indexClient: SearchIndexClient | null = null;
+  private lastConfig: { endpoint: string; indexName: string } | null = null;
+
+  /**
+   * Get the search client (lazy initialization)
+   */
+  private getSearchClient(): SearchClient<FADocument> {
+    const config = getSearchConfig();
+
+    // Reset clients if config changed
+    if (this.lastConfig && (this.lastConfig.endpoint !== config.endpoint || this.lastConfig.indexName !== config.indexName)) {
+      this.searchClient = null;
+      this.indexClient = null;
+    }
+    this.lastConfig = { endpoint: config.endpoint, indexName: config.indexName };
+
+    if (!this.searchClient) {
+      if (!config.endpoint || !config.key) {
+        throw new Error('Azure Search credentials not configured');
+      }
+      this.searchClient = new SearchClient<FADocument>(
+        config.endpoint,
+        config.indexName,
+        new AzureKeyCredential(config.key)
+      );
+    }
+    return this.searchClient;
+  }
+
+  /**
+   * Get the index client (for index management)
+   */
+  private getIndexClient(): SearchIndexClient {
+    const config = getSearchConfig();
+    if (!this.indexClient) {
+      if (!config.endpoint || !config.key) {
+        throw new Error('Azure Search credentials not configured');
+      }
+      this.indexClient = new SearchIndexClient(
+        config.endpoint,
+        new AzureKeyCredential(config.key)
+      );
+    }
+    return this.indexClient;
+  }
+
+  isConfigured(): boolean {
+    const config = getSearchConfig();
+    return !!(config.endpoint && config.key);
+  }
+
+  /**
+   * Create the search index if it doesn't exist, or add fields it's missing
+   */
+  async ensureIndexExists(): Promise<void> {
+    const client = this.getIndexClient();
+    const config = getSearchConfig();
+    const indexDefinition = this.getIndexDefinition(config.indexName);
+
+    let existing: SearchIndex;
+    try {
+      existing = await client.getIndex(config.indexName);
+    } catch (error: unknown) {
+      // Index doesn't exist, create it
+      // Check for 404 status code or "not found" in the message
+      const isNotFound = (error as { statusCode?: number }).statusCode === 404 ||
+                         (error instanceof Error && error.message.toLowerCase().includes('not found'));
+      if (!isNotFound) {
+        throw error;
+      }
+      console.log(`Creating index '${config.indexName}'...`);
+      await client.createIndex(indexDefinition);
+      console.log(`Index '${config.indexName}' created successfully`);
+      return;
+    }
+
+    // Fields can be added to an existing index (documents without them read as null)
+    const missing = indexDefinition.fields.filter(f => !existing.fields.some(e => e.name === f.name));
+    if (missing.length > 0) {
+      await client.createOrUpdateIndex({ ...existing, fields: [...existing.fields, ...missing] });
+      console.log(`Index '${config.indexName}': added fields ${missing.map(f => f.name).join(', ')}`);
+    } else {
+      console.log(`Index '${config.indexName}' already exists`);
+    }
+  }
+
+  /**
+   * Search index schema
+   */
+  private getIndexDefinition(indexName: string): SearchIndex {
+    return {
+      name: indexName,
+      fields: [
+        { name: 'id', type: 'Edm.String', key: true, filterable: true },
+        { name: 'documentType', type: 'Edm.String', filterable: true, facetable: true },
+        { name: 'title', type: 'Edm.String', searchable: true },
+        { name: 'content', type: 'Edm.String', searchable: true },
+        {
+          name: 'contentVector',
+          type: 'Collection(Edm.Single)',
+          searchable: true,
+          vectorSearchDimensions: EMBEDDING_DIMENSIONS,
+          vectorSearchProfileName: 'vector-profile',
+        },
+        { name: 'cfrPart', type: 'Edm.Int32', filterable: true, facetable: true },
+        { name: 'cfrSection', type: 'Edm.String', filterable: true, searchable: true },
+        { name: 'documentNumber', type: 'Edm.String', filterable: true, searchable: true },
+        { name: 'effectiveDate', type: 'Edm.String', filterable: true, sortable: true },
+        { name: 'source', type: 'Edm.String' },
+        { name: 'lastIndexed', type: 'Edm.String', filterable: true, sortable: true },
+        // Chunking metadata fields
+        { name: 'documentId', type: 'Edm.String', filterable: true },  // Parent document ID
+        { name: 'chunkIndex', type: 'Edm.Int32', filterable: true, sortable: true },
+        { name: 'totalChunks', type: 'Edm.Int32', filterable: true },
+        { name: 'chunkTitle', type: 'Edm.String', searchable: true },
+        // Additional metadata fields
+        { name: 'revision', type: 'Edm.String', filterable: true, facetable: true },
+        { name: 'changeNumber', type: 'Edm.String', filterable: true, facetable: true },
+        { name: 'status', type: 'Edm.String', filterable: true, facetable: true },
+        // Provenance fields
+        { name: 'headingPath', type: 'Collection(Edm.String)', searchable: true },
+        { name: 'pageStart', type: 'Edm.Int32', filterable: true },
+        { name: 'pageEnd', type: 'Edm.Int32', filterable: true },
+        { name: 'startChar', type: 'Edm.Int32' },
+        { name: 'endChar', type: 'Edm.Int32' },
+        { name: 'tableCaption', type: 'Edm.String', searchable: true },
+        // Indexed version fields
+        { name: 'docLastModified', type: 'Edm.String', filterable: true, sortable: true },
+        { name: 'contentHash', type: 'Edm.String', filterable: true },
+      ],
+      vectorSearch: {
+        algorithms: [
+          {
+            name: 'hnsw-algorithm',
+            kind: KnownVectorSearchAlgorithmKind.Hnsw,
+            parameters: {
+              m: 4,
+              efConstruction: 400,
+              efSearch: 500,
+              metric: KnownVectorSearchAlgorithmMetric.Cosine,
+            },
+          },
+        ],
+        profiles: [
+          {
+            name: 'vector-profile',
+            algorithmConfigurationName: 'hnsw-algorithm',
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Upload documents in batches of 1000 (Azure Search limit)
+   */
+  async indexDocuments(docs: FADocument[]): Promise<void> {
+    const client = this.getSearchClient();
+    const UPLOAD_BATCH_SIZE = 1000;
+    for (let i = 0; i < docs.length; i += UPLOAD_BATCH_SIZE) {
+      const batch = docs.slice(i, i + UPLOAD_BATCH_SIZE);
+      await client.uploadDocuments(batch);
+      console.log(`Indexed ${Math.min(i + UPLOAD_BATCH_SIZE, docs.length)}/${docs.length} documents`);
+    }
+  }
+
+  /**
+   * Merge fields into existing documents in batches of 1000
+   */
+  async mergeDocuments(docs: FADocumentPatch[]): Promise<void> {
+    const client = this.getSearchClient();
+    const UPLOAD_BATCH_SIZE = 1000;
+    for (let i = 0; i < docs.length; i += UPLOAD_BATCH_SIZE) {
+      const batch = docs.slice(i, i + UPLOAD_BATCH_SIZE);
+      await client.mergeDocuments(batch as FADocument[]);
+      console.log(`Updated ${Math.min(i + UPLOAD_BATCH_SIZE, docs.length)}/${docs.length} documents`);
+    }
+  }
+
+  async listDocuments(filter: string | undefined, fields: Array<keyof FADocument>, maxResults: number): Promise<FADocument[]> {
+    const client = this.getSearchClient();
+
+    const searchResults = await client.search('*', {
+      filter,
+      top: maxResults,
+      select: fields,
+      queryType: 'simple',
+    });
+
+    const documents: FADocument[] = [];
+    for await (const result of searchResults.results) {
+      documents.push(result.document as FADocument);
+    }
+    return documents;
+  }
+
+  /**
+   * Vector search for similar documents
+   */
+  async vectorSearch(queryVector: number[], top: number, filter?: string): Promise<SearchResult[]> {
+    const client = this.getSearchClient();
+
+    const searchResults = await client.search('*', {
+      vectorSearchOptions: {
+        queries: [
+          {
+            kind: 'vector',
+            vector: queryVector,
+            kNearestNeighborsCount: top,
+            fields: ['contentVector'],
+          },
+        ],
+      },
+      filter,
+      top,
+      select: SEARCH_SELECT_FIELDS,
+    });
+
+    const results: SearchResult[] = [];
+    for await (const result of searchResults.results) {
+      results.push({
+        document: result.document as FADocument,
+        score: result.score ?? 0,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Hybrid search: text search + vector search (fused by Azure with RRF)
+   */
+  async hybridSearch(query: string, queryVector: number[], top: number, filter?: string): Promise<SearchResult[]> {
+    const client = this.getSearchClient();
+
+    const searchResults = await client.search(query, {
+      vectorSearchOptions: {
+        queries: [
+          {
+            kind: 'vector',
+            vector: queryVector,
+            kNearestNeighborsCount: top,
+            fields: ['contentVector'],
+          },
+        ],
+      },
+      filter,
+      top,
+      select: SEARCH_SELECT_FIELDS,
+      queryType: 'simple',
+      searchFields: KEYWORD_SEARCH_FIELDS,
+    });
+
+    const results: SearchResult[] = [];
+    for await (const result of searchResults.results) {
+      results.push({
+        document: result.document as FADocument,
+        score: result.score ?? 0,
+      });
+    }
+
+    return results;
+  }
+
+  async getDocument(id: string): Promise<FADocument | null> {
+    const client = this.getSearchClient();
+    try {
+      return await client.getDocument(id);
+    } catch {
+      return null;
+    }
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const client = this.getSearchClient();
+    await client.deleteDocuments('id', ids);
+  }
+
+  async getDocumentCount(): Promise<number> {
+    const client = this.getSearchClient();
+    return await client.getDocumentsCount();
+  }
+
+  /**
+   * Get all indexed document numbers for a specific document type
+   */
+  async getIndexedDocumentNumbers(documentType: string | undefined, maxResults: number): Promise<Set<string>> {
+    try {
+      const client = this.getSearchClient();
+
+      // Build filter for document type if specified
+      const filter = documentType ? `documentType eq '${documentType}'` : undefined;
+
+      // Search for all docs, only retrieve documentNumber field
+      const searchResults = await client.search('*', {
+        filter,
+        top: maxResults,
+        select: ['documentNumber'],
+        queryType: 'simple',
+      });
+
+      const docNumbers = new Set<string>();
+      for await (const result of searchResults.results) {
+        const doc = result.document as FADocument;
+        if (doc.documentNumber) {
+          docNumbers.add(normalizeIndexedDocumentNumber(doc.documentNumber));
+        }
+      }
+
+      return docNumbers;
+    } catch (error) {
+      // Index might not exist yet
+      console.warn('⚠️ Could not query indexed documents:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Get all indexed CFR sections
+   */
+  async getIndexedCFRSections(maxResults: number): Promise<Set<string>> {
+    try {
+      const client = this.getSearchClient();
+
+      // Filter for eCFR documents only
+      const searchResults = await client.search('*', {
+        filter: `documentType eq 'eCFR'`,
+        top: maxResults,
+        select: ['cfrPart', 'cfrSection'],
+        queryType: 'simple',
+      });
+
+      const cfrSections = new Set<string>();
+      for await (const result of searchResults.results) {
+        const doc = result.document as FADocument;
+        if (doc.cfrPart && doc.cfrSection) {
+          // Format: "23.2240", "25.631"
+          cfrSections.add(`${doc.cfrPart}.${doc.cfrSection}`);
+        }
+      }
+
+      return cfrSections;
+    } catch (error) {
+      console.warn('⚠️ Could not query indexed CFR sections:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Delete all documents from the index
+   */
+  async deleteAllDocuments(): Promise<number> {
+    try {
+      const client = this.getSearchClient();
+
+      // Get all document IDs
+      const searchResults = await client.search('*', {
+        top: 5000,
+        select: ['id'],
+        queryType: 'simple',
+      });
+
+      const ids: string[] = [];
+      for await (const result of searchResults.results) {
+        const doc = result.document as FADocument;
+        ids.push(doc.id);
+      }
+
+      if (ids.length === 0) {
+        console.log('No documents to delete');
+        return 0;
+      }
+
+      // Delete in batches of 1000
+      const BATCH_SIZE = 1000;
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const batch = ids.slice(i, i + BATCH_SIZE);
+        // deleteDocuments expects array of documents with key field
+        await client.deleteDocuments('id', batch);
+        console.log(`Deleted batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batch.length} documents`);
+      }
+
+      console.log(`✅ Deleted ${ids.length} documents from index`);
+      return ids.length;
+    } catch (error) {
+      console.error('Failed to delete documents:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get index statistics
+   */
+  async getIndexStats(): Promise<IndexStats> {
+    try {
+      const client = this.getSearchClient();
+
+      const searchResults = await client.search('*', {
+        top: 5000,
+        select: ['id', 'documentId', 'chunkIndex'],
+        queryType: 'simple',
+      });
+
+      const parentDocs = new Set<string>();
+      let chunkCount = 0;
+
+      for await (const result of searchResults.results) {
+        const doc = result.document as FADocument;
+        chunkCount++;
+        parentDocs.add(doc.documentId || doc.id);
+      }
+
+      return { documentCount: parentDocs.size, chunkCount };
+    } catch (error) {
+      console.warn('Could not get index stats:', error);
+      return { documentCount: 0, chunkCount: 0 };
+    }
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Catalog Sync
+ * Keeps the index in step with the DRS and eCFR catalogs
+ *
+ * Walks the configured DRS document types and CFR parts and compares them
+ * with what is indexed. New and changed DRS documents are enqueued for the
+ * index worker (or indexed inline when there is no queue), and cancelled
+ * ones are deleted. New and amended CFR sections are indexed, and removed
+ * or reserved ones deleted. Each run writes a JSON report.
+ */
+
+import { DRSClient, DRSDocument } from "./drsClient";
+import { ECFRClient, ECFRVersion } from "./ecfrClient";
+import { createQueueMessage, enqueueForIndexing, hasIndexQueue, processQueueMessage } from "./indexQueue";
+import { documentParentId, getIndexedVersion, getIndexedVersions, needsIndexing } from "./documentVersions";
+import { FADocument, deleteDocuments, getVectorStore, hasVectorSearch, indexDocuments } from "./vectorSearch";
+import { hasEmbeddingService } from "./embeddings";
+import { normalizeIndexedDocumentNumber } from "./vectorStore";
+import { createStorageAdapter, StorageAdapter } from "./storageAdapter";
+
+const CFR_TITLE = 14;
+
+/**
+ * Sync configuration
+ * Read when a sync runs, so scripts can load settings into process.env first
+ */
+export function getSyncConfig() {
+  const list = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+  return {
+    drsDocTypes: list(process.env.SYNC_DRS_DOC_TYPES || 'AC,Order,TSO'),
+    cfrParts: list(process.env.SYNC_CFR_PARTS || '21,23,25,27,29,33,35,43').map(Number),
+    maxDocuments: parseInt(process.env.SYNC_MAX_DOCUMENTS || '100'),   // DRS documents enqueued (or indexed) per run
+    maxSections: parseInt(process.env.SYNC_MAX_SECTIONS || '200'),     // CFR sections indexed per run
+    maxIndexedSections: 10000,                                         // Indexed CFR sections read per part
+    reportContainer: process.env.SYNC_REPORT_CONTAINER || 'sync-reports',
+  };
+}
+
+/**
+ * Sync options (unset options come from the configuration)
+ */
+export interface SyncOptions {
+  dryRun?: boolean;           // Report changes without making them
+  docTypes?: string[];        // DRS document types, e.g. ["AC"] ([] skips DRS)
+  cfrParts?: number[];        // CFR parts, e.g. [25] ([] skips eCFR)
+  maxDocuments?: number;
+  maxSections?: number;
+}
+
+/**
+ * Sync results for one DRS document type
+ */
+export interface DRSSyncResult {
+  docType: string;
+  listed: number;             // Documents DRS lists (all statuses)
+  added: string[];            // New Current documents enqueued (or indexed)
+  updated: string[];          // Indexed documents DRS modified since, enqueued (or re-indexed)
+  removed: string[];          // Cancelled documents deleted from the index
+  deferred: number;           // New or changed documents left for a later run
+}
+
+/**
+ * Sync results for one CFR part
+ */
+export interface CFRSyncResult {
+  part: number;
+  sections: number;           // Sections in the part (removed ones excluded)
+  added: string[];            // New sections indexed, e.g. "25.1309"
+  updated: string[];          // Sections amended since they were indexed, re-indexed
+  removed: string[];          // Removed or reserved sections deleted from the index
+  deferred: number;           // New or amended sections left for a later run
+}
+
+/**
+ * Report of a sync run (written to the report container)
+ */
+export interface SyncReport {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  drsIndexing: 'queue' | 'inline';   // How new and changed DRS documents are indexed
+  drs: DRSSyncResult[];
+  cfr: CFRSyncResult[];
+  errors: string[];
+  reportKey?: string;         // Where the report was written
+}
+
+/**
+ * Index id of a CFR section (the same ids progressive indexing uses)
+ */
+function cfrSectionId(part: number, section: string): string {
+  return `ecfr-${CFR_TITLE}-${part}-${section}`;
+}
+
+/**
+ * Day (YYYY-MM-DD) a chunk was indexed
+ */
+function indexedDay(lastIndexed: Date | string | undefined): string {
+  const date = lastIndexed ? new Date(lastIndexed) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : '';
+}
+
+/**
+ * Compare one DRS document type with the index
+ */
+async function syncDocumentType(
+  docType: string,
+  versions: Map<string, string | undefined>,
+  budget: { remaining: number },
+  dryRun: boolean,
+  drsClient: DRSClient,
+  errors: string[]
+): Promise<DRSSyncResult> {
+  const result: DRSSyncResult = { docType, listed: 0, added: [], updated: [], removed: [], deferred: 0 };
+  const docs = await drsClient.listDocuments(docType);
+  result.listed = docs.length;
+
+  // A number DRS still lists as Current or Historical isn't removed for an older cancelled record
+  const numberOf = (doc: DRSDocument) => normalizeIndexedDocumentNumber(doc.documentNumber);
+  const active = new Set(docs.filter(d => d.status !== 'Cancelled').map(numberOf));
+
+  // New and changed documents, most recently modified first (changed ones before new ones)
+  const changed: DRSDocument[] = [];
+  const added: DRSDocument[] = [];
+  const seen = new Set<string>();
+  for (const doc of docs) {
+    const number = numberOf(doc);
+    if (!doc.documentNumber || seen.has(number)) continue;
+    seen.add(number);
+
+    if (doc.status === 'Cancelled') {
+      if (!versions.has(number) || active.has(number)) continue;
+      const indexed = await getIndexedVersion(documentParentId(docType, doc.documentNumber));
+      if (!indexed) continue;
+      if (!dryRun) await deleteDocuments(Array.from(indexed.chunks.keys()));
+      result.removed.push(doc.documentNumber);
+    } else if (doc.mainDocumentDownloadURL && needsIndexing(doc, versions)) {
+      if (versions.has(number)) changed.push(doc);
+      else if (doc.status === 'Current') added.push(doc);
+    }
+  }
+
+  const batch = [...changed, ...added].slice(0, Math.max(budget.remaining, 0));
+  result.deferred = changed.length + added.length - batch.length;
+  budget.remaining -= batch.length;
+
+  if (!dryRun && batch.length > 0) {
+    if (hasIndexQueue()) {
+      await enqueueForIndexing(batch.map(doc => ({ doc, docType })));
+    } else {
+      for (const doc of batch) {
+        if (!(await processQueueMessage(createQueueMessage(doc, docType)))) {
+          errors.push(`Failed to index ${docType} ${doc.documentNumber}`);
+        }
+      }
+    }
+  }
+
+  for (const doc of batch) {
+    (changed.includes(doc) ? result.updated : result.added).push(doc.documentNumber);
+  }
+  return result;
+}
+
+/**
+ * Compare one CFR part with the index
+ */
+async function syncPart(
+  part: number,
+  budget: { remaining: number },
+  dryRun: boolean,
+  ecfrClient: ECFRClient,
+  errors: string[]
+): Promise<CFRSyncResult> {
+  const result: CFRSyncResult = { part, sections: 0, added: [], updated: [], removed: [], deferred: 0 };
+
+  // Version of each section in effect today (versions are oldest first)
+  const versions = await ecfrClient.getVersions(CFR_TITLE, part);
+  if (versions.length === 0) {
+    errors.push(`No eCFR versions for Part ${part}, left unchanged`);
+    return result;
+  }
+  const today = new Date().toISOString().slice(0, 10);
+  const latest = new Map<string, ECFRVersion>();
+  for (const version of versions) {
+    if (version.identifier.startsWith(`${part}.`) && version.date <= today) latest.set(version.identifier, version);
+  }
+
+  const indexed = new Map<string, FADocument>();
+  const docs = await getVectorStore().listDocuments(
+    `documentType eq 'eCFR' and cfrPart eq ${part}`,
+    ['id', 'cfrSection', 'lastIndexed'],
+    getSyncConfig().maxIndexedSections
+  );
+  for (const doc of docs) {
+    if (doc.cfrSection) indexed.set(`${part}.${doc.cfrSection}`, doc);
+  }
+
+  const changed: ECFRVersion[] = [];
+  const added: ECFRVersion[] = [];
+  for (const [identifier, version] of latest) {
+    const doc = indexed.get(identifier);
+    if (version.removed) {
+      if (!doc) continue;
+      if (!dryRun) await deleteDocuments([doc.id]);
+      result.removed.push(identifier);
+      continue;
+    }
+    result.sections++;
+    if (!doc) added.push(version);
+    else if (indexedDay(doc.lastIndexed) < version.date) changed.push(version);
+  }
+
+  const batch = [...changed, ...added].slice(0, Math.max(budget.remaining, 0));
+  result.deferred = changed.length + added.length - batch.length;
+  budget.remaining -= batch.length;
+
+  const toIndex: Array<Omit<FADocument, 'contentVector' | 'lastIndexed'>> = [];
+  for (const version of batch) {
+    const isChange = changed.includes(version);
+    if (dryRun) {
+      (isChange ? result.updated : result.added).push(version.identifier);
+      continue;
+    }
+
+    const section = await ecfrClient.fetchSection(CFR_TITLE, part, version.identifier.slice(`${part}.`.length));
+    if (!section) {
+      errors.push(`Could not fetch § ${version.identifier}`);
+      continue;
+    }
+    // Text cached before the amendment is re-indexed once the cache entry expires
+    if (section.effectiveDate < version.date) {
+      result.deferred++;
+      continue;
+    }
+
+    toIndex.push({
+      id: cfrSectionId(part, section.section),
+      documentType: 'eCFR',
+      title: `14 CFR § ${part}.${section.section} - ${section.sectionTitle}`,
+      content: section.content,
+      cfrPart: part,
+      cfrSection: section.section,
+      source: section.url
+    });
+    (isChange ? result.updated : result.added).push(version.identifier);
+  }
+
+  if (toIndex.length > 0) await indexDocuments(toIndex);
+  return result;
+}
+
+/**
+ * Sync the index with the DRS and eCFR catalogs and write a report
+ *
+ * @param options - Dry run, document types, CFR parts and per-run limits
+ * @param drsClient - DRS client used to list documents
+ * @param ecfrClient - eCFR client used to list and fetch sections (a new one by default:
+ *                     the shared client keeps versions in memory for the life of the host)
+ * @param storage - Where the report is written (null skips it)
+ */
+export async function syncCatalog(
+  options: SyncOptions = {},
+  drsClient: DRSClient = new DRSClient(),
+  ecfrClient: ECFRClient = new ECFRClient(),
+  storage: StorageAdapter | null = createStorageAdapter(getSyncConfig().reportContainer, 'filesystem')
+): Promise<SyncReport> {
+  const config = getSyncConfig();
+  const {
+    dryRun = false,
+    docTypes = config.drsDocTypes,
+    cfrParts = config.cfrParts,
+    maxDocuments = config.maxDocuments,
+    maxSections = config.maxSections
+  } = options;
+
+  const report: SyncReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    dryRun,
+    drsIndexing: hasIndexQueue() ? 'queue' : 'inline',
+    drs: [],
+    cfr: [],
+    errors: []
+  };
+  console.log(`🔄 Catalog sync: DRS [${docTypes.join(', ')}], 14 CFR Parts [${cfrParts.join(', ')}]${dryRun ? ' [dry run]' : ''}`);
+
+  if (!hasVectorSearch()) {
+    report.errors.push('Vector search not configured');
+  } else if (!dryRun && !hasEmbeddingService()) {
+    report.errors.push('Embedding service not configured');
+  } else {
+    const versions = docTypes.length > 0 ? await getIndexedVersions() : new Map<string, string | undefined>();
+    const documentBudget = { remaining: maxDocuments };
+    for (const docType of docTypes) {
+      try {
+        report.drs.push(await syncDocumentType(docType, versions, documentBudget, dryRun, drsClient, report.errors));
+      } catch (error) {
+        console.warn(`⚠️ Catalog sync failed for DRS ${docType}:`, error);
+        report.errors.push(`DRS ${docType}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const sectionBudget = { remaining: maxSections };
+    for (const part of cfrParts) {
+      try {
+        report.cfr.push(await syncPart(part, sectionBudget, dryRun, ecfrClient, report.errors));
+      } catch (error) {
+        console.warn(`⚠️ Catalog sync failed for Part ${part}:`, error);
+        report.errors.push(`Part ${part}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+
+  if (storage) {
+    const reportKey = `sync-${report.startedAt.replace(/[:.]/g, '-')}.json`;
+    try {
+      await storage.put(reportKey, JSON.stringify({ ...report, reportKey }, null, 2), {
+        startedat: report.startedAt,
+        dryrun: String(dryRun)
+      });
+      report.reportKey = reportKey;
+    } catch (error) {
+      console.warn('⚠️ Could not write the sync report:', error);
+    }
+  }
+
+  console.log(`✅ ${summarizeSyncReport(report)}`);
+  return report;
+}
+
+/**
+ * One-line summary of a sync report
+ */
+export function summarizeSyncReport(report: SyncReport): string {
+  const count = (results: Array<DRSSyncResult | CFRSyncResult>, key: 'added' | 'updated' | 'removed') =>
+    results.reduce((sum, r) => sum + r[key].length, 0);
+  const deferred = [...report.drs, ...report.cfr].reduce((sum, r) => sum + r.deferred, 0);
+  const drsVerb = report.drsIndexing === 'queue' ? 'enqueued' : 'indexed';
+
+  return `Catalog sync${report.dryRun ? ' (dry run)' : ''}: ` +
+    `DRS ${count(report.drs, 'added')} new and ${count(report.drs, 'updated')} changed ${drsVerb}, ${count(report.drs, 'removed')} cancelled removed; ` +
+    `CFR ${count(report.cfr, 'added')} new and ${count(report.cfr, 'updated')} amended indexed, ${count(report.cfr, 'removed')} removed; ` +
+    `${deferred} deferred, ${report.errors.length} errors`;
+}
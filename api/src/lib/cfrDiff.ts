@@ -0,0 +1,211 @@
+/**
+ * CFR Diff
+ * Compares eCFR versions of a section or subpart between two dates
+ *
+ * Dates default to the last two versions, so a diff without dates shows the
+ * most recent change. Subpart diffs use the version history to find the
+ * sections that changed and only fetch those. Dates before eCFR history starts
+ * are compared from its start, and the result says so.
+ */
+
+import { ECFRClient, ECFRVersion, getECFRClient, ECFR_HISTORY_START } from "./ecfrClient";
+import { diffWords, countChangedWords } from "./textDiff";
+import { CFRDiffResponse, CFRSectionDiff } from "./types";
+
+/**
+ * Diff configuration
+ */
+const CFR_DIFF_CONFIG = {
+  maxSubpartSections: parseInt(process.env.CFR_DIFF_MAX_SECTIONS || '40'),  // Changed sections compared per subpart diff
+  fetchConcurrency: 5,        // Sections fetched in parallel
+  contextWords: 15,           // Unchanged words kept around each change in the LLM context
+};
+
+/**
+ * What to compare
+ */
+export interface CFRDiffRequest {
+  title?: number;             // Defaults to 14
+  part: number;
+  section?: string;           // e.g., "2150" (one of section or subpart)
+  subpart?: string;           // e.g., "B"
+  from?: string;              // YYYY-MM-DD; defaults to the previous version
+  to?: string;                // YYYY-MM-DD; defaults to the latest issue
+}
+
+/**
+ * Resolve the dates to compare: missing dates default to the last two versions
+ */
+function resolveDates(versions: ECFRVersion[], latestDate: string, from?: string, to?: string): { from: string; to: string } {
+  const toDate = to || latestDate;
+  if (from) {
+    return { from, to: toDate };
+  }
+
+  // Previous version before the last one in effect on the "to" date
+  const dates = Array.from(new Set(versions.map(v => v.date))).filter(d => d <= toDate).sort();
+  const fromDate = dates.length >= 2 ? dates[dates.length - 2] : dates[0] || toDate;
+  return { from: fromDate, to: toDate };
+}
+
+/**
+ * Move dates before the start of eCFR history to its start
+ * @returns The dates to compare, and a note naming the requested dates eCFR has no text for
+ */
+function clampToHistory(from?: string, to?: string): { from?: string; to?: string; historyNote?: string } {
+  const early = [from, to].filter((date): date is string => !!date && date < ECFR_HISTORY_START);
+  if (early.length === 0) {
+    return { from, to };
+  }
+  const clamp = (date?: string) => date && date < ECFR_HISTORY_START ? ECFR_HISTORY_START : date;
+  return {
+    from: clamp(from),
+    to: clamp(to),
+    historyNote: `eCFR history starts ${ECFR_HISTORY_START}, so there is no text as of ${early.join(' or ')}: ` +
+      `compared from ${ECFR_HISTORY_START} instead, and changes before then are not shown`
+  };
+}
+
+/**
+ * Diff one section between two dates
+ * @returns null if the section exists at neither date
+ */
+async function diffSection(
+  client: ECFRClient,
+  title: number,
+  part: number,
+  section: string,
+  from: string,
+  to: string
+): Promise<CFRSectionDiff | null> {
+  const [older, newer] = await Promise.all([
+    client.fetchSection(title, part, section, from),
+    client.fetchSection(title, part, section, to)
+  ]);
+  if (!older && !newer) {
+    return null;
+  }
+
+  const segments = diffWords(older?.content || '', newer?.content || '');
+  const { insertedWords, deletedWords } = countChangedWords(segments);
+
+  return {
+    part,
+    section,
+    sectionTitle: (newer || older)!.sectionTitle,
+    status: !older ? 'added' : !newer ? 'removed' : insertedWords + deletedWords > 0 ? 'changed' : 'unchanged',
+    fromEffectiveDate: older?.effectiveDate,
+    toEffectiveDate: newer?.effectiveDate,
+    segments,
+    insertedWords,
+    deletedWords,
+    url: (newer || older)!.url
+  };
+}
+
+/**
+ * Compare a section or subpart between two dates
+ *
+ * @returns The diff, or null if the section/subpart wasn't found
+ */
+export async function compareCFR(request: CFRDiffRequest): Promise<CFRDiffResponse | null> {
+  const client = getECFRClient();
+  const title = request.title || 14;
+  const { part } = request;
+  const latestDate = await client.getLatestDate(title);
+  const requested = clampToHistory(request.from, request.to);
+  if (requested.historyNote) {
+    console.warn(`⚠️  ${requested.historyNote}`);
+  }
+
+  if (request.section) {
+    const versions = await client.getVersions(title, part, { section: `${part}.${request.section}` });
+    const { from, to } = resolveDates(versions, latestDate, requested.from, requested.to);
+    console.log(`🔀 Comparing § ${part}.${request.section}: ${from} → ${to}`);
+
+    const diff = await diffSection(client, title, part, request.section, from, to);
+    if (!diff) {
+      return null;
+    }
+    return {
+      title,
+      part,
+      section: request.section,
+      fromDate: from,
+      toDate: to,
+      sections: [diff],
+      historyNote: requested.historyNote
+    };
+  }
+
+  const subpart = (request.subpart || '').toUpperCase();
+  const versions = await client.getVersions(title, part, { subpart });
+  if (versions.length === 0) {
+    return null;
+  }
+  const { from, to } = resolveDates(versions, latestDate, requested.from, requested.to);
+
+  // Sections with a version between the two dates changed; the rest are unchanged
+  const sectionIds = Array.from(new Set(
+    versions.map(v => v.identifier).filter(id => id.startsWith(`${part}.`))
+  ));
+  const changedIds = sectionIds.filter(id => versions.some(v => v.identifier === id && v.date > from && v.date <= to));
+  const toCompare = changedIds.slice(0, CFR_DIFF_CONFIG.maxSubpartSections);
+  console.log(`🔀 Comparing Part ${part} Subpart ${subpart}: ${from} → ${to} (${changedIds.length}/${sectionIds.length} sections changed)`);
+
+  const sections: CFRSectionDiff[] = [];
+  for (let i = 0; i < toCompare.length; i += CFR_DIFF_CONFIG.fetchConcurrency) {
+    const batch = toCompare.slice(i, i + CFR_DIFF_CONFIG.fetchConcurrency);
+    const diffs = await Promise.all(
+      batch.map(id => diffSection(client, title, part, id.slice(`${part}.`.length), from, to))
+    );
+    sections.push(...diffs.filter((d): d is CFRSectionDiff => d !== null && d.status !== 'unchanged'));
+  }
+
+  return {
+    title,
+    part,
+    subpart,
+    fromDate: from,
+    toDate: to,
+    sections,
+    unchangedSections: sectionIds.length - changedIds.length,
+    skippedSections: changedIds.length > toCompare.length ? changedIds.slice(toCompare.length) : undefined,
+    historyNote: requested.historyNote
+  };
+}
+
+/**
+ * Format a section diff for the LLM context
+ * Deletions are marked [-like this-], insertions {+like this+}; long unchanged
+ * runs are shortened to the words around each change
+ */
+export function formatDiffForContext(diff: CFRSectionDiff, fromDate: string, toDate: string): string {
+  const header = `Changes to § ${diff.part}.${diff.section} between ${fromDate} and ${toDate}`;
+  if (diff.status === 'unchanged') {
+    return `${header}: no changes (text effective ${diff.toEffectiveDate || fromDate}).`;
+  }
+  if (diff.status === 'added') {
+    return `${header}: section added (effective ${diff.toEffectiveDate}).\n\n{+${diff.segments.map(s => s.text).join('')}+}`;
+  }
+  if (diff.status === 'removed') {
+    return `${header}: section removed or reserved.\n\n[-${diff.segments.map(s => s.text).join('')}-]`;
+  }
+
+  const keep = CFR_DIFF_CONFIG.contextWords;
+  const body = diff.segments.map((segment, i) => {
+    if (segment.op === 'delete') return `[-${segment.text}-]`;
+    if (segment.op === 'insert') return `{+${segment.text}+}`;
+
+    const words = segment.text.split(/(\s+)/);
+    const wordCount = Math.ceil(words.length / 2);
+    if (wordCount <= keep * 2) return segment.text;
+
+    // Keep the words next to the neighboring changes
+    const head = i > 0 ? words.slice(0, keep * 2).join('') : '';
+    const tail = i < diff.segments.length - 1 ? words.slice(-keep * 2).join('') : '';
+    return `${head.trimEnd()} … ${tail.trimStart()}`;
+  }).join('');
+
+  return `${header} (text effective ${diff.fromEffectiveDate} → ${diff.toEffectiveDate}; ${diff.deletedWords} words removed, ${diff.insertedWords} added):\n\n${body.trim()}`;
+}
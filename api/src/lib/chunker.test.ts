@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chunkDocumentStructured, createHeadingPathLookup, getChunkConfig } from "./chunker";
+
+/** A paragraph of about the given length */
+function prose(length: number): string {
+  const sentence = 'The applicant should show compliance by test or analysis. ';
+  return sentence.repeat(Math.ceil(length / sentence.length)).slice(0, length).trim();
+}
+
+describe('chunkDocumentStructured', () => {
+  it('folds a short cover page into the first chapter instead of chunking it alone', () => {
+    const text = [
+      'ADVISORY CIRCULAR',
+      'CHAPTER 1. GENERAL',
+      `1-1. PURPOSE. ${prose(1200)}`,
+      'CHAPTER 2. FLIGHT TEST',
+      `2-1. GENERAL. ${prose(1200)}`,
+    ].join('\n\n');
+
+    const { chunks } = chunkDocumentStructured(text);
+
+    assert.equal(chunks.length, 2);
+    assert.ok(chunks[0].content.startsWith('ADVISORY CIRCULAR\n\nCHAPTER 1. GENERAL'));
+    assert.deepEqual(chunks[1].headingPath, ['CHAPTER 2. FLIGHT TEST']);
+    assert.ok(chunks.every(chunk => chunk.content.length >= getChunkConfig().minChunkSize));
+  });
+
+  it('joins a short last paragraph of a chapter to the chunk before it', () => {
+    const text = [
+      'CHAPTER 1. GENERAL',
+      `1-1. PURPOSE. ${prose(1500)}`,
+      `1-2. SCOPE. ${prose(800)}`,
+      `1-3. CANCELLATION. ${prose(100)}`,
+      'CHAPTER 2. FLIGHT TEST',
+      `2-1. GENERAL. ${prose(1200)}`,
+    ].join('\n\n');
+
+    const { chunks } = chunkDocumentStructured(text);
+
+    const cancellation = chunks.find(chunk => chunk.content.includes('1-3. CANCELLATION'));
+    assert.ok(cancellation && cancellation.content.includes('1-2. SCOPE'), 'short paragraph merged with its neighbour');
+    assert.ok(!cancellation.content.includes('CHAPTER 2'));
+  });
+});
+
+describe('createHeadingPathLookup', () => {
+  it('finds the enclosing headings at any position, ignoring table captions', () => {
+    const text = [
+      'Cover page',
+      'CHAPTER 3. FASTENERS',
+      '3-1. GENERAL. Fasteners are inspected.',
+      'a. Rivets. Solid rivets are checked.',
+      'TABLE 3-1. RIVET SIZES',
+      '| Size | Diameter |',
+      'CHAPTER 4. WELDING',
+    ].join('\n');
+    const headingPathAt = createHeadingPathLookup(text);
+
+    assert.deepEqual(headingPathAt(0), []);
+    assert.deepEqual(headingPathAt(text.indexOf('Fasteners are')), ['CHAPTER 3. FASTENERS', '3-1. GENERAL']);
+    assert.deepEqual(headingPathAt(text.indexOf('| Size')), ['CHAPTER 3. FASTENERS', '3-1. GENERAL', 'a. Rivets']);
+    assert.deepEqual(headingPathAt(text.indexOf('CHAPTER 4')), ['CHAPTER 4. WELDING']);
+    assert.deepEqual(headingPathAt(text.length), ['CHAPTER 4. WELDING']);
+  });
+});
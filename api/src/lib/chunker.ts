@@ -1,19 +1,26 @@
 /**
- * Claude-based semantic document chunking
- * 
- * Uses Claude to intelligently identify logical section boundaries in FAA documents,
- * respecting § references, chapters, and topic transitions for better retrieval.
+ * Document chunking for FAA documents
+ *
+ * The structured chunker is deterministic: it recognizes FAA document structure
+ * (CHAPTER/SECTION headings, numbered paragraphs like "3-1." and "3.a.(1)",
+ * appendices, tables, § headings), packs paragraphs into chunks of about the
+ * target size without crossing chapters, and gives each chunk its heading path.
+ * It handles documents of any length.
+ *
+ * Claude can optionally refine the boundaries (CHUNK_LLM_REFINEMENT=true) for
+ * documents short enough to analyze whole; its chunks get heading paths too.
  */
 
-import Anthropic from "@anthropic-ai/sdk";
-import { createAnthropicClient } from "./anthropic";
+import { LLMProvider, getLLMProvider } from "./llmProvider";
 
-// Configuration
+// Configuration (model is selected per role by the LLM provider, see CHUNK_MODEL)
 const CHUNK_CONFIG = {
-  model: process.env.CHUNK_MODEL || 'claude-sonnet-4-20250514',
   targetSize: parseInt(process.env.CHUNK_TARGET_SIZE || '2000'),  // Target chars per chunk
   maxChunksPerDoc: parseInt(process.env.CHUNK_MAX_PER_DOC || '50'),  // Safety limit
   minChunkSize: parseInt(process.env.CHUNK_MIN_SIZE || '500'),  // Don't create tiny chunks
+  overlap: parseInt(process.env.CHUNK_OVERLAP || '200'),  // Chars repeated from the previous chunk within a chapter
+  llmRefinement: process.env.CHUNK_LLM_REFINEMENT === 'true',  // Let Claude choose boundaries for short enough documents
+  analysisLimit: 100000,  // Longest document Claude analyzes (~25K tokens)
 };
 
 /**
@@ -23,8 +30,11 @@ export interface DocumentChunk {
   content: string;           // The chunk text
   index: number;             // 0-based chunk index
   title?: string;            // Section title if identified
+  headingPath?: string[];    // Enclosing headings, outermost first (e.g., ["CHAPTER 3. FASTENERS", "3-1. GENERAL", "a. Rivets"])
   startChar: number;         // Start position in original doc
   endChar: number;           // End position in original doc
+  pageStart?: number;        // First PDF page of the chunk (1-based)
+  pageEnd?: number;          // Last PDF page of the chunk
 }
 
 /**
@@ -33,7 +43,355 @@ export interface DocumentChunk {
 export interface ChunkingResult {
   chunks: DocumentChunk[];
   totalChunks: number;
-  method: 'claude' | 'fallback';  // Which method was used
+  method: 'structured' | 'claude' | 'fallback';  // Which method was used
+}
+
+/**
+ * A heading recognized at the start of a line
+ */
+interface Heading {
+  level: number;             // 0 = chapter/appendix (outermost) ... 8 = "(a)"
+  label: string;             // Heading as shown in the path, e.g. "3-1. GENERAL"
+  start: number;             // Position of the heading's line
+  isTable: boolean;          // Tables and figures don't enclose the text after them
+}
+
+// Lines like "CHAPTER 1. GENERAL ........ 1-1" in a table of contents aren't headings
+const TOC_LINE = /(?:\.\s*){4,}\s*[\w-]+$/;
+
+// Abbreviations a sentence doesn't end at
+export const ABBREVIATIONS = /\b(?:e\.g|i\.e|etc|No|Nos|para|Par|Ref|Fig|Vol|Rev|approx|U\.S)\.$/i;
+
+const HEADING_LABEL_LENGTH = 80;
+
+/**
+ * Heading label: the designator plus the title up to its first period,
+ * e.g. "1. PURPOSE. This advisory circular..." -> "1. PURPOSE"
+ */
+function headingLabel(designator: string, rest: string): string {
+  const title = rest.match(/^([^.]{1,70})\./)?.[1] ?? (rest.length <= HEADING_LABEL_LENGTH ? rest : '');
+  return `${designator} ${title}`.trim().slice(0, HEADING_LABEL_LENGTH);
+}
+
+/**
+ * Recognize an FAA heading at the start of a (trimmed) line
+ */
+function detectHeading(line: string): Omit<Heading, 'start'> | null {
+  if (!line || line.length < 2 || TOC_LINE.test(line)) return null;
+
+  let m = line.match(/^(CHAPTER|APPENDIX)\s+([0-9]+|[IVXLC]+|[A-Z])\b\.?\s*(.*)$/i);
+  if (m && /^[A-Z]/.test(m[1])) {
+    return { level: 0, label: `${m[1].toUpperCase()} ${m[2]}${m[3] ? `. ${headingLabel('', m[3])}` : ''}`, isTable: false };
+  }
+  m = line.match(/^SECTION\s+(\d+)\b\.?\s*(.*)$/i);
+  if (m && /^S/.test(line)) {
+    return { level: 1, label: `SECTION ${m[1]}${m[2] ? `. ${headingLabel('', m[2])}` : ''}`, isTable: false };
+  }
+  // "TABLE 3-1 LOADS", or "Table 2. Test Conditions" (a title-case caption needs its punctuation)
+  m = line.match(/^(TABLE|FIGURE)\s+([0-9A-Z]+(?:[-.][0-9A-Z]+)*)\.?\s*(.*)$/) ||
+      line.match(/^(Table|Figure)\s+([0-9A-Z]+(?:[-.][0-9A-Z]+)*)(?:[.:]\s*|\s+[-–—]\s+|$)(.*)$/);
+  if (m) {
+    return { level: 9, label: headingLabel(`${m[1]} ${m[2]}.`, m[3]), isTable: true };
+  }
+  // "§ 25.1309 Equipment, systems, and installations."
+  m = line.match(/^(§\s*\d{1,3}\.\d+)\s+([A-Z].*)$/);
+  if (m) {
+    return { level: 2, label: headingLabel(m[1], m[2]), isTable: false };
+  }
+  // "3-12. REPAIRS." (chapter-paragraph numbering)
+  m = line.match(/^(\d{1,2}-\d{1,3})\.\s+(\S.*)$/);
+  if (m) {
+    return { level: 2, label: headingLabel(`${m[1]}.`, m[2]), isTable: false };
+  }
+  // "3.1 General" / "3.1.2. Loads" (decimal numbering; each extra number is one level deeper)
+  m = line.match(/^(\d{1,2}(?:\.\d{1,2}){1,3})\.?\s+([A-Z].*)$/);
+  if (m) {
+    return { level: 2 + m[1].split('.').length - 1, label: headingLabel(m[1], m[2]), isTable: false };
+  }
+  // "1. PURPOSE."
+  m = line.match(/^(\d{1,2})\.\s+([A-Z].*)$/);
+  if (m) {
+    return { level: 2, label: headingLabel(`${m[1]}.`, m[2]), isTable: false };
+  }
+  // "a. General."
+  m = line.match(/^([a-z])\.\s+([A-Z].*)$/);
+  if (m) {
+    return { level: 6, label: headingLabel(`${m[1]}.`, m[2]), isTable: false };
+  }
+  // "(1) Solid rivets." / "(a) ..."
+  m = line.match(/^\((\d{1,2}|[a-z])\)\s+(\S.*)$/);
+  if (m) {
+    return { level: /\d/.test(m[1]) ? 7 : 8, label: headingLabel(`(${m[1]})`, m[2]), isTable: false };
+  }
+  return null;
+}
+
+/**
+ * Find the headings of a document, in order
+ */
+function findHeadings(text: string): Heading[] {
+  const headings: Heading[] = [];
+  let lineStart = 0;
+  for (const line of text.split('\n')) {
+    const heading = detectHeading(line.trim());
+    if (heading) {
+      headings.push({ ...heading, start: lineStart + (line.length - line.trimStart().length) });
+    }
+    lineStart += line.length + 1;
+  }
+  return headings;
+}
+
+/**
+ * Heading path of each heading (the headings enclosing it, and itself)
+ */
+function headingPaths(headings: Heading[]): string[][] {
+  const stack: Heading[] = [];
+  return headings.map(heading => {
+    if (heading.isTable) {
+      return [...stack.map(h => h.label), heading.label];
+    }
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+    return stack.map(h => h.label);
+  });
+}
+
+/**
+ * Best place to end a chunk between min and max: a blank line, a line break,
+ * the end of a sentence, or whitespace (in that order)
+ */
+function findBreak(text: string, min: number, max: number, preferLines: boolean): number {
+  const paragraph = text.lastIndexOf('\n\n', max);
+  if (paragraph >= min) return paragraph + 2;
+
+  const line = text.lastIndexOf('\n', max);
+  if (preferLines && line >= min) return line + 1;
+
+  for (let pos = text.lastIndexOf('. ', max); pos >= min; pos = text.lastIndexOf('. ', pos - 1)) {
+    if (!ABBREVIATIONS.test(text.slice(Math.max(0, pos - 6), pos + 1))) return pos + 2;
+  }
+  if (line >= min) return line + 1;
+
+  const space = text.lastIndexOf(' ', max);
+  return space >= min ? space + 1 : max;
+}
+
+/**
+ * Move a break that falls inside a Markdown table to before the table (and
+ * its caption), or else to the start of a row, unless that leaves less than min
+ */
+function keepTableWhole(text: string, cut: number, min: number): number {
+  const lineStart = (pos: number) => text.lastIndexOf('\n', pos - 1) + 1;
+  const isRow = (start: number) => text.startsWith('|', start);
+
+  const row = lineStart(cut);
+  if (!isRow(row) || (row === cut && (row === 0 || !isRow(lineStart(row - 1))))) return cut;
+
+  let start = row;
+  while (start > 0 && isRow(lineStart(start - 1))) start = lineStart(start - 1);
+  if (start > 0 && detectHeading(text.slice(lineStart(start - 1), start - 1).trim())?.isTable) {
+    start = lineStart(start - 1);
+  }
+  return start >= min ? start : row >= min ? row : cut;
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return a.slice(0, i);
+}
+
+/**
+ * Chunk a document along its FAA structure (deterministic, any length)
+ *
+ * Paragraphs are packed into chunks of up to the target size. A chapter,
+ * section or appendix starts a new chunk, and paragraphs longer than
+ * the target are split at blank lines, line breaks or sentence ends. Chunks
+ * within a chapter repeat the last CHUNK_OVERLAP characters of the previous one.
+ * A range shorter than CHUNK_MIN_SIZE joins the previous chunk of its chapter,
+ * or else the next chunk (e.g. a cover page before CHAPTER 1).
+ */
+export function chunkDocumentStructured(text: string, documentTitle?: string): ChunkingResult {
+  const { targetSize, minChunkSize, overlap } = CHUNK_CONFIG;
+  const headings = findHeadings(text);
+  const paths = headingPaths(headings);
+
+  // Segments: text from one heading to the next (plus any text before the first)
+  const segments: Array<{ start: number; end: number; path: string[]; level: number; isTable: boolean }> = [];
+  if (headings.length === 0 || headings[0].start > 0) {
+    segments.push({ start: 0, end: headings[0]?.start ?? text.length, path: [], level: 0, isTable: false });
+  }
+  headings.forEach((heading, i) => {
+    segments.push({
+      start: heading.start,
+      end: headings[i + 1]?.start ?? text.length,
+      path: paths[i],
+      level: heading.level,
+      isTable: heading.isTable
+    });
+  });
+
+  // Pack segments into ranges; long segments are split
+  type Range = { start: number; end: number; path: string[]; continues: boolean; headingsOnly: boolean };
+  const ranges: Range[] = [];
+  const isShort = (range: Range) => range.end - range.start < minChunkSize;
+  // A short range within a chapter joins the previous chunk, if that stays within bounds
+  const joinPrevious = (range: Range): boolean => {
+    const previous = ranges[ranges.length - 1];
+    if (!previous || !range.continues || range.end - previous.start > targetSize * 1.5) return false;
+    previous.end = range.end;
+    previous.path = commonPrefix(previous.path, range.path);
+    return true;
+  };
+
+  let current: Range | null = null;
+  for (const segment of segments) {
+    const length = segment.end - segment.start;
+    const startsMajor = segment.level <= 1 && !segment.isTable;
+    const segmentText = text.slice(segment.start, segment.end).trim();
+    const headingOnly = segment.path.length > 0 && !segmentText.includes('\n') && segmentText.length <= HEADING_LABEL_LENGTH * 1.5;
+
+    // A chapter, section or appendix starts a new chunk unless the current one only holds headings
+    if (current && current.end - current.start + length <= targetSize && (!startsMajor || current.headingsOnly)) {
+      current.end = segment.end;
+      current.path = commonPrefix(current.path, segment.path);
+      current.headingsOnly = current.headingsOnly && headingOnly;
+      continue;
+    }
+    let pos = segment.start;
+    let path = segment.path;
+    let continues = !startsMajor;
+    if (current && isShort(current) && !joinPrevious(current)) {
+      // Too short to stand alone: it leads into this segment
+      pos = current.start;
+      path = commonPrefix(current.path, segment.path);
+      continues = current.continues;
+    } else if (current && !isShort(current)) {
+      ranges.push(current);
+    }
+
+    while (segment.end - pos > targetSize) {
+      const cut = keepTableWhole(text, findBreak(text, pos + minChunkSize, pos + targetSize, segment.isTable), pos + minChunkSize);
+      ranges.push({ start: pos, end: cut, path, continues, headingsOnly: false });
+      pos = cut;
+      path = segment.path;
+      continues = true;
+    }
+    current = { start: pos, end: segment.end, path, continues, headingsOnly: headingOnly && pos === segment.start };
+  }
+  if (current && (!isShort(current) || !joinPrevious(current))) {
+    ranges.push(current);
+  }
+
+  const chunks: DocumentChunk[] = [];
+  ranges.forEach((range, i) => {
+    let start = range.start;
+    if (i > 0 && range.continues && overlap > 0) {
+      // Start the overlap at a word boundary
+      start = Math.max(ranges[i - 1].start, range.start - overlap);
+      const space = text.slice(start, range.start).search(/\s/);
+      start = space >= 0 ? start + space + 1 : range.start;
+    }
+
+    const content = text.slice(start, range.end).trim();
+    if (!content) return;
+    chunks.push({
+      content,
+      index: chunks.length,
+      title: range.path.length > 0 ? range.path.join(' > ') : undefined,
+      headingPath: range.path,
+      startChar: start,
+      endChar: range.end,
+    });
+  });
+
+  console.log(`✂️ Structured chunking${documentTitle ? ` of "${documentTitle}"` : ''}: ${chunks.length} chunks, ${headings.length} headings`);
+
+  return {
+    chunks,
+    totalChunks: chunks.length,
+    method: 'structured',
+  };
+}
+
+/**
+ * Heading path lookup for a document: finds the headings once, then returns
+ * the heading path at any position (tables don't enclose the text after them)
+ */
+export function createHeadingPathLookup(text: string): (position: number) => string[] {
+  const headings = findHeadings(text);
+  const paths = headingPaths(headings);
+  const enclosing = headings.flatMap((heading, i) => heading.isTable ? [] : [{ start: heading.start, path: paths[i] }]);
+
+  return (position: number) => {
+    // Last heading starting at or before the position
+    let low = 0;
+    let high = enclosing.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (enclosing[mid].start <= position) low = mid + 1;
+      else high = mid;
+    }
+    return low > 0 ? enclosing[low - 1].path : [];
+  };
+}
+
+/**
+ * Page (1-based) containing a position, given the offsets where pages start
+ */
+export function pageAt(pageStarts: number[], position: number): number {
+  let low = 0;
+  let high = pageStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (pageStarts[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * Paragraph designator of a heading path, e.g. ["CHAPTER 8", "8. SAFETY", "c. Failures"] -> "8.c"
+ * Chapters, sections, appendices, tables and § headings are left out.
+ */
+export function paragraphDesignator(headingPath: string[] = []): string | undefined {
+  let designators: string[] = [];
+  for (const label of headingPath) {
+    const designator = label.match(/^(\d{1,2}(?:[-.]\d{1,3})*|[a-z]|\((?:\d{1,2}|[a-z])\))(?:\.|\s|$)/)?.[1];
+    if (!designator) continue;
+    // Decimal numbers ("3.3.2") already include their parents
+    designators = designator.includes('.') ? [designator] : [...designators, designator];
+  }
+  return designators.length > 0 ? designators.join('.') : undefined;
+}
+
+/**
+ * Chunk a document for indexing
+ *
+ * Uses the structured chunker, or Claude's boundaries when CHUNK_LLM_REFINEMENT
+ * is enabled and the document is short enough for Claude to read whole.
+ * With page offsets (from PDF extraction), each chunk records its page range.
+ */
+export async function chunkDocument(
+  text: string,
+  documentTitle: string,
+  pageStarts?: number[],
+  llm: LLMProvider = getLLMProvider(),
+): Promise<ChunkingResult> {
+  const result = CHUNK_CONFIG.llmRefinement && text.length <= CHUNK_CONFIG.analysisLimit
+    ? await chunkDocumentWithClaude(text, documentTitle, llm)
+    : chunkDocumentStructured(text, documentTitle);
+
+  if (pageStarts && pageStarts.length > 0) {
+    for (const chunk of result.chunks) {
+      chunk.pageStart = pageAt(pageStarts, chunk.startChar);
+      chunk.pageEnd = pageAt(pageStarts, Math.max(chunk.startChar, chunk.endChar - 1));
+    }
+  }
+  return result;
 }
 
 /**
@@ -45,6 +403,7 @@ export interface ChunkingResult {
 export async function chunkDocumentWithClaude(
   text: string,
   documentTitle: string,
+  llm: LLMProvider = getLLMProvider(),
 ): Promise<ChunkingResult> {
   // For very short documents, don't chunk
   if (text.length <= CHUNK_CONFIG.targetSize) {
@@ -60,19 +419,15 @@ export async function chunkDocumentWithClaude(
     };
   }
 
+  // Claude can't see the whole of longer documents, so their tail would go unchunked
+  if (text.length > CHUNK_CONFIG.analysisLimit) {
+    return chunkDocumentStructured(text, documentTitle);
+  }
+
   try {
-    const anthropic = createAnthropicClient();
-    
-    // For very long documents, we need to truncate for the analysis
-    // Claude will analyze structure and return boundary positions
-    const analysisLimit = 100000; // ~25K tokens for analysis
-    const textForAnalysis = text.length > analysisLimit 
-      ? text.substring(0, analysisLimit) + "\n\n[... document continues ...]"
-      : text;
-    
-    const response = await anthropic.messages.create({
-      model: CHUNK_CONFIG.model,
-      max_tokens: 4096,
+    const boundaries = await llm.completeJSON<Array<{ pos: number; title?: string }>>({
+      role: 'chunker',
+      maxTokens: 4096,
       system: `You are a document structure analyzer for FAA regulatory documents (ACs, ADs, TSOs, CFR sections).
 
 Your task: Identify logical section boundaries for chunking. Each chunk should be ~${CHUNK_CONFIG.targetSize} characters.
@@ -102,32 +457,19 @@ Document: "${documentTitle}"
 Length: ${text.length} characters
 
 ---
-${textForAnalysis}
+${text}
 ---
 
 Return JSON array of boundaries:`
       }],
     });
 
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
-
-    // Parse Claude's response
-    const jsonMatch = content.text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.warn('Could not parse chunk boundaries from Claude, using fallback');
-      return chunkDocumentFallback(text);
-    }
-
-    const boundaries: Array<{ pos: number; title?: string }> = JSON.parse(jsonMatch[0]);
-    
-    if (!boundaries.length) {
-      return chunkDocumentFallback(text);
+    if (!Array.isArray(boundaries) || !boundaries.length) {
+      return chunkDocumentStructured(text, documentTitle);
     }
 
     // Convert boundaries to chunks
+    const headingPathAt = createHeadingPathLookup(text);
     const chunks: DocumentChunk[] = [];
     for (let i = 0; i < boundaries.length && i < CHUNK_CONFIG.maxChunksPerDoc; i++) {
       const start = Math.max(0, Math.min(boundaries[i].pos, text.length - 1));
@@ -146,14 +488,15 @@ Return JSON array of boundaries:`
         content: chunkContent,
         index: chunks.length,
         title: boundaries[i].title,
+        headingPath: headingPathAt(start),
         startChar: start,
         endChar: end,
       });
     }
 
-    // If Claude's chunking failed, use fallback
+    // If Claude's chunking failed, use the structured chunker
     if (chunks.length === 0) {
-      return chunkDocumentFallback(text);
+      return chunkDocumentStructured(text, documentTitle);
     }
 
     console.log(`✂️ Claude chunked "${documentTitle}" into ${chunks.length} semantic chunks`);
@@ -165,14 +508,13 @@ Return JSON array of boundaries:`
     };
 
   } catch (error) {
-    console.error('Claude chunking failed, using fallback:', error);
-    return chunkDocumentFallback(text);
+    console.error('Claude chunking failed, using structured chunking:', error);
+    return chunkDocumentStructured(text, documentTitle);
   }
 }
 
 /**
- * Fallback chunking using fixed-length with overlap
- * Used when Claude chunking fails or is unavailable
+ * Fixed-length chunking with overlap (ignores document structure)
  */
 export function chunkDocumentFallback(text: string): ChunkingResult {
   const chunkSize = CHUNK_CONFIG.targetSize;
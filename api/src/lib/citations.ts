@@ -0,0 +1,148 @@
+/**
+ * Inline Citations
+ * Validates [n] markers in generated answers against the numbered context blocks
+ * and resolves them into structured citations (down to the CFR paragraph when named)
+ */
+
+import { Document, Citation } from './types';
+import { paragraphDesignator } from './chunker';
+
+/**
+ * Matches citation markers like "[3]" or "[2, 5]"
+ * Markdown links ("[1](url)") are not treated as citations
+ */
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Characters before a marker searched for the paragraph it cites
+ */
+const PARAGRAPH_WINDOW = 300;
+
+// Paragraph designators following a section or "paragraph", e.g. "(b)(2)(i)"
+const DESIGNATORS = String.raw`((?:\([a-zA-Z0-9]{1,4}\))+)`;
+
+/**
+ * Result of resolving citation markers in an answer
+ */
+export interface CitationResult {
+  answer: string;             // Answer with invalid markers removed
+  citations: Citation[];      // Cited blocks, ordered by block number
+  invalidMarkers: number[];   // Markers that did not map to a context block
+}
+
+/**
+ * Build a citation for a 1-based context block number
+ */
+function toCitation(index: number, doc: Document): Citation {
+  return {
+    index,
+    title: doc.title,
+    docType: doc.docType,
+    docNumber: doc.docNumber,
+    cfrPart: doc.cfrPart,
+    cfrSection: doc.cfrSection,
+    chunkIndex: doc.chunkIndex,
+    startChar: doc.startChar,
+    endChar: doc.endChar,
+    passages: doc.passages,
+    url: doc.url,
+    pageStart: doc.pageStart,
+    pageEnd: doc.pageEnd,
+    headingPath: doc.headingPath,
+    paragraph: paragraphDesignator(doc.headingPath)
+  };
+}
+
+/**
+ * Where a chunk sits in its document, e.g. "para 8.c, p. 27" or "pp. 27-28"
+ * Empty when the chunk has no heading path or pages
+ */
+export function formatLocation(doc: Pick<Document, 'headingPath' | 'pageStart' | 'pageEnd'>): string {
+  const parts: string[] = [];
+  const paragraph = paragraphDesignator(doc.headingPath);
+  if (paragraph) {
+    parts.push(`para ${paragraph}`);
+  }
+  if (doc.pageStart) {
+    parts.push(doc.pageEnd && doc.pageEnd !== doc.pageStart ? `pp. ${doc.pageStart}-${doc.pageEnd}` : `p. ${doc.pageStart}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * CFR paragraphs of an eCFR block named in the claim before a marker
+ * e.g. "...extremely improbable (§ 25.1309(b)(1)) [3]" → ["(b)(1)"]
+ * Paths are trimmed to the deepest paragraph that exists in the block.
+ */
+function paragraphsBeforeMarker(answer: string, offset: number, doc: Document): string[] {
+  if (doc.docType !== 'eCFR' || !doc.cfrParagraphs || doc.cfrParagraphs.length === 0) {
+    return [];
+  }
+
+  // The claim is the text since the previous sentence end or marker
+  const before = answer.slice(Math.max(0, offset - PARAGRAPH_WINDOW), offset).replace(/[.!?]?\s*$/, '');
+  const claim = before.split(/[.!?]\s+|\]/).pop() || '';
+
+  const sectionPattern = new RegExp(String.raw`§\s*${doc.cfrPart}\.${doc.cfrSection}${DESIGNATORS}`, 'g');
+  const paragraphPattern = new RegExp(String.raw`\bparagraphs?\s+${DESIGNATORS}`, 'gi');
+  const found: string[] = [];
+  for (const match of [...claim.matchAll(sectionPattern), ...claim.matchAll(paragraphPattern)]) {
+    let path = match[1];
+    while (path && !doc.cfrParagraphs.includes(path)) {
+      path = path.replace(/\([^()]*\)$/, '');
+    }
+    if (path && !found.includes(path)) {
+      found.push(path);
+    }
+  }
+  return found;
+}
+
+/**
+ * Validate [n] markers in an answer against the numbered context blocks
+ *
+ * @param answer - Generated answer text
+ * @param documents - Documents in the order they were numbered in the context
+ * @returns Cleaned answer plus the citations actually used
+ */
+export function resolveCitations(answer: string, documents: Document[]): CitationResult {
+  const cited = new Set<number>();
+  const invalid = new Set<number>();
+  const paragraphs = new Map<number, string[]>();
+
+  const cleaned = answer.replace(MARKER_PATTERN, (_match, group: string, offset: number) => {
+    const valid: number[] = [];
+    for (const part of group.split(',')) {
+      const n = parseInt(part.trim(), 10);
+      if (n >= 1 && n <= documents.length) {
+        valid.push(n);
+        cited.add(n);
+        const named = paragraphsBeforeMarker(answer, offset, documents[n - 1]);
+        if (named.length > 0) {
+          paragraphs.set(n, Array.from(new Set([...(paragraphs.get(n) || []), ...named])));
+        }
+      } else {
+        invalid.add(n);
+      }
+    }
+    return valid.map(n => `[${n}]`).join('');
+  });
+
+  if (invalid.size > 0) {
+    console.warn(`⚠️ Removed citation markers with no matching context block: ${Array.from(invalid).map(n => `[${n}]`).join(' ')}`);
+  }
+
+  const citations = Array.from(cited)
+    .sort((a, b) => a - b)
+    .map(n => {
+      const citation = toCitation(n, documents[n - 1]);
+      if (paragraphs.has(n)) citation.paragraphs = paragraphs.get(n);
+      return citation;
+    });
+
+  return {
+    answer: cleaned,
+    citations,
+    invalidMarkers: Array.from(invalid).sort((a, b) => a - b)
+  };
+}
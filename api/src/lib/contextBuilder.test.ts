@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { trimToRelevantPassages } from "./contextBuilder";
+
+/** A paragraph of about the given length about a topic */
+function paragraph(topic: string, length: number): string {
+  const sentence = `This paragraph discusses ${topic} in some detail. `;
+  return sentence.repeat(Math.ceil(length / sentence.length)).slice(0, length).trim();
+}
+
+describe('trimToRelevantPassages', () => {
+  it('keeps a document within its allowance whole', () => {
+    const text = paragraph('fasteners', 400);
+    assert.deepEqual(trimToRelevantPassages(text, 'fasteners', 1000), {
+      text,
+      passages: [{ startChar: 0, endChar: text.length }]
+    });
+  });
+
+  it('reports where each kept passage is in the original text', () => {
+    const text = [
+      paragraph('the purpose of this circular', 900),
+      paragraph('cabin lighting', 900),
+      paragraph('rivet inspection intervals', 900),
+      paragraph('paint finishes', 900),
+    ].join('\n\n');
+
+    const trimmed = trimToRelevantPassages(text, 'What are the rivet inspection intervals?', 500);
+
+    assert.equal(trimmed.passages.length, 2);
+    assert.deepEqual(trimmed.text.split('\n\n[...]\n\n'), trimmed.passages.map(p => text.slice(p.startChar, p.endChar)));
+    assert.ok(text.slice(trimmed.passages[1].startChar).startsWith('This paragraph discusses rivet inspection'));
+  });
+});
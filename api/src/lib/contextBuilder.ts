@@ -0,0 +1,267 @@
+/**
+ * Context Builder
+ * Fits conversation history, CFR text and guidance documents into a token budget
+ *
+ * The budget is split between history and documents, and the document share
+ * between CFR sections and guidance (ACs, Orders, ...). Unused budget in one
+ * category goes to the other. Documents larger than their allowance are
+ * trimmed to the passages most relevant to the question. Cross-referenced
+ * sections are allocated last.
+ */
+
+import { getConversationStore } from "./conversationStore";
+import { Document, StoredConversation, ContextReport, ContextBlockReport, TextSpan } from "./types";
+
+/**
+ * Context budget configuration
+ */
+const CONTEXT_CONFIG = {
+  tokenBudget: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '60000'),      // History + documents
+  historyShare: parseFloat(process.env.CONTEXT_HISTORY_SHARE || '0.15'),   // Max share for conversation history
+  cfrShare: parseFloat(process.env.CONTEXT_CFR_SHARE || '0.45'),           // Share of the document budget for CFR text
+  maxHistoryTurns: 10,
+  minDocumentTokens: 300,     // Documents that would get less than this are left out
+  passageChars: 1000,         // Target passage size when trimming documents
+};
+
+/**
+ * Context assembled for the answer prompt
+ */
+export interface BuiltContext {
+  history: string;            // Formatted conversation history ('' if none)
+  documents: Document[];      // Documents as included (possibly trimmed), in block order
+  report: ContextReport;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Tokenize text into lowercase terms for relevance scoring
+ * (keeps section and document numbers like "25.1309" and "23-8c" whole)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.-][a-z0-9]+)*/g) || [])
+    .filter(t => t.length >= 3 || /\d/.test(t));
+}
+
+/**
+ * Split budget fairly: items smaller than their share get their full size,
+ * the rest split what remains equally (water filling)
+ */
+function allocateBudget(sizes: number[], budget: number): number[] {
+  const allocations = new Array<number>(sizes.length).fill(0);
+  const order = sizes.map((size, i) => ({ size, i })).sort((a, b) => a.size - b.size);
+
+  let remaining = budget;
+  for (let k = 0; k < order.length; k++) {
+    const share = Math.floor(remaining / (order.length - k));
+    const allocation = Math.min(order[k].size, share);
+    allocations[order[k].i] = allocation;
+    remaining -= allocation;
+  }
+  return allocations;
+}
+
+/**
+ * Split a document into passages of roughly passageChars (paragraphs are kept whole)
+ */
+function splitPassages(text: string): Array<{ text: string; start: number }> {
+  const passages: Array<{ text: string; start: number }> = [];
+  const paragraphPattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+
+  let current: { text: string; start: number } | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(text)) !== null) {
+    if (!match[0].trim()) continue;
+    if (current && current.text.length + match[0].length <= CONTEXT_CONFIG.passageChars) {
+      current.text = text.slice(current.start, match.index + match[0].length);
+    } else {
+      if (current) passages.push(current);
+      current = { text: match[0], start: match.index };
+    }
+  }
+  if (current) passages.push(current);
+
+  // Hard-split passages that are still too long (e.g. PDF text without blank lines)
+  return passages.flatMap(p => {
+    if (p.text.length <= CONTEXT_CONFIG.passageChars * 2) return [p];
+    const pieces: Array<{ text: string; start: number }> = [];
+    for (let i = 0; i < p.text.length; i += CONTEXT_CONFIG.passageChars) {
+      pieces.push({ text: p.text.slice(i, i + CONTEXT_CONFIG.passageChars), start: p.start + i });
+    }
+    return pieces;
+  });
+}
+
+/**
+ * A document trimmed to fit its allowance
+ */
+export interface TrimmedText {
+  text: string;
+  passages: TextSpan[];       // Where each kept passage is in the original text, in order
+}
+
+/**
+ * Trim a document to its passages most relevant to the question
+ * Selected passages are kept in document order, separated by "[...]"
+ */
+export function trimToRelevantPassages(text: string, question: string, maxTokens: number): TrimmedText {
+  if (estimateTokens(text) <= maxTokens) {
+    return { text, passages: [{ startChar: 0, endChar: text.length }] };
+  }
+
+  const questionTerms = new Set(tokenize(question));
+  const passages = splitPassages(text).map((p, i) => {
+    const terms = tokenize(p.text);
+    const hits = terms.filter(t => questionTerms.has(t)).length;
+    // Term density, with a small bonus for the opening passage (usually title/purpose)
+    const score = hits / Math.sqrt(terms.length + 1) + (i === 0 ? 0.5 : 0);
+    return { ...p, score };
+  });
+
+  const ranked = [...passages].sort((a, b) => b.score - a.score || a.start - b.start);
+  const separatorTokens = estimateTokens('\n\n[...]\n\n');
+  const selected: typeof passages = [];
+  let used = 0;
+
+  for (const passage of ranked) {
+    const tokens = estimateTokens(passage.text) + separatorTokens;
+    if (used + tokens > maxTokens) continue;
+    selected.push(passage);
+    used += tokens;
+  }
+
+  if (selected.length === 0) {
+    const head = text.substring(0, maxTokens * 4);
+    return { text: head, passages: [{ startChar: 0, endChar: head.length }] };
+  }
+
+  // Offsets of the passages as trimmed
+  const kept = selected.sort((a, b) => a.start - b.start).map(p => {
+    const startChar = p.start + p.text.length - p.text.trimStart().length;
+    return { text: p.text.trim(), startChar, endChar: startChar + p.text.trim().length };
+  });
+  return {
+    text: kept.map(p => p.text).join('\n\n[...]\n\n'),
+    passages: kept.map(({ startChar, endChar }) => ({ startChar, endChar }))
+  };
+}
+
+/**
+ * A document with its chunk trimmed: the offsets of the kept passages move into the
+ * parent document, and the chunk offsets narrow to the span they cover
+ * (without chunk offsets, there's nothing to place the passages in)
+ */
+function withTrimmedChunk(doc: Document, trimmed: TrimmedText): Document {
+  if (doc.startChar === undefined) {
+    return { ...doc, chunk: trimmed.text };
+  }
+  const base = doc.startChar;
+  const passages = trimmed.passages.map(p => ({ startChar: base + p.startChar, endChar: base + p.endChar }));
+  return {
+    ...doc,
+    chunk: trimmed.text,
+    startChar: passages[0].startChar,
+    endChar: passages[passages.length - 1].endChar,
+    passages
+  };
+}
+
+/**
+ * Build the context for a question within the token budget
+ *
+ * @param question - User question (used to pick relevant passages)
+ * @param documents - Candidate documents, most relevant first
+ * @param conversation - Conversation so far (most recent turns are kept first)
+ */
+export function buildContext(
+  question: string,
+  documents: Document[],
+  conversation: StoredConversation | null | undefined
+): BuiltContext {
+  const budget = CONTEXT_CONFIG.tokenBudget;
+
+  // 1. Conversation history: most recent turns within the history share
+  const conversationStore = getConversationStore();
+  const historyChars = Math.floor(budget * CONTEXT_CONFIG.historyShare) * 4;
+  const turns = conversationStore.selectTurnsForContext(conversation, CONTEXT_CONFIG.maxHistoryTurns, historyChars);
+  const history = conversation ? conversationStore.formatForContext({ ...conversation, turns }, turns.length) : '';
+  const historyTokens = estimateTokens(history);
+
+  // 2. Split the document budget between CFR text and guidance, passing unused budget across
+  const documentBudget = budget - historyTokens;
+  const sizes = documents.map(d => estimateTokens(d.chunk));
+  const isCFR = documents.map(d => d.docType === 'eCFR');
+  const cfrNeed = sizes.reduce((sum, size, i) => sum + (isCFR[i] ? size : 0), 0);
+  const guidanceNeed = sizes.reduce((sum, size, i) => sum + (isCFR[i] ? 0 : size), 0);
+
+  let cfrBudget = Math.floor(documentBudget * CONTEXT_CONFIG.cfrShare);
+  let guidanceBudget = documentBudget - cfrBudget;
+  if (cfrNeed < cfrBudget) {
+    guidanceBudget += cfrBudget - cfrNeed;
+    cfrBudget = cfrNeed;
+  } else if (guidanceNeed < guidanceBudget) {
+    cfrBudget += guidanceBudget - guidanceNeed;
+    guidanceBudget = guidanceNeed;
+  }
+
+  // 3. Allocate within each category and trim documents to their allowance
+  // Cross-referenced sections only get what the documents citing them leave over
+  const allowances = new Array<number>(documents.length).fill(0);
+  for (const [categoryIsCFR, categoryBudget] of [[true, cfrBudget], [false, guidanceBudget]] as Array<[boolean, number]>) {
+    const indexes = documents.map((_, i) => i).filter(i => isCFR[i] === categoryIsCFR);
+    let remaining = categoryBudget;
+    for (const group of [indexes.filter(i => !documents[i].referencedBy), indexes.filter(i => documents[i].referencedBy)]) {
+      const allocated = allocateBudget(group.map(i => sizes[i]), remaining);
+      group.forEach((docIndex, k) => { allowances[docIndex] = allocated[k]; });
+      remaining -= allocated.reduce((sum, a) => sum + a, 0);
+    }
+  }
+
+  const included: Document[] = [];
+  const blocks: ContextBlockReport[] = [];
+  const omitted: string[] = [];
+
+  documents.forEach((doc, i) => {
+    const allowance = allowances[i];
+    if (allowance < sizes[i] && allowance < CONTEXT_CONFIG.minDocumentTokens) {
+      omitted.push(doc.title);
+      return;
+    }
+
+    const truncated = allowance < sizes[i];
+    const entry = truncated ? withTrimmedChunk(doc, trimToRelevantPassages(doc.chunk, question, allowance)) : doc;
+    included.push(entry);
+    blocks.push({
+      index: included.length,
+      title: doc.title,
+      category: isCFR[i] ? 'cfr' : 'guidance',
+      originalTokens: sizes[i],
+      includedTokens: estimateTokens(entry.chunk),
+      truncated
+    });
+  });
+
+  const documentTokens = blocks.reduce((sum, b) => sum + b.includedTokens, 0);
+  const truncatedCount = blocks.filter(b => b.truncated).length;
+  console.log(`🧮 Context: ~${historyTokens + documentTokens}/${budget} tokens (history ${historyTokens}, ${blocks.length} documents, ${truncatedCount} trimmed, ${omitted.length} omitted)`);
+
+  return {
+    history,
+    documents: included,
+    report: {
+      budgetTokens: budget,
+      usedTokens: historyTokens + documentTokens,
+      historyTokens,
+      historyTurns: turns.length,
+      historyTurnsOmitted: (conversation?.turns.length || 0) - turns.length,
+      blocks,
+      omitted
+    }
+  };
+}
@@ -1,11 +1,11 @@
 /**
  * Conversation Store
- * Blob Storage-based storage for multi-turn conversations
+ * Storage for multi-turn conversations (Blob, filesystem or memory - see storageAdapter.ts)
  * Uses 7-day TTL with lazy cleanup
  */
 
-import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
 import { v4 as uuidv4 } from "uuid";
+import { StorageAdapter, createStorageAdapter } from "./storageAdapter";
 
 /**
  * A single turn in a conversation
@@ -28,6 +28,7 @@ export interface StoredConversation {
   createdAt: number;
   updatedAt: number;
   turns: ConversationTurn[];
+  profileId?: string;       // Project profile selected for this session
 }
 
 /**
@@ -40,70 +41,24 @@ const CONVERSATION_CONFIG = {
 };
 
 /**
- * Helper to read stream to string
- */
-async function streamToString(stream: NodeJS.ReadableStream | undefined): Promise<string> {
-  if (!stream) return '';
-  const chunks: Buffer[] = [];
-  for await (const chunk of stream) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-  }
-  return Buffer.concat(chunks).toString('utf-8');
-}
-
-/**
- * Conversation Store using Azure Blob Storage
- * Falls back to in-memory storage for local development
+ * Conversation Store on the configured storage adapter
+ * Uses Azure Blob Storage when configured, otherwise in-memory storage for
+ * local development (STORAGE_BACKEND=filesystem keeps sessions across restarts)
  */
 export class ConversationStore {
-  private containerClient: ContainerClient | null = null;
-  private initPromise: Promise<void> | null = null;
+  private storage: StorageAdapter | null;
   private enabled: boolean = true;
-  private useMemoryFallback: boolean = false;
-  private memoryStore: Map<string, StoredConversation> = new Map();
   
-  constructor() {
-    const connectionString = process.env.BLOB_STORAGE_CONNECTION_STRING || process.env.AzureWebJobsStorage;
-    if (!connectionString || connectionString === 'UseDevelopmentStorage=true') {
-      console.warn('⚠️  ConversationStore: No Azure Storage configured, using in-memory fallback');
-      this.enabled = true;  // Keep enabled but use memory
-      this.useMemoryFallback = true;
+  constructor(storage?: StorageAdapter | null) {
+    this.storage = storage !== undefined ? storage : createStorageAdapter(CONVERSATION_CONFIG.containerName, 'memory');
+    if (!this.storage) {
+      console.warn('⚠️  ConversationStore: No storage configured, conversations disabled');
+      this.enabled = false;
+    } else {
+      console.log(`✅ ConversationStore initialized: ${CONVERSATION_CONFIG.containerName} (${this.storage.name})`);
     }
   }
   
-  /**
-   * Initialize the container (creates if not exists)
-   */
-  private async initialize(): Promise<void> {
-    if (!this.enabled) return;
-    
-    if (this.containerClient) return;
-    
-    if (this.initPromise) {
-      await this.initPromise;
-      return;
-    }
-    
-    this.initPromise = (async () => {
-      try {
-        const connectionString = process.env.BLOB_STORAGE_CONNECTION_STRING || process.env.AzureWebJobsStorage;
-        if (!connectionString) {
-          throw new Error('No storage connection string found');
-        }
-        const blobService = BlobServiceClient.fromConnectionString(connectionString);
-        this.containerClient = blobService.getContainerClient(CONVERSATION_CONFIG.containerName);
-        
-        await this.containerClient.createIfNotExists();
-        console.log(`✅ ConversationStore initialized: ${CONVERSATION_CONFIG.containerName}`);
-      } catch (error) {
-        console.error('❌ ConversationStore initialization failed:', error);
-        this.enabled = false;
-      }
-    })();
-    
-    await this.initPromise;
-  }
-  
   /**
    * Generate a new session ID
    */
@@ -118,30 +73,16 @@ export class ConversationStore {
   async get(sessionId: string): Promise<StoredConversation | null> {
     if (!this.enabled) return null;
     
-    // In-memory fallback for local development
-    if (this.useMemoryFallback) {
-      const conversation = this.memoryStore.get(sessionId);
-      if (conversation) {
-        console.log(`💬 Conversation loaded (memory): ${sessionId} (${conversation.turns.length} turns)`);
-      }
-      return conversation || null;
-    }
-    
     try {
-      await this.initialize();
-      if (!this.containerClient) return null;
-      
-      const blobClient = this.containerClient.getBlobClient(`${sessionId}.json`);
-      
-      const exists = await blobClient.exists();
-      if (!exists) {
+      const key = `${sessionId}.json`;
+      const properties = await this.storage!.getProperties(key);
+      if (!properties) {
         return null;
       }
       
-      const props = await blobClient.getProperties();
-      const updatedAt = props.metadata?.updatedat 
-        ? parseInt(props.metadata.updatedat) 
-        : (props.lastModified?.getTime() || Date.now());
+      const updatedAt = properties.metadata.updatedat 
+        ? parseInt(properties.metadata.updatedat) 
+        : properties.lastModified.getTime();
       
       // Check TTL
       const ageMs = Date.now() - updatedAt;
@@ -150,13 +91,13 @@ export class ConversationStore {
       if (ageMs > ttlMs) {
         console.log(`💬 Conversation expired: ${sessionId}`);
         // Lazy cleanup - delete expired conversation
-        await blobClient.deleteIfExists();
+        await this.storage!.delete(key);
         return null;
       }
       
-      const download = await blobClient.download();
-      const text = await streamToString(download.readableStreamBody);
-      const conversation = JSON.parse(text) as StoredConversation;
+      const object = await this.storage!.get(key);
+      if (!object) return null;
+      const conversation = JSON.parse(object.content) as StoredConversation;
       
       console.log(`💬 Conversation loaded: ${sessionId} (${conversation.turns.length} turns)`);
       
@@ -181,30 +122,11 @@ export class ConversationStore {
     
     conversation.updatedAt = Date.now();
     
-    // In-memory fallback for local development
-    if (this.useMemoryFallback) {
-      this.memoryStore.set(conversation.sessionId, conversation);
-      console.log(`💬 Conversation saved (memory): ${conversation.sessionId} (${conversation.turns.length} turns)`);
-      return;
-    }
-    
     try {
-      await this.initialize();
-      if (!this.containerClient) return;
-      
-      const blobClient = this.containerClient.getBlockBlobClient(`${conversation.sessionId}.json`);
-      const content = JSON.stringify(conversation);
-      const contentBuffer = Buffer.from(content, 'utf-8');
-      
-      await blobClient.uploadData(contentBuffer, {
-        metadata: {
-          createdat: conversation.createdAt.toString(),
-          updatedat: conversation.updatedAt.toString(),
-          turns: conversation.turns.length.toString()
-        },
-        blobHTTPHeaders: { 
-          blobContentType: 'application/json' 
-        }
+      await this.storage!.put(`${conversation.sessionId}.json`, JSON.stringify(conversation), {
+        createdat: conversation.createdAt.toString(),
+        updatedat: conversation.updatedAt.toString(),
+        turns: conversation.turns.length.toString()
       });
       
       console.log(`💬 Conversation saved: ${conversation.sessionId} (${conversation.turns.length} turns)`);
@@ -242,11 +164,7 @@ export class ConversationStore {
     if (!this.enabled) return;
     
     try {
-      await this.initialize();
-      if (!this.containerClient) return;
-      
-      const blobClient = this.containerClient.getBlobClient(`${sessionId}.json`);
-      await blobClient.deleteIfExists();
+      await this.storage!.delete(`${sessionId}.json`);
       
       console.log(`💬 Conversation deleted: ${sessionId}`);
       
@@ -255,6 +173,46 @@ export class ConversationStore {
     }
   }
   
+  /**
+   * Format a single turn for context (cap at 10k chars for very long answers)
+   */
+  private formatTurn(turn: ConversationTurn): string {
+    if (turn.role === 'user') {
+      return `**User:** ${turn.content}\n\n`;
+    }
+    const answer = turn.content.length > 10000
+      ? turn.content.substring(0, 10000) + '...'
+      : turn.content;
+    return `**Assistant:** ${answer}\n\n`;
+  }
+  
+  /**
+   * Select the most recent turns that fit in a character budget
+   * 
+   * @param conversation - The conversation
+   * @param maxTurns - Maximum number of turns to include
+   * @param maxChars - Character budget for the formatted turns
+   * @returns Turns in chronological order
+   */
+  selectTurnsForContext(
+    conversation: StoredConversation | null | undefined,
+    maxTurns: number = 10,
+    maxChars: number = Infinity
+  ): ConversationTurn[] {
+    if (!conversation) return [];
+    
+    const selected: ConversationTurn[] = [];
+    let used = '# Previous Conversation\n\n'.length;
+    
+    for (const turn of conversation.turns.slice(-maxTurns).reverse()) {
+      used += this.formatTurn(turn).length;
+      if (used > maxChars) break;
+      selected.unshift(turn);
+    }
+    
+    return selected;
+  }
+  
   /**
    * Format conversation history for Claude context
    * Always includes full content for optimal context understanding
@@ -275,15 +233,7 @@ export class ConversationStore {
     let context = '# Previous Conversation\n\n';
     
     for (const turn of recentTurns) {
-      if (turn.role === 'user') {
-        context += `**User:** ${turn.content}\n\n`;
-      } else {
-        // Include full responses (cap at 10k chars for very long answers)
-        const answer = turn.content.length > 10000
-          ? turn.content.substring(0, 10000) + '...'
-          : turn.content;
-        context += `**Assistant:** ${answer}\n\n`;
-      }
+      context += this.formatTurn(turn);
     }
     
     return context;
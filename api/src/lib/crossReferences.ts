@@ -0,0 +1,157 @@
+/**
+ * Cross References
+ * Follows CFR citations ("must meet § 25.1309(b)", "14 CFR 21.17") in retrieved text
+ *
+ * Sections cited by the context documents are fetched one hop deep by default
+ * and added as lower-priority context: they only get the token budget the
+ * documents citing them leave over. The citations are returned as a graph.
+ */
+
+import { ECFRSection } from "./ecfrClient";
+import { Document, CFRReferenceGraph, CFRReferenceNode, CFRReferenceEdge } from "./types";
+
+/**
+ * Cross-reference configuration
+ */
+const CROSS_REFERENCE_CONFIG = {
+  enabled: process.env.CROSS_REFERENCES_ENABLED !== 'false',                 // Enabled by default
+  maxDepth: parseInt(process.env.CROSS_REFERENCE_DEPTH || '1'),              // Hops followed from the retrieved documents
+  maxSections: parseInt(process.env.CROSS_REFERENCE_MAX_SECTIONS || '5'),    // Referenced sections fetched per question
+};
+
+/**
+ * A CFR section cited in text
+ */
+export interface CFRCitation {
+  section: string;            // e.g., "25.1309"
+  citation: string;           // As written, e.g., "§ 25.1309(b)"
+}
+
+// "§ 25.1309(b)", "§§ 25.1309 and 25.1310", "14 CFR 21.17", "49 CFR 175.10" (other titles are skipped)
+const SECTION_REF = String.raw`\d{1,3}\.\d+(?:\([a-zA-Z0-9]{1,4}\))*`;
+const CITATION_PATTERN = new RegExp(
+  String.raw`(?:\b(\d{1,2})\s+CFR\s+(?:§§?\s*)?|§§?\s*)(${SECTION_REF}(?:\s*(?:,\s*(?:and|or)?|and|or|through)\s*(?:§\s*)?${SECTION_REF})*)`,
+  'g'
+);
+const SECTION_IN_LIST = new RegExp(String.raw`(\d{1,3}\.\d+)(\([a-zA-Z0-9]{1,4}\))*`, 'g');
+
+/**
+ * Check if cross-reference expansion is enabled
+ */
+export function isCrossReferencingEnabled(): boolean {
+  return CROSS_REFERENCE_CONFIG.enabled && CROSS_REFERENCE_CONFIG.maxDepth > 0 && CROSS_REFERENCE_CONFIG.maxSections > 0;
+}
+
+/**
+ * Extract 14 CFR section citations from text, in order of first appearance
+ */
+export function extractCFRCitations(text: string): CFRCitation[] {
+  const citations: CFRCitation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    // "49 CFR 175.10" cites another title
+    if (match[1] && match[1] !== '14') continue;
+
+    for (const ref of match[2].matchAll(SECTION_IN_LIST)) {
+      if (seen.has(ref[1])) continue;
+      seen.add(ref[1]);
+      citations.push({ section: ref[1], citation: `§ ${ref[0]}` });
+    }
+  }
+  return citations;
+}
+
+/**
+ * Reference graph ID of a context document: "25.1309" for CFR sections,
+ * "AC 25.1309-1A" for DRS documents, else the title
+ */
+export function documentReferenceId(doc: Document): string {
+  if (doc.docType === 'eCFR' && doc.cfrPart && doc.cfrSection) {
+    return `${doc.cfrPart}.${doc.cfrSection}`;
+  }
+  if (doc.docType && doc.docNumber) {
+    return `${doc.docType} ${doc.docNumber}`;
+  }
+  return doc.title;
+}
+
+/**
+ * Format a reference graph ID for display ("§ 25.1309" or the document ID)
+ */
+export function formatReferenceId(id: string): string {
+  return /^\d{1,3}\.\d+$/.test(id) ? `§ ${id}` : id;
+}
+
+/**
+ * Follow the CFR citations in the context documents
+ *
+ * @param documents - Documents selected for the context (depth 0)
+ * @param fetchSections - Fetches sections by reference (e.g., "21.17"), honoring any point in time
+ * @returns Fetched sections with the IDs citing them, and the reference graph
+ */
+export async function expandCrossReferences(
+  documents: Document[],
+  fetchSections: (sections: string[]) => Promise<ECFRSection[]>
+): Promise<{ sections: Array<{ section: ECFRSection; referencedBy: string[] }>; graph: CFRReferenceGraph }> {
+  const nodes = new Map<string, CFRReferenceNode>();
+  const edges: CFRReferenceEdge[] = [];
+  const fetched: Array<{ section: ECFRSection; referencedBy: string[] }> = [];
+
+  for (const doc of documents) {
+    const id = documentReferenceId(doc);
+    if (!nodes.has(id)) {
+      nodes.set(id, { id, title: doc.title, depth: 0, included: true });
+    }
+  }
+
+  let frontier = documents.map(doc => ({ id: documentReferenceId(doc), text: doc.chunk }));
+  for (let depth = 1; depth <= CROSS_REFERENCE_CONFIG.maxDepth && frontier.length > 0; depth++) {
+    // Sections cited at this depth that aren't in the context yet -> IDs citing them
+    const citedBy = new Map<string, string[]>();
+    for (const source of frontier) {
+      for (const { section, citation } of extractCFRCitations(source.text)) {
+        if (section === source.id) continue;
+        if (!edges.some(e => e.from === source.id && e.to === section)) {
+          edges.push({ from: source.id, to: section, citation });
+        }
+        if (nodes.has(section)) continue;
+
+        const sources = citedBy.get(section) || [];
+        if (!sources.includes(source.id)) {
+          citedBy.set(section, [...sources, source.id]);
+        }
+      }
+    }
+
+    // Most-cited sections first, within the per-question cap
+    const remaining = CROSS_REFERENCE_CONFIG.maxSections - fetched.length;
+    const toFetch = Array.from(citedBy)
+      .sort((a, b) => b[1].length - a[1].length)
+      .slice(0, Math.max(remaining, 0))
+      .map(([section]) => section);
+    const sections = toFetch.length > 0 ? await fetchSections(toFetch) : [];
+
+    for (const [id, referencedBy] of citedBy) {
+      const section = sections.find(s => `${s.part}.${s.section}` === id);
+      nodes.set(id, { id, title: section?.sectionTitle, depth, included: !!section });
+      if (section) {
+        fetched.push({ section, referencedBy });
+      }
+    }
+
+    frontier = sections.map(s => ({ id: `${s.part}.${s.section}`, text: s.content }));
+  }
+
+  if (edges.length > 0) {
+    console.log(`🔗 Cross-references: ${edges.length} citations, fetched ${fetched.length} sections (${fetched.map(f => `§ ${f.section.part}.${f.section.section}`).join(', ') || 'none'})`);
+  }
+
+  return {
+    sections: fetched,
+    graph: {
+      nodes: Array.from(nodes.values()).filter(n => n.depth > 0 || edges.some(e => e.from === n.id || e.to === n.id)),
+      edges
+    }
+  };
+}
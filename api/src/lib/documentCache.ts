@@ -1,10 +1,11 @@
 /**
  * Document Cache
- * Blob Storage-based caching for eCFR sections, DRS documents, and classifier results
+ * Caching for eCFR sections, DRS documents, and classifier results
+ * Stored in Azure Blob Storage, the local filesystem or memory (see storageAdapter.ts)
  */
 
-import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
 import { createHash } from "crypto";
+import { StorageAdapter, StoredObjectProperties, createStorageAdapter } from "./storageAdapter";
 
 /**
  * Cached document wrapper
@@ -23,60 +24,40 @@ const CACHE_CONFIG = {
   defaultTTLHours: 24,
   cfrTTLHours: 168,        // 7 days for CFR sections (rarely change)
   drsTTLHours: 24,         // 24 hours for DRS documents
+  adTTLHours: 168,         // 7 days for extracted AD applicability
   classifierTTLHours: 1,   // 1 hour for classifier results
 };
 
 /**
- * Document Cache using Azure Blob Storage
+ * Document Cache on the configured storage adapter (Blob, filesystem or memory)
  * Uses BLOB_STORAGE_CONNECTION_STRING (AzureWebJobsStorage is reserved in Static Web Apps)
  */
 export class DocumentCache {
-  private containerClient: ContainerClient | null = null;
-  private initPromise: Promise<void> | null = null;
+  private storage: StorageAdapter | null;
   private enabled: boolean = true;
   
-  constructor() {
-    // Check if storage is configured
-    // Note: AzureWebJobsStorage is reserved in Azure Static Web Apps, so we use a custom name
-    const connectionString = process.env.BLOB_STORAGE_CONNECTION_STRING || process.env.AzureWebJobsStorage;
-    if (!connectionString || connectionString === 'UseDevelopmentStorage=true') {
-      console.warn('⚠️  DocumentCache: No Azure Storage configured, caching disabled');
+  constructor(storage?: StorageAdapter | null) {
+    this.storage = storage !== undefined ? storage : createStorageAdapter(CACHE_CONFIG.containerName, null);
+    if (!this.storage) {
+      console.warn('⚠️  DocumentCache: No storage configured, caching disabled');
       this.enabled = false;
+    } else {
+      console.log(`✅ DocumentCache initialized: ${CACHE_CONFIG.containerName} (${this.storage.name})`);
     }
   }
   
   /**
-   * Initialize the container (creates if not exists)
+   * Read TTL metadata and check whether an entry is still fresh
    */
-  private async initialize(): Promise<void> {
-    if (!this.enabled) return;
-    
-    if (this.containerClient) return;
+  private checkExpiry(properties: StoredObjectProperties): { cachedAt: Date; ttlHours: number; ageMs: number; expired: boolean } {
+    const cachedAtStr = properties.metadata.cachedat;
+    const cachedAt = cachedAtStr ? new Date(cachedAtStr) : properties.lastModified;
+    const ttlHours = parseInt(properties.metadata.ttlhours || String(CACHE_CONFIG.defaultTTLHours));
     
-    if (this.initPromise) {
-      await this.initPromise;
-      return;
-    }
-    
-    this.initPromise = (async () => {
-      try {
-        const connectionString = process.env.BLOB_STORAGE_CONNECTION_STRING || process.env.AzureWebJobsStorage;
-        if (!connectionString) {
-          throw new Error('No storage connection string found');
-        }
-        const blobService = BlobServiceClient.fromConnectionString(connectionString);
-        this.containerClient = blobService.getContainerClient(CACHE_CONFIG.containerName);
-        
-        // Create container if it doesn't exist
-        await this.containerClient.createIfNotExists();
-        console.log(`✅ DocumentCache initialized: ${CACHE_CONFIG.containerName}`);
-      } catch (error) {
-        console.error('❌ DocumentCache initialization failed:', error);
-        this.enabled = false;
-      }
-    })();
+    const ageMs = Date.now() - cachedAt.getTime();
+    const ttlMs = ttlHours * 3600000;
     
-    await this.initPromise;
+    return { cachedAt, ttlHours, ageMs, expired: ageMs > ttlMs };
   }
   
   /**
@@ -89,26 +70,10 @@ export class DocumentCache {
     if (!this.enabled) return false;
     
     try {
-      await this.initialize();
-      if (!this.containerClient) return false;
-      
-      const blobClient = this.containerClient.getBlobClient(key);
-      
-      const exists = await blobClient.exists();
-      if (!exists) return false;
-      
-      const props = await blobClient.getProperties();
-      
-      // Check TTL based on metadata
-      const cachedAtStr = props.metadata?.cachedat;
-      const cachedAt = cachedAtStr ? new Date(cachedAtStr) : props.lastModified || new Date();
-      const ttlHours = parseInt(props.metadata?.ttlhours || String(CACHE_CONFIG.defaultTTLHours));
+      const properties = await this.storage!.getProperties(key);
+      if (!properties) return false;
       
-      // Check if expired
-      const ageMs = Date.now() - cachedAt.getTime();
-      const ttlMs = ttlHours * 3600000;
-      
-      return ageMs <= ttlMs;
+      return !this.checkExpiry(properties).expired;
     } catch {
       return false;
     }
@@ -124,37 +89,22 @@ export class DocumentCache {
     if (!this.enabled) return null;
     
     try {
-      await this.initialize();
-      if (!this.containerClient) return null;
-      
-      const blobClient = this.containerClient.getBlobClient(key);
-      
-      // Check if blob exists and get properties
-      const exists = await blobClient.exists();
-      if (!exists) {
+      const properties = await this.storage!.getProperties(key);
+      if (!properties) {
         return null;
       }
       
-      const props = await blobClient.getProperties();
-      
       // Check TTL based on metadata
-      const cachedAtStr = props.metadata?.cachedat;
-      const cachedAt = cachedAtStr ? new Date(cachedAtStr) : props.lastModified || new Date();
-      const ttlHours = parseInt(props.metadata?.ttlhours || String(CACHE_CONFIG.defaultTTLHours));
-      
-      // Check if expired
-      const ageMs = Date.now() - cachedAt.getTime();
-      const ttlMs = ttlHours * 3600000;
-      
-      if (ageMs > ttlMs) {
+      const { cachedAt, ttlHours, ageMs, expired } = this.checkExpiry(properties);
+      if (expired) {
         console.log(`📦 Cache expired: ${key} (age: ${Math.round(ageMs / 3600000)}h, ttl: ${ttlHours}h)`);
         return null;
       }
       
       // Download and parse content
-      const download = await blobClient.download();
-      const text = await streamToString(download.readableStreamBody);
-      const data = JSON.parse(text) as T;
+      const object = await this.storage!.get(key);
+      if (!object) return null;
+      const data = JSON.parse(object.content) as T;
       
       console.log(`📦 Cache hit: ${key}`);
       
@@ -177,21 +127,9 @@ export class DocumentCache {
     if (!this.enabled) return;
     
     try {
-      await this.initialize();
-      if (!this.containerClient) return;
-      
-      const blobClient = this.containerClient.getBlockBlobClient(key);
-      const content = JSON.stringify(data);
-      const contentBuffer = Buffer.from(content, 'utf-8');
-      
-      await blobClient.uploadData(contentBuffer, {
-        metadata: {
-          cachedat: new Date().toISOString(),
-          ttlhours: ttlHours.toString()
-        },
-        blobHTTPHeaders: { 
-          blobContentType: 'application/json' 
-        }
+      await this.storage!.put(key, JSON.stringify(data), {
+        cachedat: new Date().toISOString(),
+        ttlhours: ttlHours.toString()
       });
       
       console.log(`📦 Cache set: ${key} (ttl: ${ttlHours}h)`);
@@ -211,11 +149,7 @@ export class DocumentCache {
     if (!this.enabled) return;
     
     try {
-      await this.initialize();
-      if (!this.containerClient) return;
-      
-      const blobClient = this.containerClient.getBlobClient(key);
-      await blobClient.deleteIfExists();
+      await this.storage!.delete(key);
       
       console.log(`📦 Cache deleted: ${key}`);
       
@@ -235,9 +169,19 @@ export class DocumentCache {
   
   /**
    * Generate cache key for CFR section
+   * Historical text is keyed by the point-in-time date: cfr/14/25/1309@2010-01-01.json
    */
-  static cfrKey(title: number, part: number, section: string): string {
-    return `cfr/${title}/${part}/${section}.json`;
+  static cfrKey(title: number, part: number, section: string, asOf?: string): string {
+    return asOf
+      ? `cfr/${title}/${part}/${section}@${asOf}.json`
+      : `cfr/${title}/${part}/${section}.json`;
+  }
+  
+  /**
+   * Generate cache key for a part's table of contents on an issue date
+   */
+  static cfrStructureKey(title: number, part: number, date: string): string {
+    return `cfr-structure/${title}/${part}@${date}.json`;
   }
   
   /**
@@ -251,6 +195,22 @@ export class DocumentCache {
     return `drs/${docType}/${safeName}.json`;
   }
   
+  /**
+   * Generate cache key for the revision chain of a document series: lineage/AC/23-8.json
+   */
+  static lineageKey(docType: string, series: string): string {
+    const safeName = series.replace(/[\s\/\\:*?"<>|]/g, '-');
+    return `lineage/${docType}/${safeName}.json`;
+  }
+  
+  /**
+   * Generate cache key for an AD's extracted applicability record
+   */
+  static adKey(adNumber: string): string {
+    const safeName = adNumber.replace(/[\s\/\\:*?"<>|]/g, '-');
+    return `ad/${safeName}.json`;
+  }
+  
   /**
    * Generate cache key for classifier result
    */
@@ -272,22 +232,13 @@ export class DocumentCache {
     return CACHE_CONFIG.drsTTLHours;
   }
   
-  static get CLASSIFIER_TTL_HOURS(): number {
-    return CACHE_CONFIG.classifierTTLHours;
+  static get AD_TTL_HOURS(): number {
+    return CACHE_CONFIG.adTTLHours;
   }
-}
-
-/**
- * Convert readable stream to string
- */
-async function streamToString(stream: NodeJS.ReadableStream | undefined): Promise<string> {
-  if (!stream) return '';
   
-  const chunks: Buffer[] = [];
-  for await (const chunk of stream) {
-    chunks.push(Buffer.from(chunk));
+  static get CLASSIFIER_TTL_HOURS(): number {
+    return CACHE_CONFIG.classifierTTLHours;
   }
-  return Buffer.concat(chunks).toString('utf-8');
 }
 
 /**
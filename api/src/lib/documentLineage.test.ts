@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compareRevisions, parseDocumentNumber, revisionStatus } from "./documentLineage";
+import { DocumentLineage, DocumentRevision } from "./types";
+
+/** A DRS revision of series 23-8 */
+function revision(docNumber: string, status: string): DocumentRevision {
+  const { revision, changeNumber } = parseDocumentNumber(docNumber);
+  return { docNumber, revision, changeNumber, status, title: `AC ${docNumber}` };
+}
+
+/** Lineage of AC 23-8 with the given revisions, current being the latest in effect */
+function lineage(...revisions: DocumentRevision[]): DocumentLineage {
+  const inEffect = revisions.filter(r => r.status === 'Current');
+  return { docType: 'AC', series: '23-8', revisions, current: inEffect[inEffect.length - 1] };
+}
+
+describe('parseDocumentNumber', () => {
+  it('splits off the revision letter and change of an Order', () => {
+    assert.deepEqual(parseDocumentNumber('8110.4C CHG 1'), { series: '8110.4', revision: 'C', changeNumber: 'CHG 1' });
+    assert.deepEqual(parseDocumentNumber('Order 8110.4C Change 01'), { series: '8110.4', revision: 'C', changeNumber: 'CHG 1' });
+  });
+
+  it('keeps the dash number of an AC in its series', () => {
+    assert.deepEqual(parseDocumentNumber('AC 25.1309-1B'), { series: '25.1309-1', revision: 'B', changeNumber: undefined });
+    assert.deepEqual(parseDocumentNumber('ac 23-8c'), { series: '23-8', revision: 'C', changeNumber: undefined });
+  });
+
+  it('reads a number without a letter as the original issue', () => {
+    assert.deepEqual(parseDocumentNumber('120-78'), { series: '120-78', revision: '', changeNumber: undefined });
+    assert.equal(parseDocumentNumber('120-78A').series, parseDocumentNumber('120-78').series);
+  });
+});
+
+describe('compareRevisions', () => {
+  it('orders the original issue, letters, two-letter revisions and changes oldest first', () => {
+    const numbers = ['23-8AA', '23-8B CHG 2', '23-8A', '23-8B', '23-8', '23-8B CHG 1', '23-8Z'];
+    const sorted = numbers.map(n => revision(n, 'Historical')).sort(compareRevisions).map(r => r.docNumber);
+    assert.deepEqual(sorted, ['23-8', '23-8A', '23-8B', '23-8B CHG 1', '23-8B CHG 2', '23-8Z', '23-8AA']);
+  });
+
+  it('treats the same revision and change as equal', () => {
+    assert.equal(compareRevisions(parseDocumentNumber('AC 23-8C CHG 1'), parseDocumentNumber('23-8C Change 1')), 0);
+  });
+});
+
+describe('revisionStatus', () => {
+  const chain = lineage(revision('23-8A', 'Cancelled'), revision('23-8B', 'Historical'), revision('23-8C', 'Current'));
+
+  it('flags revisions older than the one in effect as superseded', () => {
+    assert.equal(revisionStatus('23-8B', 'Historical', chain), 'superseded');
+    assert.equal(revisionStatus('23-8A', undefined, chain), 'superseded');
+  });
+
+  it('does not flag the revision in effect or a change to it', () => {
+    assert.equal(revisionStatus('23-8C', 'Current', chain), null);
+    assert.equal(revisionStatus('23-8C CHG 1', undefined, chain), null);
+  });
+
+  it('flags a change to an earlier revision as superseded', () => {
+    const changed = lineage(revision('23-8C', 'Historical'), revision('23-8C CHG 1', 'Current'));
+    assert.equal(revisionStatus('23-8C', undefined, changed), 'superseded');
+  });
+
+  it('flags documents of a cancelled series as cancelled', () => {
+    const cancelled = lineage(revision('23-8A', 'Cancelled'), revision('23-8B', 'Cancelled'));
+    assert.equal(revisionStatus('23-8B', undefined, cancelled), 'cancelled');
+    assert.equal(revisionStatus('23-8A', 'Cancelled', null), 'cancelled');
+  });
+
+  it('gives no warning without a lineage or status', () => {
+    assert.equal(revisionStatus('23-8B', undefined, null), null);
+    assert.equal(revisionStatus('23-8B', 'Current', null), null);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Document Lineage
+ * Revision chains of ACs and Orders (AC 23-8A → 23-8B → 23-8C → 23-8C CHG 1)
+ *
+ * A series is the document number without its revision letter and change
+ * ("23-8"). Its revisions are listed from DRS across statuses, so cited
+ * documents that were superseded or cancelled can be flagged in answers
+ * along with the version in effect.
+ */
+
+import { DRSClient, DRSDocument } from "./drsClient";
+import { DocumentCache, getDocumentCache } from "./documentCache";
+import { Citation, Document, DocumentLineage, DocumentRevision, RevisionWarning } from "./types";
+
+/**
+ * Lineage configuration
+ */
+const LINEAGE_CONFIG = {
+  enabled: process.env.REVISION_CHECK_ENABLED !== 'false',                                       // Enabled by default
+  docTypes: ['AC', 'Order'],                                                                      // Document types with revision chains
+  statuses: (process.env.DRS_LINEAGE_STATUSES || 'Current,Historical,Cancelled').split(',').map(s => s.trim()),
+  maxLookups: parseInt(process.env.REVISION_CHECK_MAX_DOCUMENTS || '5'),                          // Cited documents checked per answer
+  maxRevisions: 50,
+};
+
+/**
+ * Parts of a document number
+ */
+export interface ParsedDocumentNumber {
+  series: string;             // e.g., "23-8", "8110.4", "25.1309-1"
+  revision: string;           // e.g., "C", '' for the original issue
+  changeNumber?: string;      // e.g., "CHG 1"
+}
+
+/**
+ * Split a document number into series, revision letter and change
+ * "AC 23-8C CHG 1" → { series: "23-8", revision: "C", changeNumber: "CHG 1" }
+ * "Order 8110.4C" → { series: "8110.4", revision: "C" }
+ */
+export function parseDocumentNumber(docNumber: string): ParsedDocumentNumber {
+  let base = docNumber.trim().toUpperCase().replace(/^(?:AC|ORDER|TSO)\s*/, '').replace(/\s+/g, ' ');
+
+  let changeNumber: string | undefined;
+  const change = base.match(/\s*\b(?:CHG|CHANGE)\s*(\d+)$/);
+  if (change) {
+    changeNumber = `CHG ${parseInt(change[1], 10)}`;
+    base = base.slice(0, change.index).trim();
+  }
+  base = base.replace(/\s+ED\s+UPDATE\s*\d*$/, '').trim();
+
+  const revision = base.match(/^(.*\d)([A-Z]{1,2})$/);
+  return revision
+    ? { series: revision[1], revision: revision[2], changeNumber }
+    : { series: base, revision: '', changeNumber };
+}
+
+/**
+ * Revision metadata for a Document built from a DRS document number and status
+ */
+export function revisionMetadata(docNumber: string, status?: string): Pick<Document, 'revision' | 'changeNumber' | 'status'> {
+  const parsed = parseDocumentNumber(docNumber);
+  return {
+    revision: parsed.revision || undefined,
+    changeNumber: parsed.changeNumber,
+    status
+  };
+}
+
+/**
+ * Order revisions oldest first: '' < A < B < ... < Z < AA, then by change number
+ */
+export function compareRevisions(a: Pick<DocumentRevision, 'revision' | 'changeNumber'>, b: Pick<DocumentRevision, 'revision' | 'changeNumber'>): number {
+  const changeValue = (change?: string) => change ? parseInt(change.replace(/\D/g, ''), 10) || 0 : 0;
+  return (a.revision.length - b.revision.length) ||
+    a.revision.localeCompare(b.revision) ||
+    (changeValue(a.changeNumber) - changeValue(b.changeNumber));
+}
+
+/**
+ * Display label, e.g. "AC 23-8B" (DRS numbers sometimes include the type already)
+ */
+function documentLabel(docType: string, docNumber: string): string {
+  return docNumber.toUpperCase().startsWith(docType.toUpperCase()) ? docNumber : `${docType} ${docNumber}`;
+}
+
+function isCurrent(status?: string): boolean {
+  return (status || '').toLowerCase() === 'current';
+}
+
+function isCancelled(status?: string): boolean {
+  return (status || '').toLowerCase() === 'cancelled';
+}
+
+function toRevision(doc: DRSDocument): DocumentRevision {
+  const parsed = parseDocumentNumber(doc.documentNumber);
+  return {
+    docNumber: doc.documentNumber,
+    revision: parsed.revision,
+    changeNumber: parsed.changeNumber,
+    status: doc.status,
+    title: doc.title,
+    lastModified: doc.docLastModifiedDate,
+    url: doc.mainDocumentDownloadURL
+  };
+}
+
+/**
+ * Get the revision chain of the series a document belongs to (cached)
+ *
+ * @param docType - "AC" or "Order"
+ * @param docNumber - Any revision of the series, e.g. "23-8B"
+ * @returns The lineage, or null if DRS couldn't be searched
+ */
+export async function getDocumentLineage(
+  docType: string,
+  docNumber: string,
+  drsClient: DRSClient = new DRSClient(),
+  cache: DocumentCache = getDocumentCache()
+): Promise<DocumentLineage | null> {
+  const { series } = parseDocumentNumber(docNumber);
+  const cacheKey = DocumentCache.lineageKey(docType, series);
+  const cached = await cache.get<DocumentLineage>(cacheKey);
+  if (cached) return cached.data;
+
+  let docs: DRSDocument[];
+  try {
+    docs = await drsClient.searchDocumentsFiltered([series], docType, {
+      statusFilter: LINEAGE_CONFIG.statuses,
+      maxResults: LINEAGE_CONFIG.maxRevisions
+    });
+  } catch (error) {
+    console.warn(`⚠️ Could not look up revisions of ${docType} ${series}:`, error);
+    return null;
+  }
+
+  // Keyword search also finds documents that merely mention the series
+  const revisions = docs
+    .filter(doc => doc.documentNumber && parseDocumentNumber(doc.documentNumber).series === series)
+    .map(toRevision)
+    .filter((rev, i, all) => all.findIndex(r => r.docNumber === rev.docNumber) === i)
+    .sort(compareRevisions);
+
+  const inEffect = revisions.filter(r => isCurrent(r.status));
+  const lineage: DocumentLineage = {
+    docType,
+    series,
+    revisions,
+    current: inEffect.length > 0 ? inEffect[inEffect.length - 1] : undefined
+  };
+
+  await cache.set(cacheKey, lineage, DocumentCache.DRS_TTL_HOURS);
+  console.log(`📚 ${docType} ${series}: ${revisions.map(r => r.docNumber).join(' → ') || 'no revisions found'}`);
+  return lineage;
+}
+
+/**
+ * Status of a document within its lineage
+ * @returns 'superseded' if a later revision is in effect, 'cancelled' if the series
+ *          (or this document, with nothing newer) is cancelled, otherwise null
+ */
+export function revisionStatus(docNumber: string, status: string | undefined, lineage: DocumentLineage | null): RevisionWarning['status'] | null {
+  const parsed = parseDocumentNumber(docNumber);
+  const knownStatus = status || lineage?.revisions.find(r => compareRevisions(r, parsed) === 0)?.status;
+
+  if (lineage?.current && compareRevisions(lineage.current, parsed) > 0) {
+    return 'superseded';
+  }
+  if (!lineage?.current && (isCancelled(knownStatus) || (lineage && lineage.revisions.length > 0 && lineage.revisions.every(r => isCancelled(r.status))))) {
+    return 'cancelled';
+  }
+  return null;
+}
+
+/**
+ * Check whether a lineage check applies to a document type
+ */
+export function hasRevisionChain(docType?: string): boolean {
+  return !!docType && LINEAGE_CONFIG.docTypes.some(t => t.toLowerCase() === docType.toLowerCase());
+}
+
+/**
+ * Find cited ACs and Orders that were superseded or cancelled
+ *
+ * @param citations - Citations resolved from the answer
+ * @param documents - Context documents, numbered as cited
+ */
+export async function findRevisionWarnings(
+  citations: Citation[],
+  documents: Document[],
+  drsClient: DRSClient = new DRSClient()
+): Promise<RevisionWarning[]> {
+  if (!LINEAGE_CONFIG.enabled || citations.length === 0) return [];
+
+  // Cited documents by type and number -> the blocks citing them
+  const cited = new Map<string, { doc: Document; indexes: number[] }>();
+  for (const citation of citations) {
+    const doc = documents[citation.index - 1];
+    if (!doc?.docNumber || !hasRevisionChain(doc.docType)) continue;
+    const key = `${doc.docType} ${doc.docNumber}`;
+    const entry = cited.get(key) || { doc, indexes: [] };
+    entry.indexes.push(citation.index);
+    cited.set(key, entry);
+  }
+
+  const checks = Array.from(cited.values()).slice(0, LINEAGE_CONFIG.maxLookups);
+  const results = await Promise.all(checks.map(async ({ doc, indexes }) => {
+    const lineage = await getDocumentLineage(doc.docType!, doc.docNumber!, drsClient);
+    const status = revisionStatus(doc.docNumber!, doc.status, lineage);
+    if (!status) return null;
+    const warning: RevisionWarning = {
+      docType: doc.docType!,
+      docNumber: doc.docNumber!,
+      status,
+      citationIndexes: indexes,
+      current: lineage?.current
+    };
+    return warning;
+  }));
+
+  const warnings = results.filter((w): w is RevisionWarning => w !== null);
+  if (warnings.length > 0) {
+    console.warn(`⚠️ Cited documents no longer in effect: ${warnings.map(w => `${documentLabel(w.docType, w.docNumber)} (${w.status}${w.current ? `, current: ${w.current.docNumber}` : ''})`).join(', ')}`);
+  }
+  return warnings;
+}
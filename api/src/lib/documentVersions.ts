@@ -0,0 +1,118 @@
+/**
+ * Document Versions
+ * Which version of each DRS document is indexed, for incremental re-indexing
+ *
+ * Every chunk of a DRS document carries the DRS docLastModifiedDate it was
+ * indexed from and a hash of the document's extracted text. A document is
+ * re-indexed when DRS reports a different modified date; if its text hash
+ * is unchanged, only the metadata is patched and nothing is re-embedded,
+ * and otherwise only chunks whose text changed are re-embedded.
+ */
+
+import { createHash } from "crypto";
+import { DRSDocument } from "./drsClient";
+import { FADocument, getVectorStore, hasVectorSearch } from "./vectorSearch";
+import { normalizeIndexedDocumentNumber } from "./vectorStore";
+
+/**
+ * Version lookup configuration
+ */
+const VERSION_CONFIG = {
+  maxChunksPerDocument: 1000,  // Chunks (and tables) read for one document
+  maxDocuments: 100000,        // Documents read when listing all indexed versions (read in pages)
+};
+
+/**
+ * The indexed version of a parent document
+ */
+export interface IndexedVersion {
+  chunks: Map<string, Pick<FADocument, 'title' | 'content'>>;   // All its chunks (and table entries) by id
+  docLastModified?: string;   // DRS docLastModifiedDate it was indexed from (absent for older entries)
+  contentHash?: string;       // SHA-256 of its extracted text (absent for older entries)
+}
+
+/**
+ * Parent document id of a DRS document (chunk ids add "-chunk-N", table ids "-table-N")
+ */
+export function documentParentId(docType: string, docNumber: string): string {
+  return `drs-${docType.toLowerCase()}-${docNumber.replace(/[^a-zA-Z0-9]/g, '-')}`;
+}
+
+/**
+ * Hash of a document's extracted text
+ */
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Get the indexed version of a parent document
+ *
+ * @param parentId - Parent document id (see documentParentId)
+ * @returns Its chunks and version, or null if it isn't indexed
+ */
+export async function getIndexedVersion(parentId: string): Promise<IndexedVersion | null> {
+  const chunks = await getVectorStore().listDocuments(
+    `documentId eq '${parentId}' or id eq '${parentId}'`,
+    ['id', 'title', 'content', 'docLastModified', 'contentHash'],
+    VERSION_CONFIG.maxChunksPerDocument
+  );
+  if (chunks.length === 0) return null;
+
+  // Chunks of one indexing run agree; a missing value on any of them means an older entry
+  const agreed = (field: 'docLastModified' | 'contentHash') =>
+    chunks.every(c => c[field] === chunks[0][field]) ? chunks[0][field] : undefined;
+
+  return {
+    chunks: new Map(chunks.map(c => [c.id, { title: c.title, content: c.content }])),
+    docLastModified: agreed('docLastModified'),
+    contentHash: agreed('contentHash')
+  };
+}
+
+/**
+ * Get the DRS modified date each indexed document was indexed from
+ *
+ * @returns Normalized document number (e.g. "23-8C") -> docLastModifiedDate,
+ *          undefined for documents indexed before it was recorded
+ */
+export async function getIndexedVersions(): Promise<Map<string, string | undefined>> {
+  const versions = new Map<string, string | undefined>();
+  if (!hasVectorSearch()) return versions;
+
+  // One entry per document: its first chunk, or its only entry if it was indexed unchunked
+  // (later chunks and tables are indexed in the same run and carry the same version)
+  const chunks: FADocument[] = await getVectorStore().listDocuments(
+    `documentType ne 'eCFR' and (chunkIndex eq 0 or documentId eq null)`,
+    ['documentNumber', 'docLastModified'],
+    VERSION_CONFIG.maxDocuments
+  );
+  if (chunks.length >= VERSION_CONFIG.maxDocuments) {
+    console.warn(`⚠️ Listed the first ${VERSION_CONFIG.maxDocuments} indexed documents only, others count as unindexed`);
+  }
+  for (const chunk of chunks) {
+    if (!chunk.documentNumber) continue;
+    const number = normalizeIndexedDocumentNumber(chunk.documentNumber);
+    if (!versions.has(number)) {
+      versions.set(number, chunk.docLastModified);
+    } else if (versions.get(number) !== chunk.docLastModified) {
+      versions.set(number, undefined);   // Chunks disagree: version unknown
+    }
+  }
+  return versions;
+}
+
+/**
+ * Check whether DRS has a newer version of a document than the one indexed
+ *
+ * @param doc - DRS metadata
+ * @param versions - Indexed versions from getIndexedVersions
+ * @returns true if the document isn't indexed, or was indexed from a different or unknown
+ *          modified date (documents indexed before the date was recorded are checked once:
+ *          processQueueMessage records it and re-embeds only chunks whose text changed)
+ */
+export function needsIndexing(doc: DRSDocument, versions: Map<string, string | undefined>): boolean {
+  const number = normalizeIndexedDocumentNumber(doc.documentNumber);
+  if (!versions.has(number)) return true;
+  return !!doc.docLastModifiedDate && versions.get(number) !== doc.docLastModifiedDate;
+}
@@ -1,5 +1,6 @@
 import pdf from 'pdf-parse';
 import { DocumentCache, getDocumentCache } from './documentCache';
+import { PDFTable, PageLayout, TextItem, layoutPageText } from './pdfTables';
 
 /**
  * DRS Document metadata from API (raw response uses drs: prefix)
@@ -9,6 +10,7 @@ export interface DRSDocumentRaw {
   'drs:title': string;
   'drs:status': string;
   'drs:docID': string;
+  'drs:effectiveDate'?: string;
   documentGuid: string;
   docLastModifiedDate: string;
   mainDocumentDownloadURL?: string;
@@ -22,12 +24,49 @@ export interface DRSDocument {
   documentGuid: string;
   title: string;
   documentNumber: string;
-  docLastModifiedDate: string;
+  docLastModifiedDate?: string;   // Absent when DRS gives none (never stand in another date: it is compared as the version)
   status?: string;
+  effectiveDate?: string;
   mainDocumentDownloadURL?: string;
   mainDocumentFileName?: string;
 }
 
+/**
+ * Text extracted from a PDF, with the offset in the text where each page starts
+ */
+export interface PDFText {
+  text: string;
+  pageStarts: number[];       // pageStarts[0] is page 1
+  tables: PDFTable[];         // Tables found, rendered as Markdown in the text
+}
+
+/**
+ * Downloaded DRS document (as cached)
+ */
+export interface DRSDocumentText {
+  text: string;
+  doc: DRSDocument;
+  pageStarts?: number[];      // Absent for documents cached before pages were recorded
+  tables?: PDFTable[];        // Absent for documents cached before tables were extracted
+}
+
+/**
+ * PDF page passed to pdf-parse's pagerender (the fields of the pdf.js page used here)
+ */
+interface PDFPage {
+  pageIndex: number;          // 0-based
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: TextItem[] }>;
+}
+
+/**
+ * Render a PDF page's text like pdf-parse does (text items on the same baseline
+ * are joined, and a new baseline starts a new line), with tables as Markdown
+ */
+async function renderPageText(pageData: PDFPage): Promise<PageLayout> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  return layoutPageText(textContent.items);
+}
+
 /**
  * DRS API search result (raw response)
  */
@@ -53,6 +92,7 @@ function normalizeDRSDocument(raw: DRSDocumentRaw): DRSDocument {
     documentNumber: raw['drs:documentNumber'] || '',
     docLastModifiedDate: raw.docLastModifiedDate,
     status: raw['drs:status'],
+    effectiveDate: raw['drs:effectiveDate'],
     mainDocumentDownloadURL: raw.mainDocumentDownloadURL,
     mainDocumentFileName: raw.mainDocumentFileName
   };
@@ -249,6 +289,55 @@ export class DRSClient {
     }
   }
 
+  /**
+   * List every document of a type, page by page (all statuses)
+   *
+   * @param docType Document type (AC, TSO, Order, etc.)
+   * @param options Optional: only documents modified after this date (ISO), max results
+   * @returns Documents, most recently modified first
+   */
+  async listDocuments(
+    docType: string,
+    options: { modifiedAfter?: string; maxResults?: number } = {}
+  ): Promise<DRSDocument[]> {
+    const { modifiedAfter, maxResults = Infinity } = options;
+    const documents: DRSDocument[] = [];
+
+    try {
+      console.log(`📚 Listing DRS ${docType} documents${modifiedAfter ? ` modified after ${modifiedAfter}` : ''}`);
+
+      let offset = 0;
+      while (documents.length < maxResults) {
+        const params = new URLSearchParams({ offset: String(offset), docLastModifiedDateSortOrder: 'DESC' });
+        if (modifiedAfter) params.set('docLastModifiedDate', modifiedAfter);
+
+        const response = await fetch(`${this.baseURL}/data-pull/${docType}?${params}`, {
+          headers: { 'x-api-key': this.apiKey }
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error('DRS API error response:', errorText);
+          throw new Error(`DRS API error: ${response.status} ${response.statusText}`);
+        }
+
+        const data: DRSSearchResultRaw = await response.json();
+        if (!data?.documents || !Array.isArray(data.documents) || data.documents.length === 0) break;
+
+        documents.push(...data.documents.map(normalizeDRSDocument));
+        if (!data.summary?.hasMoreItems) break;
+        offset += data.documents.length;
+      }
+
+      console.log(`✅ DRS listed ${Math.min(documents.length, maxResults)} ${docType} documents`);
+      return documents.slice(0, maxResults);
+
+    } catch (error) {
+      console.error(`❌ DRS listing error (${docType}):`, error);
+      throw new Error(`DRS listing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get a specific document by its GUID
    * @param guid Document GUID
@@ -323,19 +412,49 @@ export class DRSClient {
    * @returns Extracted text content
    */
   async extractTextFromPDF(pdfBuffer: Buffer): Promise<string> {
+    return (await this.extractPagesFromPDF(pdfBuffer)).text;
+  }
+
+  /**
+   * Extract text from a PDF buffer page by page
+   * @param pdfBuffer PDF file as Buffer
+   * @returns Text of all pages (separated by blank lines) and where each page starts
+   */
+  async extractPagesFromPDF(pdfBuffer: Buffer): Promise<PDFText> {
     try {
       console.log('📄 Extracting text from PDF...');
 
-      const data = await pdf(pdfBuffer);
-      const text = data.text;
+      // Pages are rendered in order; a page that fails to render is left empty
+      const pageLayouts = new Map<number, PageLayout>();
+      const data = await pdf(pdfBuffer, {
+        pagerender: async (pageData: PDFPage) => {
+          const layout = await renderPageText(pageData);
+          pageLayouts.set(pageData.pageIndex + 1, layout);
+          return layout.text;
+        }
+      });
+
+      let text = '';
+      const pageStarts: number[] = [];
+      const tables: PDFTable[] = [];
+      for (let page = 1; page <= data.numpages; page++) {
+        if (page > 1) text += '\n\n';
+        pageStarts.push(text.length);
+        const layout = pageLayouts.get(page);
+        if (!layout) continue;
+        for (const table of layout.tables) {
+          tables.push({ ...table, page, start: text.length + table.start, end: text.length + table.end });
+        }
+        text += layout.text;
+      }
 
-      console.log(`✅ Extracted ${text.length} characters from ${data.numpages} pages`);
+      console.log(`✅ Extracted ${text.length} characters from ${data.numpages} pages${tables.length > 0 ? `, ${tables.length} tables` : ''}`);
 
       if (!text || text.trim().length === 0) {
         throw new Error('PDF appears to be empty or text extraction failed');
       }
 
-      return text;
+      return { text, pageStarts, tables };
 
     } catch (error) {
       console.error('❌ PDF extraction error:', error);
@@ -492,11 +611,11 @@ export class DRSClient {
   async fetchDocumentWithCache(
     docNumber: string,
     docType: string
-  ): Promise<{ text: string; doc: DRSDocument } | null> {
+  ): Promise<DRSDocumentText | null> {
     const cacheKey = DocumentCache.drsKey(docType, docNumber);
     
     // Try cache first
-    const cached = await this.cache.get<{ text: string; doc: DRSDocument }>(cacheKey);
+    const cached = await this.cache.get<DRSDocumentText>(cacheKey);
     if (cached) {
       console.log(`📦 DRS cache hit: ${docType}/${docNumber}`);
       return cached.data;
@@ -518,9 +637,9 @@ export class DRSClient {
     try {
       // Download and extract
       const pdfBuffer = await this.downloadDocument(doc.mainDocumentDownloadURL);
-      const text = await this.extractTextFromPDF(pdfBuffer);
+      const { text, pageStarts, tables } = await this.extractPagesFromPDF(pdfBuffer);
       
-      const result = { text, doc };
+      const result: DRSDocumentText = { text, doc, pageStarts, tables };
       
       // Cache the result
       await this.cache.set(cacheKey, result, DocumentCache.DRS_TTL_HOURS);
@@ -544,7 +663,7 @@ export class DRSClient {
   async fetchDocumentDirect(
     doc: DRSDocument,
     docType: string
-  ): Promise<{ text: string; doc: DRSDocument } | null> {
+  ): Promise<DRSDocumentText | null> {
     if (!doc.mainDocumentDownloadURL) {
       console.log(`❌ No download URL for: ${doc.documentNumber}`);
       return null;
@@ -552,9 +671,11 @@ export class DRSClient {
     
     const cacheKey = DocumentCache.drsKey(docType, doc.documentNumber);
     
-    // Try cache first
-    const cached = await this.cache.get<{ text: string; doc: DRSDocument }>(cacheKey);
-    if (cached) {
+    // Try cache first (a cached copy whose docLastModifiedDate changed in DRS is downloaded again)
+    const cached = await this.cache.get<DRSDocumentText>(cacheKey);
+    const modified = cached && doc.docLastModifiedDate && cached.data.doc.docLastModifiedDate &&
+      cached.data.doc.docLastModifiedDate !== doc.docLastModifiedDate;
+    if (cached && !modified) {
       console.log(`📦 DRS cache hit: ${docType}/${doc.documentNumber}`);
       return cached.data;
     }
@@ -562,9 +683,9 @@ export class DRSClient {
     try {
       // Download and extract directly - no need to search again
       const pdfBuffer = await this.downloadDocument(doc.mainDocumentDownloadURL);
-      const text = await this.extractTextFromPDF(pdfBuffer);
+      const { text, pageStarts, tables } = await this.extractPagesFromPDF(pdfBuffer);
       
-      const result = { text, doc };
+      const result: DRSDocumentText = { text, doc, pageStarts, tables };
       
       // Cache the result
       await this.cache.set(cacheKey, result, DocumentCache.DRS_TTL_HOURS);
@@ -585,7 +706,7 @@ export class DRSClient {
    */
   async fetchDocumentsWithCache(
     requests: Array<{ docNumber: string; docType: string }>
-  ): Promise<Array<{ text: string; doc: DRSDocument } | null>> {
+  ): Promise<Array<DRSDocumentText | null>> {
     return Promise.all(
       requests.map(req => this.fetchDocumentWithCache(req.docNumber, req.docType))
     );
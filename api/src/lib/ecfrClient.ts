@@ -5,6 +5,13 @@
  */
 
 import { DocumentCache, getDocumentCache } from './documentCache';
+import { parseSectionXML } from './ecfrXmlParser';
+import { CFRStructureNode, CFRParagraph, CFRTable } from './types';
+
+/**
+ * Earliest date the eCFR versioner serves point-in-time text for
+ */
+export const ECFR_HISTORY_START = '2017-01-03';
 
 /**
  * eCFR Section content
@@ -16,12 +23,33 @@ export interface ECFRSection {
   sectionTitle: string;
   content: string;
   effectiveDate: string;
+  asOf?: string;  // Requested point in time (YYYY-MM-DD); undefined for current text
   source: 'ecfr';
   url: string;  // Direct link to eCFR
+  // Parsed from the XML (absent for sections cached before parsing was added)
+  intro?: string[];
+  paragraphs?: CFRParagraph[];
+  tables?: CFRTable[];
+  notes?: string[];
+  sourceNote?: string;
+  authority?: string;
+}
+
+/**
+ * One version of a section from the eCFR versioner
+ */
+export interface ECFRVersion {
+  date: string;            // Date this version took effect
+  amendment_date: string;
+  issue_date: string;
+  identifier: string;      // e.g., "25.1309"
+  name: string;
+  substantive: boolean;
+  removed: boolean;
 }
 
 /**
- * eCFR Structure node (for discovering sections)
+ * eCFR Structure node (for discovering sections), as returned by the versioner
  */
 export interface ECFRStructureNode {
   type: string;
@@ -29,9 +57,15 @@ export interface ECFRStructureNode {
   label: string;
   label_level: string;
   label_description: string;
+  reserved?: boolean;
   children?: ECFRStructureNode[];
 }
 
+/**
+ * Node types kept in a normalized part structure
+ */
+const STRUCTURE_NODE_TYPES = new Set<string>(['part', 'subpart', 'subject_group', 'section', 'appendix']);
+
 /**
  * Client for the eCFR API
  * Fetches authoritative CFR text on-demand
@@ -39,6 +73,8 @@ export interface ECFRStructureNode {
 export class ECFRClient {
   private baseURL = 'https://www.ecfr.gov/api';
   private latestDateCache: Map<number, string> = new Map();
+  private versionsCache: Map<string, ECFRVersion[]> = new Map();
+  private amendmentDateCache: Map<string, string | null> = new Map();
   private cache: DocumentCache;
   
   constructor() {
@@ -48,7 +84,7 @@ export class ECFRClient {
   /**
    * Get the latest available date for a title from eCFR API
    */
-  private async getLatestDate(title: number): Promise<string> {
+  async getLatestDate(title: number): Promise<string> {
     // Check cache first
     const cached = this.latestDateCache.get(title);
     if (cached) {
@@ -75,30 +111,154 @@ export class ECFRClient {
     return fallbackDate;
   }
   
+  /**
+   * Get the version history of a section, or of every section in a subpart (oldest first)
+   *
+   * @param title - CFR title
+   * @param part - Part number
+   * @param scope - Section (e.g., "25.1309") or subpart (e.g., "F") to list versions for
+   */
+  async getVersions(title: number, part: number, scope: { section?: string; subpart?: string } = {}): Promise<ECFRVersion[]> {
+    let query = `part=${part}`;
+    if (scope.section) {
+      query += `&section=${scope.section}`;
+    } else if (scope.subpart) {
+      query += `&subpart=${scope.subpart}`;
+    }
+
+    const key = `${title}?${query}`;
+    const cached = this.versionsCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const response = await fetch(`${this.baseURL}/versioner/v1/versions/title-${title}.json?${query}`, {
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+      if (!response.ok) {
+        console.warn(`⚠️  Could not fetch eCFR versions for Part ${part} (${query}): ${response.status}`);
+        return [];
+      }
+
+      const data = await response.json();
+      const versions: ECFRVersion[] = (data.content_versions || [])
+        .filter((v: ECFRVersion) => !scope.section || v.identifier === scope.section)
+        .sort((a: ECFRVersion, b: ECFRVersion) => a.date.localeCompare(b.date));
+      this.versionsCache.set(key, versions);
+      return versions;
+
+    } catch (error) {
+      console.warn(`⚠️  eCFR versions error for Part ${part} (${query}):`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Resolve an amendment (e.g. "25-100") to the date it took effect
+   * Best effort: searches Title 14 for sections citing "Amdt. 25-100" and takes the
+   * earliest version containing the citation. If that is the first version eCFR has
+   * (on or before ECFR_HISTORY_START), the amendment took effect earlier, on a date
+   * eCFR can't tell, and has no point-in-time text
+   *
+   * @returns Effective date (YYYY-MM-DD), or null if the amendment wasn't found or predates eCFR history
+   */
+  async resolveAmendmentDate(title: number, amendment: string): Promise<string | null> {
+    const key = `${title}/${amendment}`;
+    if (this.amendmentDateCache.has(key)) {
+      return this.amendmentDateCache.get(key)!;
+    }
+
+    const part = parseInt(amendment, 10);
+    console.log(`🔍 Resolving eCFR Amendment ${amendment}`);
+
+    try {
+      const query = encodeURIComponent(`"Amdt. ${amendment}"`);
+      let url = `${this.baseURL}/search/v1/results?query=${query}&hierarchy[title]=${title}&per_page=20`;
+      if (!isNaN(part)) {
+        url += `&hierarchy[part]=${part}`;
+      }
+
+      const response = await fetch(url, {
+        headers: {
+          'Accept': 'application/json'
+        }
+      });
+      if (!response.ok) {
+        throw new Error(`eCFR search error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const dates: string[] = ((data.results || []) as Array<{ starts_on?: unknown }>)
+        .map(r => r.starts_on)
+        .filter((d): d is string => typeof d === 'string')
+        .sort();
+      const earliest = dates[0];
+      const date = earliest && earliest > ECFR_HISTORY_START ? earliest : null;
+
+      if (date) {
+        console.log(`✅ Amendment ${amendment} effective ${date}`);
+      } else if (earliest) {
+        console.warn(`⚠️  Amendment ${amendment} predates eCFR history (${ECFR_HISTORY_START}), no point-in-time text`);
+      } else {
+        console.warn(`⚠️  No eCFR sections cite Amendment ${amendment}`);
+      }
+      this.amendmentDateCache.set(key, date);
+      return date;
+
+    } catch (error) {
+      console.error(`❌ eCFR amendment lookup error for ${amendment}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Fetch a specific CFR section
    * 
    * @param title - CFR title (14 for aviation)
    * @param part - Part number (23, 25, 33, etc.)
    * @param section - Section number (e.g., "2150" for § 23.2150)
+   * @param asOf - Read the text in force on this date (YYYY-MM-DD) instead of the current text
    * @returns Section content or null if not found
    */
-  async fetchSection(title: number, part: number, section: string): Promise<ECFRSection | null> {
+  async fetchSection(title: number, part: number, section: string, asOf?: string): Promise<ECFRSection | null> {
     const fullSection = `${part}.${section}`;
-    const cacheKey = DocumentCache.cfrKey(title, part, section);
+    const label = asOf ? `§ ${fullSection} as of ${asOf}` : `§ ${fullSection}`;
+    const cacheKey = DocumentCache.cfrKey(title, part, section, asOf);
     
     // Check cache first
     const cached = await this.cache.get<ECFRSection>(cacheKey);
     if (cached) {
-      console.log(`📦 eCFR cache hit: § ${fullSection}`);
+      console.log(`📦 eCFR cache hit: ${label}`);
       return cached.data;
     }
     
-    console.log(`🌐 Fetching eCFR: Title ${title}, § ${fullSection}`);
+    console.log(`🌐 Fetching eCFR: Title ${title}, ${label}`);
     
     try {
       // Get the latest available date for this title
-      const date = await this.getLatestDate(title);
+      const latestDate = await this.getLatestDate(title);
+      let date = latestDate;
+      let effectiveDate = latestDate;
+
+      if (asOf) {
+        // Point-in-time text is only available between the start of eCFR history and the latest issue
+        date = asOf < ECFR_HISTORY_START ? ECFR_HISTORY_START : asOf > latestDate ? latestDate : asOf;
+        if (asOf < ECFR_HISTORY_START) {
+          console.warn(`⚠️  eCFR history starts ${ECFR_HISTORY_START}, reading § ${fullSection} at that date instead of ${asOf}`);
+        }
+
+        // Label the text with the date its version took effect
+        const versions = await this.getVersions(title, part, { section: fullSection });
+        const inEffect = versions.filter(v => v.date <= date).pop();
+        if (inEffect?.removed) {
+          console.log(`⚠️  § ${fullSection} was removed or reserved on ${date}`);
+          return null;
+        }
+        effectiveDate = inEffect?.date || date;
+      }
       
       // Fetch section content via XML endpoint with part and section params
       const url = `${this.baseURL}/versioner/v1/full/${date}/title-${title}.xml?part=${part}&section=${fullSection}`;
@@ -111,7 +271,7 @@ export class ECFRClient {
       
       if (!response.ok) {
         if (response.status === 404) {
-          console.log(`⚠️  eCFR section not found: § ${fullSection}`);
+          console.log(`⚠️  eCFR section not found: ${label}`);
           return null;
         }
         // Log more details for debugging
@@ -124,20 +284,26 @@ export class ECFRClient {
       
       // Check if it's an error response
       if (xmlText.includes('<error>') || xmlText.includes('"error"')) {
-        console.log(`⚠️  eCFR returned error for § ${fullSection}`);
+        console.log(`⚠️  eCFR returned error for ${label}`);
         return null;
       }
       
-      // Extract text content from XML
-      const content = this.extractTextFromXML(xmlText);
-      const sectionTitle = this.extractSectionTitleFromXML(xmlText);
+      // Parse the paragraph tree; fall back to stripping tags if the XML doesn't parse
+      let parsed: ReturnType<typeof parseSectionXML> | null = null;
+      try {
+        parsed = parseSectionXML(xmlText);
+      } catch (error) {
+        console.warn(`⚠️  Could not parse eCFR XML for ${label}, using plain text:`, error);
+      }
+      const content = parsed?.text || this.extractTextFromXML(xmlText);
+      const sectionTitle = parsed?.heading || this.extractSectionTitleFromXML(xmlText);
       
       if (!content) {
-        console.log(`⚠️  No content found for § ${fullSection}`);
+        console.log(`⚠️  No content found for ${label}`);
         return null;
       }
       
-      console.log(`✅ eCFR fetched: § ${fullSection} (${content.length} chars)`);
+      console.log(`✅ eCFR fetched: ${label} (${content.length} chars, effective ${effectiveDate})`);
       
       const result: ECFRSection = {
         title,
@@ -145,10 +311,23 @@ export class ECFRClient {
         section,
         sectionTitle: sectionTitle || `§ ${fullSection}`,
         content,
-        effectiveDate: date,
+        effectiveDate,
+        asOf,
         source: 'ecfr',
-        url: `https://www.ecfr.gov/current/title-${title}/part-${part}/section-${fullSection}`
+        url: asOf
+          ? `https://www.ecfr.gov/on/${date}/title-${title}/part-${part}/section-${fullSection}`
+          : `https://www.ecfr.gov/current/title-${title}/part-${part}/section-${fullSection}`
       };
+      if (parsed && parsed.paragraphs.length > 0) {
+        Object.assign(result, {
+          intro: parsed.intro,
+          paragraphs: parsed.paragraphs,
+          tables: parsed.tables,
+          notes: parsed.notes,
+          sourceNote: parsed.sourceNote,
+          authority: parsed.authority
+        });
+      }
       
       // Cache the result (7 days TTL for CFR sections)
       await this.cache.set(cacheKey, result, DocumentCache.CFR_TTL_HOURS);
@@ -156,13 +335,13 @@ export class ECFRClient {
       return result;
       
     } catch (error) {
-      console.error(`❌ eCFR fetch error for § ${fullSection}:`, error);
+      console.error(`❌ eCFR fetch error for ${label}:`, error);
       return null;
     }
   }
   
   /**
-   * Extract text content from eCFR XML response
+   * Extract text content from eCFR XML response (fallback when the XML can't be parsed)
    */
   private extractTextFromXML(xml: string): string {
     // Remove XML declaration and tags, keep text content
@@ -196,9 +375,10 @@ export class ECFRClient {
    * 
    * @param title - CFR title
    * @param sections - Array of section identifiers (e.g., ["23.2150", "23.2100"])
+   * @param asOf - Read the text in force on this date (YYYY-MM-DD)
    * @returns Array of section contents (nulls filtered out)
    */
-  async fetchSections(title: number, sections: string[]): Promise<ECFRSection[]> {
+  async fetchSections(title: number, sections: string[], asOf?: string): Promise<ECFRSection[]> {
     console.log(`🌐 Fetching ${sections.length} eCFR sections...`);
     
     const results = await Promise.all(
@@ -212,7 +392,7 @@ export class ECFRClient {
           return null;
         }
         
-        return this.fetchSection(title, part, section);
+        return this.fetchSection(title, part, section, asOf);
       })
     );
     
@@ -229,13 +409,24 @@ export class ECFRClient {
    * 
    * @param title - CFR title
    * @param part - Part number
-   * @returns Structure tree or null
+   * @param asOf - Structure as of this date (YYYY-MM-DD); latest if omitted
+   * @returns Normalized tree rooted at the part (part → subparts → sections), or null
    */
-  async getPartStructure(title: number, part: number): Promise<ECFRStructureNode | null> {
-    console.log(`📋 Fetching eCFR structure for Title ${title}, Part ${part}`);
+  async getPartStructure(title: number, part: number, asOf?: string): Promise<CFRStructureNode | null> {
+    const latestDate = await this.getLatestDate(title);
+    const date = !asOf ? latestDate : asOf < ECFR_HISTORY_START ? ECFR_HISTORY_START : asOf > latestDate ? latestDate : asOf;
+    const cacheKey = DocumentCache.cfrStructureKey(title, part, date);
+
+    // Check cache first
+    const cached = await this.cache.get<CFRStructureNode>(cacheKey);
+    if (cached) {
+      console.log(`📦 eCFR structure cache hit: Part ${part} on ${date}`);
+      return cached.data;
+    }
+
+    console.log(`📋 Fetching eCFR structure for Title ${title}, Part ${part} on ${date}`);
     
     try {
-      const date = await this.getLatestDate(title);
       const url = `${this.baseURL}/versioner/v1/structure/${date}/title-${title}.json?part=${part}`;
       
       const response = await fetch(url, {
@@ -249,33 +440,77 @@ export class ECFRClient {
         return null;
       }
       
-      return response.json();
+      // The versioner wraps the part in its title/chapter/subchapter ancestors
+      const root: ECFRStructureNode = await response.json();
+      const partNode = this.findStructureNode(root, 'part', String(part));
+      if (!partNode) {
+        console.warn(`⚠️  Part ${part} not found in eCFR structure`);
+        return null;
+      }
+
+      const structure = this.normalizeStructure(partNode);
+      await this.cache.set(cacheKey, structure, DocumentCache.CFR_TTL_HOURS);
+      return structure;
       
     } catch (error) {
       console.error(`❌ eCFR structure error:`, error);
       return null;
     }
   }
+
+  /**
+   * Find a node by type and identifier (depth-first)
+   */
+  private findStructureNode(node: ECFRStructureNode, type: string, identifier: string): ECFRStructureNode | null {
+    if (node.type === type && node.identifier === identifier) {
+      return node;
+    }
+    for (const child of node.children || []) {
+      const found = this.findStructureNode(child, type, identifier);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Normalize a versioner structure node
+   * Keeps parts, subparts, subject groups, sections and appendices
+   */
+  private normalizeStructure(node: ECFRStructureNode): CFRStructureNode {
+    const children = (node.children || [])
+      .filter(child => STRUCTURE_NODE_TYPES.has(child.type))
+      .map(child => this.normalizeStructure(child));
+
+    return {
+      type: node.type as CFRStructureNode['type'],
+      identifier: node.identifier,
+      label: (node.label_level || node.label || node.identifier).trim(),
+      description: (node.label_description || '').trim(),
+      reserved: node.reserved || undefined,
+      children: children.length > 0 ? children : undefined
+    };
+  }
   
   /**
    * Search eCFR for relevant sections
+   * Only current text is returned; each section appears once (its best-scoring hit)
    * 
    * @param query - Search query
    * @param title - Limit to specific title (optional)
    * @param part - Limit to specific part (optional)
-   * @returns Search results
+   * @returns Search results, best first
    */
   async searchSections(query: string, title?: number, part?: number): Promise<ECFRSearchResult[]> {
-    console.log(`🔍 Searching eCFR for: "${query}"`);
+    console.log(`🔍 Searching eCFR for: "${query}"${part ? ` in Part ${part}` : ''}`);
     
     try {
-      let url = `${this.baseURL}/search/v1/results?query=${encodeURIComponent(query)}&per_page=10`;
+      let url = `${this.baseURL}/search/v1/results?query=${encodeURIComponent(query)}&per_page=20`;
       
       if (title) {
-        url += `&title=${title}`;
+        url += `&hierarchy[title]=${title}`;
       }
       if (part) {
-        url += `&part=${part}`;
+        url += `&hierarchy[part]=${part}`;
       }
       
       const response = await fetch(url, {
@@ -290,17 +525,28 @@ export class ECFRClient {
       
       const data = await response.json();
       
-      // Map results to our format
-      const results: ECFRSearchResult[] = (data.results || []).map((r: any) => ({
-        title: r.title,
-        part: r.part,
-        section: r.section,
-        sectionTitle: r.section_title || r.headings?.section || '',
-        snippet: r.full_text_excerpt || r.snippet || '',
-        score: r.score || 0
-      }));
+      // Map results to our format: hierarchy.section is the full identifier (e.g., "25.1309")
+      const results: ECFRSearchResult[] = [];
+      for (const r of data.results || []) {
+        const sectionId: string | undefined = r.hierarchy?.section;
+        if (!sectionId || r.ends_on || r.removed) continue;  // Not a section, or superseded text
+
+        const [partStr, section] = sectionId.split('.');
+        const sectionPart = parseInt(partStr, 10);
+        if (!section || results.some(existing => existing.part === sectionPart && existing.section === section)) {
+          continue;
+        }
+        results.push({
+          title: parseInt(r.hierarchy?.title, 10) || title || 14,
+          part: sectionPart,
+          section,
+          sectionTitle: r.headings?.section || '',
+          snippet: (r.full_text_excerpt || '').replace(/<\/?strong>/g, ''),
+          score: r.score || 0
+        });
+      }
       
-      console.log(`✅ eCFR search found ${results.length} results`);
+      console.log(`✅ eCFR search found ${results.length} sections`);
       return results;
       
     } catch (error) {
@@ -386,7 +632,7 @@ export class ECFRClient {
 export interface ECFRSearchResult {
   title: number;
   part: number;
-  section: string;
+  section: string;          // e.g., "1309"
   sectionTitle: string;
   snippet: string;
   score: number;
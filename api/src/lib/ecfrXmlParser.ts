@@ -0,0 +1,391 @@
+/**
+ * eCFR XML Parser
+ * Parses eCFR section XML into a paragraph tree
+ *
+ * Paragraph designators are nested by their level in the CFR outline:
+ * (a) → (1) → (i) → (A) → italic (1) → italic (i). Tables, notes and the
+ * source/authority notes are kept apart from the paragraph text, and the
+ * flat text (as printed) is kept for embeddings and diffs.
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { extractCFRCitations } from "./crossReferences";
+import { CFRParagraph, CFRTable } from "./types";
+
+/**
+ * A parsed eCFR section
+ */
+export interface ParsedCFRSection {
+  heading: string | null;     // e.g. "§ 25.1309 Equipment, systems, and installations."
+  intro: string[];            // Undesignated text before the first paragraph
+  paragraphs: CFRParagraph[];
+  tables: CFRTable[];         // Tables outside any paragraph
+  notes: string[];            // Notes, editorial notes and extracts
+  sourceNote?: string;        // e.g. "[Amdt. 25-23, 35 FR 5679, Apr. 8, 1970, as amended by ...]"
+  authority?: string;
+  text: string;               // Flat text as printed (for embeddings)
+}
+
+// Italic runs are marked while flattening so italic designators and headings can be told apart
+const ITALIC_START = '\u0001';
+const ITALIC_END = '\u0002';
+
+// Outline levels: (a) → (1) → (i) → (A) → italic (1) → italic (i)
+const LEVEL_LETTER = 1;
+const LEVEL_NUMBER = 2;
+const LEVEL_ROMAN = 3;
+const LEVEL_UPPER = 4;
+const LEVEL_ITALIC_NUMBER = 5;
+const LEVEL_ITALIC_ROMAN = 6;
+
+type XMLNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  trimValues: false,
+  parseTagValue: false,
+  htmlEntities: true
+});
+
+/**
+ * Tag name of a preserveOrder node ('#text' for text)
+ */
+function tagOf(node: XMLNode): string {
+  return Object.keys(node).find(key => key !== ':@') || '';
+}
+
+/**
+ * Child nodes of a preserveOrder node under its tag ([] for text or malformed nodes)
+ */
+function childrenOf(node: XMLNode, tag: string = tagOf(node)): XMLNode[] {
+  const children = node[tag];
+  return Array.isArray(children) ? children : [];
+}
+
+/**
+ * Attribute of a preserveOrder node, if it has one
+ */
+function attributeOf(node: XMLNode, name: string): string | undefined {
+  const attributes = node[':@'];
+  if (typeof attributes !== 'object' || attributes === null) return undefined;
+  const value = (attributes as XMLNode)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Flatten inline content to text; italic runs are wrapped in markers when requested
+ */
+function inlineText(nodes: XMLNode[], markItalics: boolean): string {
+  let text = '';
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === '#text') {
+      text += String(node['#text']);
+    } else if (tag === 'FTREF' || tag === 'PRTPAGE') {
+      continue;
+    } else if (markItalics && (tag === 'I' || (tag === 'E' && ['03', '04'].includes(attributeOf(node, 'T') || '')))) {
+      text += ITALIC_START + inlineText(childrenOf(node, tag), markItalics) + ITALIC_END;
+    } else {
+      text += inlineText(childrenOf(node, tag), markItalics);
+    }
+  }
+  return text;
+}
+
+/**
+ * Plain text of a node with collapsed whitespace
+ */
+function plainText(nodes: XMLNode[]): string {
+  return inlineText(nodes, false).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the first node with one of the given tags (depth-first)
+ */
+function findNode(nodes: XMLNode[], tags: string[]): XMLNode | null {
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    const type = attributeOf(node, 'TYPE');
+    if (tags.includes(tag) && (tag !== 'DIV8' || !type || type === 'SECTION')) {
+      return node;
+    }
+    if (tag !== '#text') {
+      const found = findNode(childrenOf(node, tag), tags);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a GPOTABLE into headers and rows
+ */
+function parseTable(nodes: XMLNode[]): CFRTable {
+  const table: CFRTable = { headers: [], rows: [] };
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === 'TTITLE') {
+      table.title = plainText(childrenOf(node, tag)) || undefined;
+    } else if (tag === 'BOXHD') {
+      table.headers = childrenOf(node, tag).filter(n => tagOf(n) === 'CHED').map(n => plainText(childrenOf(n, 'CHED')));
+    } else if (tag === 'ROW') {
+      table.rows.push(childrenOf(node, tag).filter(n => tagOf(n) === 'ENT').map(n => plainText(childrenOf(n, 'ENT'))));
+    }
+  }
+  return table;
+}
+
+/**
+ * Render a table as text rows ("a | b | c")
+ */
+function tableText(table: CFRTable): string {
+  const lines = [table.title, table.headers.join(' | '), ...table.rows.map(row => row.join(' | '))];
+  return lines.filter(line => line && line.trim()).join('\n');
+}
+
+/**
+ * Value of a roman numeral (lowercase), or 0 if it isn't one
+ */
+function romanValue(token: string): number {
+  if (!/^[ivxl]+$/.test(token)) return 0;
+  const values: Record<string, number> = { i: 1, v: 5, x: 10, l: 50 };
+  let total = 0;
+  for (let i = 0; i < token.length; i++) {
+    const value = values[token[i]];
+    total += i + 1 < token.length && values[token[i + 1]] > value ? -value : value;
+  }
+  return total;
+}
+
+/**
+ * Ordinal of a letter designator: a=1 ... z=26, aa=27 ...
+ */
+function letterValue(token: string): number {
+  return (token.length - 1) * 26 + (token.toLowerCase().charCodeAt(0) - 96);
+}
+
+/**
+ * Possible outline levels of a designator token
+ */
+function candidateLevels(token: string, italic: boolean): Array<{ level: number; ordinal: number }> {
+  if (/^\d+$/.test(token)) {
+    return [{ level: italic ? LEVEL_ITALIC_NUMBER : LEVEL_NUMBER, ordinal: parseInt(token, 10) }];
+  }
+  if (italic && romanValue(token)) {
+    return [{ level: LEVEL_ITALIC_ROMAN, ordinal: romanValue(token) }];
+  }
+  if (/^[A-Z]+$/.test(token)) {
+    return [{ level: LEVEL_UPPER, ordinal: letterValue(token) }];
+  }
+  const candidates = [{ level: LEVEL_LETTER, ordinal: letterValue(token) }];
+  if (romanValue(token)) {
+    candidates.push({ level: LEVEL_ROMAN, ordinal: romanValue(token) });
+  }
+  return candidates;
+}
+
+interface Designator {
+  token: string;
+  italic: boolean;
+}
+
+interface OpenParagraph {
+  level: number;
+  ordinal: number;
+  paragraph: CFRParagraph;
+}
+
+/**
+ * Split the leading designators and italic heading off a paragraph
+ * e.g. "(b) *Heading.* (1) Text" → designators [b, 1], heading "Heading.", text "Text"
+ */
+function splitDesignators(marked: string): { designators: Designator[]; heading?: string; text: string } {
+  const designators: Designator[] = [];
+  const designatorPattern = new RegExp(`^\\((${ITALIC_START}?)([a-zA-Z]{1,4}|\\d{1,3})${ITALIC_END}?\\)\\s*`);
+  const headingPattern = new RegExp(`^${ITALIC_START}([^${ITALIC_END}]+)${ITALIC_END}\\s*(?:—\\s*)?`);
+
+  let rest = marked.trim();
+  let heading: string | undefined;
+  for (let pass = 0; pass < 2; pass++) {
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(designatorPattern))) {
+      designators.push({ token: match[2], italic: match[1] === ITALIC_START });
+      rest = rest.slice(match[0].length);
+    }
+    const headingMatch = designators.length > 0 && !heading ? rest.match(headingPattern) : null;
+    if (!headingMatch) break;
+    heading = headingMatch[1].trim();
+    rest = rest.slice(headingMatch[0].length);
+  }
+
+  return { designators, heading, text: rest };
+}
+
+/**
+ * Pick the outline level of a designator from the open paragraphs
+ * A designator either continues an open level (b after a) or opens the next level
+ * down (1 under b). Ambiguous letters/numerals ((i), (v), (x)) are settled by
+ * whether the next designator fits each reading.
+ */
+function chooseLevel(
+  designator: Designator,
+  stack: OpenParagraph[],
+  next: Designator | undefined
+): { level: number; ordinal: number } {
+  const candidates = candidateLevels(designator.token, designator.italic);
+  const topLevel = stack.length > 0 ? stack[stack.length - 1].level : 0;
+  const continues = (c: { level: number; ordinal: number }, open: OpenParagraph[]) =>
+    open.some(entry => entry.level === c.level && entry.ordinal === c.ordinal - 1);
+  const opensChild = (c: { level: number; ordinal: number }, parentLevel: number) =>
+    c.ordinal === 1 && c.level > parentLevel;
+
+  const valid = candidates.filter(c => continues(c, stack) || opensChild(c, topLevel));
+  if (valid.length === 0) return candidates[0];
+  if (valid.length === 1 || !next) {
+    // Without a following designator, prefer continuing an open level
+    return valid.find(c => continues(c, stack)) || valid[0];
+  }
+
+  const nextCandidates = candidateLevels(next.token, next.italic);
+  const fitsNext = valid.find(c => {
+    const after = [...stack.filter(entry => entry.level < c.level), { level: c.level, ordinal: c.ordinal } as OpenParagraph];
+    return nextCandidates.some(n => continues(n, after) || opensChild(n, c.level));
+  });
+  return fitsNext || valid.find(c => continues(c, stack)) || valid[0];
+}
+
+/**
+ * Parse eCFR section XML (versioner "full" endpoint) into a paragraph tree
+ * @throws If the XML cannot be parsed
+ */
+export function parseSectionXML(xml: string): ParsedCFRSection {
+  const document: XMLNode[] = parser.parse(xml);
+  const sectionNode = findNode(document, ['DIV8', 'SECTION']);
+  const nodes = sectionNode ? childrenOf(sectionNode) : document;
+
+  const result: ParsedCFRSection = { heading: null, intro: [], paragraphs: [], tables: [], notes: [], text: '' };
+  const blocks: string[] = [];
+  const stack: OpenParagraph[] = [];
+
+  // Paragraphs first, so each designator can look ahead to the next one
+  const items = nodes
+    .map(node => ({ node, tag: tagOf(node) }))
+    .filter(({ tag }) => tag !== '#text');
+  const split = items.map(({ node, tag }) =>
+    tag === 'P' || tag === 'FP' ? splitDesignators(inlineText(childrenOf(node, tag), true)) : null
+  );
+
+  items.forEach(({ node, tag }, i) => {
+    const children = childrenOf(node, tag);
+
+    if (tag === 'HEAD') {
+      result.heading = plainText(children);
+      blocks.push(result.heading);
+    } else if (tag === 'P' || tag === 'FP') {
+      const { designators, heading, text: markedText } = split[i]!;
+      const text = markedText.replace(new RegExp(`[${ITALIC_START}${ITALIC_END}]`, 'g'), '').replace(/\s+/g, ' ').trim();
+      blocks.push(plainText(children));
+
+      if (designators.length === 0) {
+        // Undesignated text continues the open paragraph (or the section intro)
+        const open = stack[stack.length - 1];
+        if (open) {
+          open.paragraph.text = [open.paragraph.text, text].filter(Boolean).join('\n\n');
+        } else if (text) {
+          result.intro.push(text);
+        }
+        return;
+      }
+
+      const nextDesignator = split.slice(i + 1).find(s => s && s.designators.length > 0)?.designators[0];
+      designators.forEach((designator, d) => {
+        const following = d + 1 < designators.length ? designators[d + 1] : nextDesignator;
+        const { level, ordinal } = chooseLevel(designator, stack, following);
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+          stack.pop();
+        }
+
+        const parent = stack[stack.length - 1]?.paragraph;
+        const label = `(${designator.token})`;
+        const paragraph: CFRParagraph = {
+          designator: label,
+          path: `${parent ? parent.path : ''}${label}`,
+          text: '',
+          children: []
+        };
+        (parent ? parent.children : result.paragraphs).push(paragraph);
+        stack.push({ level, ordinal, paragraph });
+
+        if (d === 0 && heading) paragraph.heading = heading;
+      });
+
+      const paragraph = stack[stack.length - 1].paragraph;
+      paragraph.text = text;
+      const citations = extractCFRCitations(text).map(c => c.citation);
+      if (citations.length > 0) paragraph.citations = citations;
+    } else if (tag === 'GPOTABLE') {
+      const table = parseTable(children);
+      blocks.push(tableText(table));
+      const open = stack[stack.length - 1];
+      if (open) {
+        open.paragraph.tables = [...(open.paragraph.tables || []), table];
+      } else {
+        result.tables.push(table);
+      }
+    } else if (tag === 'NOTE' || tag === 'EDNOTE' || tag === 'EXTRACT' || tag === 'EFFDNOT') {
+      // Heading and paragraphs of the note are separate elements
+      const note = children.map(child => plainText([child])).filter(Boolean).join(' ');
+      if (note) {
+        result.notes.push(note);
+        blocks.push(note);
+      }
+    } else if (tag === 'CITA' || tag === 'SOURCE') {
+      result.sourceNote = plainText(children) || result.sourceNote;
+      if (result.sourceNote) blocks.push(result.sourceNote);
+    } else if (tag === 'AUTH') {
+      result.authority = plainText(children) || undefined;
+    }
+  });
+
+  result.text = blocks.filter(block => block.trim()).join('\n\n');
+  return result;
+}
+
+/**
+ * Every paragraph path in a tree, in document order (e.g. "(a)", "(a)(1)", "(b)")
+ */
+export function paragraphPaths(paragraphs: CFRParagraph[]): string[] {
+  return paragraphs.flatMap(p => [p.path, ...paragraphPaths(p.children)]);
+}
+
+/**
+ * Render a section with each paragraph labeled by its full path
+ * e.g. "(b)(2) Text" so answers can cite § 25.1309(b)(2)
+ */
+export function formatParagraphs(section: {
+  heading?: string | null;
+  intro?: string[];
+  paragraphs: CFRParagraph[];
+  tables?: CFRTable[];
+  notes?: string[];
+  sourceNote?: string;
+}): string {
+  const lines: string[] = [];
+  if (section.heading) lines.push(section.heading);
+  lines.push(...(section.intro || []));
+  lines.push(...(section.tables || []).map(tableText));
+
+  const render = (paragraph: CFRParagraph) => {
+    const heading = paragraph.heading ? `${paragraph.heading} ` : '';
+    lines.push(`${paragraph.path} ${heading}${paragraph.text}`.trim());
+    lines.push(...(paragraph.tables || []).map(tableText));
+    paragraph.children.forEach(render);
+  };
+  section.paragraphs.forEach(render);
+
+  lines.push(...(section.notes || []));
+  if (section.sourceNote) lines.push(section.sourceNote);
+  return lines.join('\n\n');
+}
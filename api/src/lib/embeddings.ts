@@ -1,17 +1,48 @@
 /**
- * Embedding client using Azure AI Services with Cohere model
- * Uses the Azure AI Model Inference API for Cohere models
+ * Embedding client with pluggable providers
+ *
+ * Providers (EMBEDDING_PROVIDER):
+ * - azure: Cohere model on Azure AI Services via the Model Inference API (default)
+ * - hashing: offline feature-hashing projection - no network or credentials,
+ *   for air-gapped environments and tests
+ *
+ * Texts are embedded in batches of EMBEDDING_BATCH_SIZE; rate-limited (429)
+ * requests are retried with exponential backoff.
  */
 
+import { createHash } from 'crypto';
+
 const getConfig = () => ({
+  provider: process.env.EMBEDDING_PROVIDER || 'azure',
   endpoint: process.env.AZURE_AI_SERVICES_ENDPOINT || '',
   key: process.env.AZURE_AI_SERVICES_KEY || '',
-  deploymentName: 'cohere-embed'
+  deploymentName: 'cohere-embed',
+  batchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '16'),      // Cohere accepts up to 96 texts per call
+  maxRetries: parseInt(process.env.EMBEDDING_MAX_RETRIES || '4'),     // Retries on 429
+  retryBaseDelayMs: parseInt(process.env.EMBEDDING_RETRY_DELAY_MS || '1000'),
 });
 
 // Cohere embed-v3-english produces 1024-dimensional vectors
 export const EMBEDDING_DIMENSIONS = 1024;
 
+/**
+ * Cohere input type: documents and search queries are embedded differently
+ */
+export type EmbeddingInputType = 'document' | 'query';
+
+/**
+ * Embedding provider (embeds a single batch)
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+
+  /** Whether the provider is configured and usable */
+  isConfigured(): boolean;
+
+  /** Embed texts; returns one EMBEDDING_DIMENSIONS vector per text, in order */
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
 // Azure AI Model Inference API response format
 interface ModelInferenceEmbeddingResponse {
   data: Array<{
@@ -25,89 +56,173 @@ interface ModelInferenceEmbeddingResponse {
   };
 }
 
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 /**
- * Generate embeddings for one or more texts using Azure AI Model Inference API
+ * Cohere embeddings on Azure AI Services
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  const config = getConfig();
-  if (!config.endpoint || !config.key) {
-    throw new Error('Azure AI Services credentials not configured');
+export class AzureCohereEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'azure';
+
+  isConfigured(): boolean {
+    const config = getConfig();
+    return !!(config.endpoint && config.key);
   }
 
-  if (texts.length === 0) {
-    return [];
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const config = getConfig();
+    if (!config.endpoint || !config.key) {
+      throw new Error('Azure AI Services credentials not configured');
+    }
+
+    // Use Azure AI Model Inference API format for Cohere
+    const url = `${config.endpoint}/models/embeddings?api-version=2024-05-01-preview`;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${config.key}`,
+          'extra-parameters': 'pass-through',
+        },
+        body: JSON.stringify({
+          input: texts,
+          model: config.deploymentName,
+          // Cohere input_type: 'document' for documents, 'query' for search queries
+          input_type: inputType,
+        }),
+      });
+
+      if (response.status === 429 && attempt < config.maxRetries) {
+        // Honor Retry-After when present, otherwise back off exponentially
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+        const delayMs = !isNaN(retryAfter)
+          ? retryAfter * 1000
+          : config.retryBaseDelayMs * Math.pow(2, attempt);
+        console.warn(`⚠️ Embedding API rate limited, retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${config.maxRetries})`);
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Embedding API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json() as ModelInferenceEmbeddingResponse;
+
+      // Sort by index to ensure correct order
+      const sorted = data.data.sort((a, b) => a.index - b.index);
+      return sorted.map(item => item.embedding);
+    }
   }
+}
+
+/**
+ * Offline embeddings by feature hashing
+ * Words and word bigrams are hashed into EMBEDDING_DIMENSIONS signed buckets with
+ * sublinear term frequency weights and L2 normalization. Texts sharing
+ * vocabulary get similar vectors, which is enough for local retrieval and tests.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
 
-  // Use Azure AI Model Inference API format for Cohere
-  // Format: {endpoint}/models/{deployment}/embeddings?api-version=2024-05-01-preview
-  const url = `${config.endpoint}/models/embeddings?api-version=2024-05-01-preview`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.key}`,
-      'extra-parameters': 'pass-through',
-    },
-    body: JSON.stringify({
-      input: texts,
-      model: config.deploymentName,
-      // Cohere input_type: 'document' for documents, 'query' for search queries
-      input_type: 'document',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Embedding API error (${response.status}): ${errorText}`);
+  isConfigured(): boolean {
+    return true;
   }
 
-  const data = await response.json() as ModelInferenceEmbeddingResponse;
-  
-  // Sort by index to ensure correct order
-  const sorted = data.data.sort((a, b) => a.index - b.index);
-  return sorted.map(item => item.embedding);
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+(?:\.[a-z0-9]+)*/g) || [];
+
+    const termFreqs = new Map<string, number>();
+    words.forEach((word, i) => {
+      termFreqs.set(word, (termFreqs.get(word) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${words[i - 1]} ${word}`;
+        termFreqs.set(bigram, (termFreqs.get(bigram) || 0) + 1);
+      }
+    });
+
+    for (const [term, tf] of termFreqs) {
+      const hash = createHash('md5').update(term).digest();
+      const bucket = hash.readUInt32LE(0) % EMBEDDING_DIMENSIONS;
+      const sign = (hash[4] & 1) === 0 ? 1 : -1;
+      // Bigrams carry phrase information but count less than single words
+      const weight = (1 + Math.log(tf)) * (term.includes(' ') ? 0.5 : 1);
+      vector[bucket] += sign * weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  async embed(texts: string[], _inputType: EmbeddingInputType): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
 }
 
 /**
- * Generate embedding for a single text (query)
+ * Singleton instance for reuse
+ * Created on first use so scripts can load settings into process.env first
  */
-export async function generateQueryEmbedding(text: string): Promise<number[]> {
-  const config = getConfig();
-  if (!config.endpoint || !config.key) {
-    throw new Error('Azure AI Services credentials not configured');
+let embeddingProviderInstance: EmbeddingProvider | null = null;
+
+/**
+ * @throws If EMBEDDING_PROVIDER names an unknown provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProviderInstance) {
+    const { provider } = getConfig();
+    if (provider !== 'azure' && provider !== 'hashing') {
+      throw new Error(`Unknown EMBEDDING_PROVIDER '${provider}' (expected azure or hashing)`);
+    }
+    embeddingProviderInstance = provider === 'hashing'
+      ? new HashingEmbeddingProvider()
+      : new AzureCohereEmbeddingProvider();
+    console.log(`🧮 Embedding provider: ${embeddingProviderInstance.name}`);
+  }
+  return embeddingProviderInstance;
+}
+
+/**
+ * Generate embeddings for one or more texts, in batches
+ *
+ * @param texts - Texts to embed
+ * @param inputType - 'document' for indexed content, 'query' for search queries
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  inputType: EmbeddingInputType = 'document'
+): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
   }
 
-  const url = `${config.endpoint}/models/embeddings?api-version=2024-05-01-preview`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.key}`,
-      'extra-parameters': 'pass-through',
-    },
-    body: JSON.stringify({
-      input: [text],
-      model: config.deploymentName,
-      // Use 'query' for search query embeddings
-      input_type: 'query',
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Embedding API error (${response.status}): ${errorText}`);
+  const provider = getEmbeddingProvider();
+  const batchSize = Math.max(1, getConfig().batchSize);
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts.slice(i, i + batchSize);
+    embeddings.push(...await provider.embed(batch, inputType));
   }
 
-  const data = await response.json() as ModelInferenceEmbeddingResponse;
-  return data.data[0].embedding;
+  return embeddings;
+}
+
+/**
+ * Generate embedding for a single text (query)
+ */
+export async function generateQueryEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await getEmbeddingProvider().embed([text], 'query');
+  return embedding;
 }
 
 /**
  * Check if embedding service is available
  */
 export function hasEmbeddingService(): boolean {
-  const config = getConfig();
-  return !!(config.endpoint && config.key);
+  return getEmbeddingProvider().isConfigured();
 }
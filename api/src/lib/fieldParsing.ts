@@ -0,0 +1,27 @@
+/**
+ * Field Parsing
+ * Narrowing helpers for untyped JSON (request bodies and LLM responses)
+ */
+
+/**
+ * Check that a value is a JSON object (not null or an array)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A trimmed non-empty string, or undefined for anything else
+ */
+export function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * The trimmed non-empty strings of an array (other entries are dropped), or [] if it isn't one
+ */
+export function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim())
+    : [];
+}
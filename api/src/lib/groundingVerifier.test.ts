@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { splitIntoClaims, verifyGrounding } from "./groundingVerifier";
+import { LLMProvider } from "./llmProvider";
+import { Document } from "./types";
+
+// An entailment check that returns nothing, so the lexical verdicts stand
+const noEntailment = { completeJSON: async () => [] } as unknown as LLMProvider;
+
+describe('splitIntoClaims', () => {
+  it('does not split at section numbers, paragraph designators or abbreviations', () => {
+    const answer = [
+      'Failures must be extremely improbable under § 25.1309(b). Crew alerting is covered by § 25.1322 [1].',
+      'Some systems (e.g. flight controls) need a safety analysis [1]. Others do not need one at all.',
+      '- Systems must be fail-safe, i.e. no single failure may be catastrophic.',
+    ].join('\n');
+
+    const claims = splitIntoClaims(answer);
+
+    assert.deepEqual(claims.map(c => c.text), [
+      'Failures must be extremely improbable under § 25.1309(b).',
+      'Crew alerting is covered by § 25.1322 [1].',
+      'Some systems (e.g. flight controls) need a safety analysis [1].',
+      'Others do not need one at all.',
+      'Systems must be fail-safe, i.e. no single failure may be catastrophic.',
+    ]);
+    // Offsets locate each claim in the answer (list markers excluded)
+    assert.ok(claims.every(c => answer.slice(c.start, c.end) === c.text));
+  });
+
+  it('skips headings, table rows and short fragments', () => {
+    const claims = splitIntoClaims('## Stall speed requirements\n| Speed | 61 kt |\nNote:\nToo short.');
+    assert.deepEqual(claims, []);
+  });
+});
+
+describe('verifyGrounding (lexical)', () => {
+  const documents: Document[] = [{
+    title: 'AC 23-8C Flight Test Guide',
+    chunk: 'The stall speed at maximum takeoff weight must not exceed 61 knots in the landing configuration. ' +
+      'Flight tests are flown at the forward center of gravity.'
+  }];
+
+  it('grades claims by the share of their terms found in the sources', async () => {
+    const report = await verifyGrounding([
+      'The stall speed must not exceed 61 knots at maximum takeoff weight [1].',
+      'The stall speed at maximum takeoff weight is measured on amphibious floats and skis.',
+      'Pilots must log every sortie in the aircraft journey book.',
+    ].join(' '), documents, noEntailment);
+
+    assert.deepEqual(report.claims.map(c => c.verdict), ['supported', 'partially', 'unsupported']);
+    assert.equal(report.claims[0].sourceIndex, 1);
+    assert.equal(report.score, 0.5);
+  });
+
+  it('treats a claim citing a section missing from the sources as unsupported', async () => {
+    const report = await verifyGrounding('The stall speed must not exceed 61 knots per § 23.2110 [1].', documents, noEntailment);
+
+    assert.equal(report.claims[0].verdict, 'unsupported');
+    assert.match(report.claims[0].reason || '', /23\.2110 not found/);
+  });
+});
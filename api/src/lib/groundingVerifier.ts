@@ -0,0 +1,310 @@
+/**
+ * Grounding Verifier
+ * Checks each claim in a generated answer against the retrieved documents
+ * Combines lexical overlap with an LLM entailment check so that unsupported
+ * statements (especially invented regulation references) are flagged
+ */
+
+import { LLMProvider } from "./llmProvider";
+import { ABBREVIATIONS } from "./chunker";
+import { Document, ClaimVerification, GroundingReport, GroundingVerdict } from "./types";
+
+/**
+ * Grounding configuration
+ */
+const GROUNDING_CONFIG = {
+  enabled: process.env.GROUNDING_ENABLED !== 'false',        // Enabled by default
+  llmCheck: process.env.GROUNDING_LLM_CHECK !== 'false',     // Entailment check with Claude
+  maxClaims: parseInt(process.env.GROUNDING_MAX_CLAIMS || '25'),
+  minClaimLength: 25,        // Shorter fragments (headings, "Note:") are not checked
+  supportedThreshold: 0.6,   // Lexical score for "supported" when the LLM check is off
+  partialThreshold: 0.3,     // Lexical score for "partially"
+  evidenceChars: 1200,       // Evidence passed to the LLM per claim
+};
+
+/**
+ * Common words that carry no evidence
+ */
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'that', 'this', 'with', 'from', 'must', 'shall', 'may', 'any',
+  'not', 'all', 'each', 'which', 'when', 'where', 'such', 'these', 'those', 'have', 'has',
+  'been', 'being', 'was', 'were', 'will', 'would', 'should', 'can', 'could', 'also', 'into',
+  'than', 'then', 'there', 'their', 'them', 'they', 'its', 'per', 'under', 'other', 'more',
+  'most', 'only', 'both', 'between', 'about', 'including', 'include', 'includes', 'within'
+]);
+
+/**
+ * A claim extracted from the answer, with its position
+ */
+interface Claim {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Check if grounding verification is enabled
+ */
+export function isGroundingEnabled(): boolean {
+  return GROUNDING_CONFIG.enabled;
+}
+
+/**
+ * Split an answer into checkable claims (roughly one per sentence)
+ * Headings, table rows and short fragments are skipped; list markers are
+ * excluded from the claim span so offsets can be used to highlight the text
+ */
+export function splitIntoClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+  let lineStart = 0;
+
+  for (const line of answer.split('\n')) {
+    const trimmed = line.trim();
+    const isSkipped = trimmed.startsWith('#') || trimmed.startsWith('|') || /^[-*_]{3,}$/.test(trimmed);
+
+    if (!isSkipped) {
+      // Skip list/quote markers at the start of the line
+      const marker = line.match(/^\s*(?:[-*+>]|\d+[.)])?\s*/);
+      const bodyOffset = marker ? marker[0].length : 0;
+      const body = line.slice(bodyOffset);
+
+      // Sentence ends at . ! ? followed by whitespace or end of line ("§ 25.1309" is not split),
+      // except after an abbreviation ("e.g.", "No.")
+      const sentences: Array<{ raw: string; index: number }> = [];
+      let sentenceStart = 0;
+      for (const end of body.matchAll(/[.!?]+(?=\s|$)/g)) {
+        const stop = end.index! + end[0].length;
+        if (stop < body.length && ABBREVIATIONS.test(body.slice(sentenceStart, stop))) continue;
+        sentences.push({ raw: body.slice(sentenceStart, stop), index: sentenceStart });
+        sentenceStart = stop;
+      }
+      if (sentenceStart < body.length) {
+        sentences.push({ raw: body.slice(sentenceStart), index: sentenceStart });
+      }
+
+      for (const { raw, index } of sentences) {
+        const leading = raw.length - raw.trimStart().length;
+        const text = raw.trim();
+        if (text.length >= GROUNDING_CONFIG.minClaimLength && /[a-z]/i.test(text) && !text.endsWith(':')) {
+          const start = lineStart + bodyOffset + index + leading;
+          claims.push({ text, start, end: start + text.length });
+        }
+      }
+    }
+
+    lineStart += line.length + 1;
+  }
+
+  return claims;
+}
+
+/**
+ * Tokenize text into evidence-bearing terms (keeps section numbers like "25.1309")
+ */
+function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9]+(?:\.[a-z0-9]+)*/g) || [];
+  return tokens.filter(t => !STOPWORDS.has(t) && (t.length >= 3 || /\d/.test(t)));
+}
+
+/**
+ * Extract regulation/document references a claim relies on
+ * e.g. "§ 25.1309" → "25.1309", "AC 25.1309-1B" → "25.1309-1B"
+ */
+function extractReferences(text: string): string[] {
+  const refs: string[] = [];
+  for (const match of text.matchAll(/§+\s*(\d+\.\d+)/g)) {
+    refs.push(match[1]);
+  }
+  for (const match of text.matchAll(/\b(?:AC|TSO|AD|Order)\s*[-\s]?([A-Z]?\d[\w.\-\/]*\w)/g)) {
+    refs.push(match[1]);
+  }
+  return refs;
+}
+
+/**
+ * Find the best evidence passage in a document for a set of claim terms
+ */
+function bestPassage(doc: Document, claimTerms: Set<string>): string {
+  const paragraphs = doc.chunk.split(/\n\s*\n/);
+  const scored = paragraphs
+    .map(p => ({ p, score: tokenize(p).filter(t => claimTerms.has(t)).length }))
+    .sort((a, b) => b.score - a.score);
+
+  let passage = '';
+  for (const { p } of scored) {
+    if (passage.length >= GROUNDING_CONFIG.evidenceChars) break;
+    passage += (passage ? '\n...\n' : '') + p.trim();
+  }
+  return passage.substring(0, GROUNDING_CONFIG.evidenceChars);
+}
+
+/**
+ * Score a claim against the documents by lexical overlap
+ * Blocks cited in the claim ([n]) are checked first; the best-scoring block wins
+ */
+function scoreClaim(
+  claim: Claim,
+  documents: Document[],
+  documentTerms: Set<string>[]
+): { score: number; sourceIndex?: number } {
+  const claimTerms = new Set(tokenize(claim.text.replace(/\[\d+\]/g, '')));
+  if (claimTerms.size === 0) return { score: 0 };
+
+  const cited = Array.from(claim.text.matchAll(/\[(\d+)\]/g))
+    .map(m => parseInt(m[1], 10))
+    .filter(n => n >= 1 && n <= documents.length);
+
+  let best = { score: 0, sourceIndex: undefined as number | undefined };
+  const candidates = cited.length > 0 ? cited : documents.map((_, i) => i + 1);
+
+  for (const n of candidates) {
+    const terms = documentTerms[n - 1];
+    let hits = 0;
+    for (const t of claimTerms) {
+      if (terms.has(t)) hits++;
+    }
+    const score = hits / claimTerms.size;
+    if (score > best.score) {
+      best = { score, sourceIndex: n };
+    }
+  }
+
+  // If the cited block is a poor match, fall back to the best block overall
+  if (cited.length > 0 && best.score < GROUNDING_CONFIG.partialThreshold) {
+    const uncited = scoreClaim({ ...claim, text: claim.text.replace(/\[\d+\]/g, '') }, documents, documentTerms);
+    if (uncited.score > best.score) return uncited;
+  }
+
+  return best;
+}
+
+/**
+ * Map a lexical score to a verdict (used when the LLM check is unavailable)
+ */
+function lexicalVerdict(score: number): GroundingVerdict {
+  if (score >= GROUNDING_CONFIG.supportedThreshold) return 'supported';
+  if (score >= GROUNDING_CONFIG.partialThreshold) return 'partially';
+  return 'unsupported';
+}
+
+/**
+ * Ask the LLM whether each claim is entailed by its evidence passage
+ *
+ * @returns Verdicts keyed by claim position, or null if the check failed
+ */
+async function checkEntailment(
+  claims: Array<{ claim: Claim; evidence: string }>,
+  llm: LLMProvider
+): Promise<Map<number, { verdict: GroundingVerdict; reason?: string }> | null> {
+  const claimList = claims.map(({ claim, evidence }, i) =>
+    `Claim ${i + 1}: ${claim.text}\nEvidence ${i + 1}:\n${evidence || '(no matching source text)'}`
+  ).join('\n\n---\n\n');
+
+  try {
+    const parsed = await llm.completeJSON<Array<{ id: number; verdict: string; reason?: string }>>({
+      role: 'verifier',
+      maxTokens: 2048,
+      system: `You verify whether statements about FAA regulations are supported by source text.
+
+For each claim, decide using ONLY its evidence passage:
+- supported: every fact in the claim (values, conditions, section numbers) is stated or directly implied by the evidence
+- partially: the main point is supported but some detail (a number, condition, or reference) is missing or different
+- unsupported: the evidence does not support the claim, or the claim cites a section/document not in the evidence
+
+General advice (e.g. "consult your ACO") that makes no factual assertion counts as supported.
+
+Respond ONLY with a JSON array: [{"id": <claim number>, "verdict": "supported|partially|unsupported", "reason": "<short reason if not supported>"}]`,
+      messages: [{ role: "user", content: claimList }]
+    });
+
+    if (!Array.isArray(parsed) || parsed.length === 0) return null;
+
+    const verdicts = new Map<number, { verdict: GroundingVerdict; reason?: string }>();
+    for (const item of parsed) {
+      const verdict = ['supported', 'partially', 'unsupported'].includes(item.verdict)
+        ? item.verdict as GroundingVerdict
+        : 'partially';
+      verdicts.set(Number(item.id) - 1, { verdict, reason: item.reason || undefined });
+    }
+    return verdicts;
+
+  } catch (error) {
+    console.warn('⚠️ Grounding entailment check failed, using lexical scores only:', error);
+    return null;
+  }
+}
+
+/**
+ * Verify an answer against the documents it was generated from
+ *
+ * @param answer - Final answer text (after citation cleanup)
+ * @param documents - Context documents, in context block order
+ * @param llm - LLM provider for the entailment check
+ * @returns Per-claim verdicts and an overall score
+ */
+export async function verifyGrounding(
+  answer: string,
+  documents: Document[],
+  llm: LLMProvider
+): Promise<GroundingReport> {
+  const claims = splitIntoClaims(answer).slice(0, GROUNDING_CONFIG.maxClaims);
+  if (claims.length === 0 || documents.length === 0) {
+    return { score: claims.length === 0 ? 1 : 0, claims: [], method: 'lexical' };
+  }
+
+  console.log(`🔎 Verifying grounding of ${claims.length} claims against ${documents.length} sources...`);
+
+  const documentTerms = documents.map(d => new Set(tokenize(`${d.title}\n${d.chunk}`)));
+  const allSourceText = documents.map(d => `${d.title}\n${d.chunk}`).join('\n').toUpperCase();
+
+  const scored = claims.map(claim => {
+    const { score, sourceIndex } = scoreClaim(claim, documents, documentTerms);
+    const missingRefs = extractReferences(claim.text).filter(ref => !allSourceText.includes(ref.toUpperCase()));
+    const claimTerms = new Set(tokenize(claim.text));
+    const evidence = sourceIndex ? bestPassage(documents[sourceIndex - 1], claimTerms) : '';
+    return { claim, score, sourceIndex, missingRefs, evidence };
+  });
+
+  const entailment = GROUNDING_CONFIG.llmCheck ? await checkEntailment(scored, llm) : null;
+
+  const results: ClaimVerification[] = scored.map(({ claim, score, sourceIndex, missingRefs }, i) => {
+    let verdict = lexicalVerdict(score);
+    let reason: string | undefined;
+
+    const entailed = entailment?.get(i);
+    if (entailed) {
+      verdict = entailed.verdict;
+      reason = entailed.reason;
+    } else if (verdict !== 'supported') {
+      reason = `Only ${Math.round(score * 100)}% of the claim's terms appear in the sources`;
+    }
+
+    // A reference that appears in none of the sources is treated as unsupported
+    if (missingRefs.length > 0) {
+      verdict = 'unsupported';
+      reason = `References ${missingRefs.join(', ')} not found in the retrieved sources`;
+    }
+
+    return {
+      text: claim.text,
+      start: claim.start,
+      end: claim.end,
+      verdict,
+      lexicalScore: Math.round(score * 100) / 100,
+      sourceIndex,
+      reason: verdict === 'supported' ? undefined : reason
+    };
+  });
+
+  const weights: Record<GroundingVerdict, number> = { supported: 1, partially: 0.5, unsupported: 0 };
+  const score = results.reduce((sum, r) => sum + weights[r.verdict], 0) / results.length;
+  const unsupported = results.filter(r => r.verdict === 'unsupported').length;
+
+  console.log(`✅ Grounding score: ${score.toFixed(2)} (${unsupported}/${results.length} unsupported)`);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    claims: results,
+    method: entailment ? 'lexical+llm' : 'lexical'
+  };
+}
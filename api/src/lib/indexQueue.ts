@@ -8,6 +8,8 @@
 
 import { QueueServiceClient, QueueClient } from "@azure/storage-queue";
 import { DRSDocument } from "./drsClient";
+import { FADocument } from "./vectorStore";
+import { revisionMetadata } from "./documentLineage";
 
 /**
  * Queue message format for documents to index
@@ -18,6 +20,9 @@ export interface IndexQueueMessage {
   title: string;
   docType: string;
   downloadUrl: string;
+  status?: string;            // DRS status, e.g., "Current"
+  effectiveDate?: string;
+  lastModified?: string;      // DRS docLastModifiedDate
   enqueuedAt: string;
   retryCount?: number;
 }
@@ -94,6 +99,32 @@ export function hasIndexQueue(): boolean {
   return queueEnabled && !!getConnectionString();
 }
 
+/**
+ * Build the queue message for a DRS document
+ *
+ * @param doc - DRS document (must have a download URL)
+ * @param docType - Document type (AC, TSO, Order, etc.)
+ * @param enqueuedAt - Enqueue time (ISO), defaults to now
+ */
+export function createQueueMessage(
+  doc: DRSDocument,
+  docType: string,
+  enqueuedAt: string = new Date().toISOString()
+): IndexQueueMessage {
+  return {
+    documentGuid: doc.documentGuid,
+    documentNumber: doc.documentNumber,
+    title: doc.title,
+    docType: docType,
+    downloadUrl: doc.mainDocumentDownloadURL || '',
+    status: doc.status,
+    effectiveDate: doc.effectiveDate,
+    lastModified: doc.docLastModifiedDate,
+    enqueuedAt,
+    retryCount: 0,
+  };
+}
+
 /**
  * Enqueue documents for background indexing
  * 
@@ -118,15 +149,7 @@ export async function enqueueForIndexing(
       continue;
     }
     
-    const message: IndexQueueMessage = {
-      documentGuid: doc.documentGuid,
-      documentNumber: doc.documentNumber,
-      title: doc.title,
-      docType: docType,
-      downloadUrl: doc.mainDocumentDownloadURL,
-      enqueuedAt: now,
-      retryCount: 0,
-    };
+    const message = createQueueMessage(doc, docType, now);
     
     try {
       // Base64 encode the message (Azure Storage Queue requirement)
@@ -183,26 +206,33 @@ export async function getQueueStats(): Promise<QueueStats> {
 
 /**
  * Process a single queue message (called by queue trigger function)
- * Downloads PDF, extracts text, chunks with Claude, and indexes each chunk
+ * Downloads PDF, extracts text, chunks it along its structure, and indexes each chunk
+ * plus each captioned table on its own
+ * 
+ * A document already indexed from the same DRS docLastModifiedDate is skipped.
+ * A DRS document whose docLastModifiedDate changed is downloaded again: if its text
+ * is unchanged only its metadata is updated, otherwise it is re-chunked, chunks whose
+ * text changed are re-embedded, and chunks the new version doesn't have are deleted.
  * 
  * @param message - The queue message to process
  * @returns true if processed successfully, false otherwise
  */
 export async function processQueueMessage(message: IndexQueueMessage): Promise<boolean> {
   const { DRSClient } = await import('./drsClient');
-  const { indexDocument, getIndexedDocumentNumbers } = await import('./vectorSearch');
+  const { indexDocument, updateDocumentFields, deleteDocuments } = await import('./vectorSearch');
+  const { documentParentId, contentHash, getIndexedVersion } = await import('./documentVersions');
   const { hasEmbeddingService } = await import('./embeddings');
-  const { chunkDocumentWithClaude, needsChunking } = await import('./chunker');
+  const { chunkDocument, createHeadingPathLookup } = await import('./chunker');
   
   const startTime = Date.now();
   console.log(`⏳ Processing: ${message.docType} ${message.documentNumber}`);
   
   try {
-    // 1. Deduplication check - is it already indexed?
-    const indexedDocNumbers = await getIndexedDocumentNumbers();
-    const normalizedNumber = message.documentNumber.replace(/^(AC|AD|TSO|Order)\s*/i, '').trim().toUpperCase();
+    // 1. Version check - is this version already indexed?
+    const parentDocId = documentParentId(message.docType, message.documentNumber);
+    const indexed = await getIndexedVersion(parentDocId);
     
-    if (indexedDocNumbers.has(normalizedNumber)) {
+    if (indexed && (!message.lastModified || indexed.docLastModified === message.lastModified)) {
       console.log(`  ⏭️ Already indexed: ${message.docType} ${message.documentNumber}`);
       return true; // Not an error, just skip
     }
@@ -219,7 +249,9 @@ export async function processQueueMessage(message: IndexQueueMessage): Promise<b
       documentGuid: message.documentGuid,
       documentNumber: message.documentNumber,
       title: message.title,
-      docLastModifiedDate: message.enqueuedAt,
+      docLastModifiedDate: message.lastModified,
+      status: message.status,
+      effectiveDate: message.effectiveDate,
       mainDocumentDownloadURL: message.downloadUrl,
     };
     
@@ -229,14 +261,39 @@ export async function processQueueMessage(message: IndexQueueMessage): Promise<b
       return false;
     }
     
-    // 4. Create base document ID (parent ID for all chunks)
-    const parentDocId = `drs-${message.docType.toLowerCase()}-${message.documentNumber.replace(/[^a-zA-Z0-9]/g, '-')}`;
+    // 4. Unchanged text (e.g. only the status changed): update the metadata, don't re-embed
+    const metadata = {
+      ...revisionMetadata(message.documentNumber, message.status),
+      effectiveDate: message.effectiveDate,
+      docLastModified: message.lastModified,
+      contentHash: contentHash(result.text),
+    };
+    if (indexed && indexed.contentHash === metadata.contentHash) {
+      await updateDocumentFields(Array.from(indexed.chunks.keys(), id => ({ id, ...metadata })));
+      console.log(`  ♻️ Content unchanged, updated metadata of ${indexed.chunks.size} chunks: ${message.docType} ${message.documentNumber}`);
+      return true;
+    }
+    if (indexed) {
+      console.log(`  🔄 Modified in DRS (${indexed.docLastModified || 'unknown'} → ${message.lastModified}), re-indexing`);
+    }
     
-    // 5. Chunk the document with Claude (or fallback)
-    const chunkResult = await chunkDocumentWithClaude(result.text, message.title);
+    // 5. Chunk the document along its structure (Claude refines boundaries if enabled)
+    const chunkResult = await chunkDocument(result.text, message.title, result.pageStarts);
     console.log(`  ✂️ Split into ${chunkResult.totalChunks} chunks (${chunkResult.method})`);
     
-    // 6. Index each chunk separately
+    // 6. Index each chunk separately, with revision metadata from the number and DRS.
+    //    A chunk indexed before with the same text keeps its embedding (only its fields are updated)
+    const indexedIds = new Set<string>();
+    const unchanged: Array<Omit<FADocument, 'contentVector' | 'lastIndexed'>> = [];
+    const indexChunk = async (doc: Omit<FADocument, 'contentVector' | 'lastIndexed'>) => {
+      const previous = indexed?.chunks.get(doc.id);
+      if (previous && previous.title === doc.title && previous.content === doc.content) {
+        unchanged.push(doc);
+      } else {
+        await indexDocument(doc);
+      }
+      indexedIds.add(doc.id);
+    };
     let indexedCount = 0;
     for (const chunk of chunkResult.chunks) {
       const chunkId = chunkResult.totalChunks > 1 
@@ -249,20 +306,59 @@ export async function processQueueMessage(message: IndexQueueMessage): Promise<b
         documentNumber: message.documentNumber,
         title: message.title,
         content: chunk.content,
-        source: 'FAA DRS',
+        source: message.downloadUrl,
         // Chunking metadata
         documentId: parentDocId,
         chunkIndex: chunk.index,
         totalChunks: chunkResult.totalChunks,
         chunkTitle: chunk.title,
+        // Provenance for citations
+        headingPath: chunk.headingPath,
+        pageStart: chunk.pageStart,
+        pageEnd: chunk.pageEnd,
+        startChar: chunk.startChar,
+        endChar: chunk.endChar,
+        ...metadata,
       };
       
-      await indexDocument(docToIndex);
+      await indexChunk(docToIndex);
       indexedCount++;
     }
     
+    // 7. Index captioned tables on their own too (they are also in their chunk's text),
+    //    so "Table 2 of AC 33.76-1" finds the table by its caption
+    const tables = (result.tables || []).filter(table => table.caption);
+    const headingPathAt = createHeadingPathLookup(result.text);
+    for (const [i, table] of tables.entries()) {
+      await indexChunk({
+        id: `${parentDocId}-table-${i}`,
+        documentType: message.docType,
+        documentNumber: message.documentNumber,
+        title: message.title,
+        content: result.text.slice(table.start, table.end),
+        source: message.downloadUrl,
+        documentId: parentDocId,
+        chunkTitle: table.caption,
+        tableCaption: table.caption,
+        headingPath: [...headingPathAt(table.start), table.caption!],
+        pageStart: table.page,
+        pageEnd: table.page,
+        startChar: table.start,
+        endChar: table.end,
+        ...metadata,
+      });
+    }
+    await updateDocumentFields(unchanged);
+    
+    // 8. Delete chunks of the previous version that weren't overwritten
+    const stale = Array.from(indexed?.chunks.keys() || []).filter(id => !indexedIds.has(id));
+    if (stale.length > 0) {
+      await deleteDocuments(stale);
+      console.log(`  🗑️ Deleted ${stale.length} chunks of the previous version`);
+    }
+    
     const elapsed = Date.now() - startTime;
-    console.log(`  ✅ Indexed ${indexedCount} chunks: ${message.docType} ${message.documentNumber} (${elapsed}ms)`);
+    console.log(`  ✅ Indexed ${indexedCount} chunks${tables.length > 0 ? ` and ${tables.length} tables` : ''}${unchanged.length > 0 ? ` (${unchanged.length} unchanged, not re-embedded)` : ''}: ${message.docType} ${message.documentNumber} (${elapsed}ms)`);
     return true;
     
   } catch (error) {
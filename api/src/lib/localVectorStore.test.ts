@@ -0,0 +1,55 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalVectorStore } from "./localVectorStore";
+import { FADocument } from "./vectorStore";
+
+function doc(id: string): FADocument {
+  return { id, documentType: 'AC', title: id, content: `Content of ${id}`, contentVector: [1, 0], lastIndexed: '' };
+}
+
+describe('LocalVectorStore', () => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'faa-local-store-test-'));
+  const realPath = process.env.LOCAL_VECTOR_STORE_PATH;
+  const realRename = fs.rename;
+  const realLog = console.log;
+
+  before(() => {
+    process.env.LOCAL_VECTOR_STORE_PATH = join(dataDir, 'vector-store.json');
+    console.log = () => {};
+  });
+
+  after(() => {
+    if (realPath === undefined) delete process.env.LOCAL_VECTOR_STORE_PATH;
+    else process.env.LOCAL_VECTOR_STORE_PATH = realPath;
+    fs.rename = realRename;
+    console.log = realLog;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps changes made while its own write is still finishing', async () => {
+    const store = new LocalVectorStore();
+    await store.ensureIndexExists();
+
+    // Hold each write between the rename and the bookkeeping after it
+    let renamed!: () => void;
+    const firstRename = new Promise<void>(resolve => { renamed = resolve; });
+    fs.rename = (async (from: string, to: string) => {
+      await realRename(from, to);
+      renamed();
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }) as typeof fs.rename;
+
+    // "a" is being written when "b" is added; "c" comes after the file was replaced
+    const writes = [store.indexDocuments([doc('a')]), store.indexDocuments([doc('b')])];
+    await firstRename;
+    writes.push(store.indexDocuments([doc('c')]));
+    await Promise.all(writes);
+    fs.rename = realRename;
+
+    const stored = await new LocalVectorStore().listDocuments(undefined, ['id'], 10);
+    assert.deepEqual(stored.map(d => d.id).sort(), ['a', 'b', 'c']);
+  });
+});
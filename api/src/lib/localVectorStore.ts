@@ -0,0 +1,383 @@
+/**
+ * Local vector store
+ * File-backed in-process index for local development and CI
+ *
+ * Documents (with vectors) are kept in memory and persisted to a single JSON
+ * file. Vector search is brute-force cosine similarity, keyword search is
+ * BM25 over the same fields Azure searches, and hybrid results are fused
+ * with Reciprocal Rank Fusion like Azure AI Search does.
+ *
+ * Every change rewrites the whole file, vectors included (changes made while a
+ * write is queued go out with it). At 1024 dimensions that is ~20 KB per chunk,
+ * so the store suits development indexes of up to a few ten thousand chunks.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { compileODataFilter } from './odataFilter';
+import {
+  FADocument,
+  FADocumentPatch,
+  SearchResult,
+  IndexStats,
+  VectorStore,
+  SEARCH_SELECT_FIELDS,
+  KEYWORD_SEARCH_FIELDS,
+  normalizeIndexedDocumentNumber,
+} from './vectorStore';
+
+const getLocalStoreConfig = () => ({
+  path: process.env.LOCAL_VECTOR_STORE_PATH || join(process.cwd(), 'data', 'vector-store.json'),
+  bm25K1: 1.2,        // BM25 term frequency saturation
+  bm25B: 0.75,        // BM25 length normalization
+  rrfK: 60,           // Reciprocal Rank Fusion constant (same as Azure)
+});
+
+/**
+ * On-disk file format
+ */
+interface LocalStoreFile {
+  version: 1;
+  documents: FADocument[];
+}
+
+/**
+ * Per-document keyword statistics
+ */
+interface TermStats {
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Tokenize text for keyword search (keeps section numbers like "25.1309")
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:[.-][a-z0-9]+)*/g) || [];
+}
+
+/**
+ * Cosine similarity between two vectors
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Copy a document with only the given fields (by default, the fields searches return)
+ */
+function selectFields(doc: FADocument, fields: Array<keyof FADocument> = SEARCH_SELECT_FIELDS): FADocument {
+  const selected: Partial<FADocument> = {};
+  for (const field of fields) {
+    if (doc[field] !== undefined) {
+      (selected as Record<string, unknown>)[field] = doc[field];
+    }
+  }
+  return selected as FADocument;
+}
+
+export class LocalVectorStore implements VectorStore {
+  readonly name = 'local';
+
+  private documents = new Map<string, FADocument>();
+  private termStats = new Map<string, TermStats>();
+  private documentFreqs: Map<string, number> | null = null;
+  private loadedPath: string | null = null;
+  private loadedMtime = 0;
+  private writeChain: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null;   // Write that hasn't started yet
+  private pendingWrites = 0;                           // Writes queued or in progress
+
+  /**
+   * Load the store file if it changed since the last load
+   * (another process, e.g. a script, may have written it)
+   */
+  private async load(): Promise<void> {
+    const { path } = getLocalStoreConfig();
+
+    let mtime = 0;
+    try {
+      mtime = (await fs.stat(path)).mtimeMs;
+    } catch {
+      // No file yet - empty store
+    }
+
+    if (this.loadedPath === path && this.loadedMtime === mtime) return;
+    // Until our own writes are done, memory is newer than the file
+    if (this.loadedPath === path && this.pendingWrites > 0) return;
+
+    this.documents.clear();
+    if (mtime > 0) {
+      const file = JSON.parse(await fs.readFile(path, 'utf-8')) as LocalStoreFile;
+      for (const doc of file.documents) {
+        this.documents.set(doc.id, doc);
+      }
+      console.log(`📦 Loaded ${this.documents.size} documents from local vector store: ${path}`);
+    }
+
+    this.loadedPath = path;
+    this.loadedMtime = mtime;
+    this.invalidateKeywordIndex();
+  }
+
+  /**
+   * Persist the store (writes are serialized; temp file + rename keeps the file valid)
+   * A write that hasn't started yet writes the current documents, so it is shared
+   */
+  private persist(): Promise<void> {
+    if (this.queuedWrite) return this.queuedWrite;
+
+    const write = async () => {
+      this.queuedWrite = null;
+      const { path } = getLocalStoreConfig();
+      const file: LocalStoreFile = { version: 1, documents: Array.from(this.documents.values()) };
+      const tempPath = `${path}.tmp`;
+
+      await fs.mkdir(dirname(path), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(file), 'utf-8');
+      await fs.rename(tempPath, path);
+
+      this.loadedPath = path;
+      this.loadedMtime = (await fs.stat(path)).mtimeMs;
+    };
+
+    this.pendingWrites++;
+    this.queuedWrite = this.writeChain.then(write, write).finally(() => { this.pendingWrites--; });
+    this.writeChain = this.queuedWrite;
+    return this.queuedWrite;
+  }
+
+  private invalidateKeywordIndex(): void {
+    this.termStats.clear();
+    this.documentFreqs = null;
+  }
+
+  /**
+   * Build keyword statistics for all documents (lazily, after changes)
+   */
+  private getDocumentFreqs(): Map<string, number> {
+    if (this.documentFreqs) return this.documentFreqs;
+
+    const freqs = new Map<string, number>();
+    for (const doc of this.documents.values()) {
+      const text = KEYWORD_SEARCH_FIELDS.map(f => doc[f] ?? '').join(' ');
+      const tokens = tokenize(String(text));
+      const termFreqs = new Map<string, number>();
+      for (const token of tokens) {
+        termFreqs.set(token, (termFreqs.get(token) || 0) + 1);
+      }
+      this.termStats.set(doc.id, { termFreqs, length: tokens.length });
+      for (const term of termFreqs.keys()) {
+        freqs.set(term, (freqs.get(term) || 0) + 1);
+      }
+    }
+
+    this.documentFreqs = freqs;
+    return freqs;
+  }
+
+  /**
+   * Documents matching an OData filter
+   */
+  private filterDocuments(filter?: string): FADocument[] {
+    const predicate = compileODataFilter(filter);
+    return Array.from(this.documents.values())
+      .filter(doc => predicate(doc as unknown as Record<string, unknown>));
+  }
+
+  /**
+   * Rank documents by BM25 score for a query (documents with no matching term are dropped)
+   */
+  private keywordRank(query: string, candidates: FADocument[]): Array<{ doc: FADocument; score: number }> {
+    const { bm25K1, bm25B } = getLocalStoreConfig();
+    const documentFreqs = this.getDocumentFreqs();
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const totalDocs = this.documents.size;
+    let totalLength = 0;
+    for (const stats of this.termStats.values()) totalLength += stats.length;
+    const avgLength = totalLength / Math.max(totalDocs, 1) || 1;
+
+    const ranked: Array<{ doc: FADocument; score: number }> = [];
+    for (const doc of candidates) {
+      const stats = this.termStats.get(doc.id);
+      if (!stats) continue;
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = stats.termFreqs.get(term);
+        if (!tf) continue;
+        const df = documentFreqs.get(term) || 0;
+        const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (bm25K1 + 1)) / (tf + bm25K1 * (1 - bm25B + bm25B * stats.length / avgLength));
+      }
+      if (score > 0) ranked.push({ doc, score });
+    }
+
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Rank documents by cosine similarity to a query vector
+   */
+  private vectorRank(queryVector: number[], candidates: FADocument[]): Array<{ doc: FADocument; score: number }> {
+    return candidates
+      .filter(doc => doc.contentVector && doc.contentVector.length > 0)
+      .map(doc => ({ doc, score: cosineSimilarity(queryVector, doc.contentVector!) }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async ensureIndexExists(): Promise<void> {
+    await this.load();
+    const { path } = getLocalStoreConfig();
+    if (this.loadedMtime === 0) {
+      console.log(`Creating local vector store '${path}'...`);
+      await this.persist();
+    }
+  }
+
+  async indexDocuments(docs: FADocument[]): Promise<void> {
+    await this.load();
+    for (const doc of docs) {
+      this.documents.set(doc.id, doc);
+    }
+    this.invalidateKeywordIndex();
+    await this.persist();
+    console.log(`Indexed ${docs.length}/${docs.length} documents`);
+  }
+
+  async mergeDocuments(docs: FADocumentPatch[]): Promise<void> {
+    await this.load();
+    let updated = 0;
+    for (const patch of docs) {
+      const existing = this.documents.get(patch.id);
+      if (!existing) continue;
+      const fields = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined));
+      this.documents.set(patch.id, { ...existing, ...fields });
+      updated++;
+    }
+    this.invalidateKeywordIndex();
+    await this.persist();
+    console.log(`Updated ${updated}/${docs.length} documents`);
+  }
+
+  async listDocuments(filter: string | undefined, fields: Array<keyof FADocument>, maxResults: number): Promise<FADocument[]> {
+    await this.load();
+    return this.filterDocuments(filter).slice(0, maxResults).map(doc => selectFields(doc, fields));
+  }
+
+  async vectorSearch(queryVector: number[], top: number, filter?: string): Promise<SearchResult[]> {
+    await this.load();
+    return this.vectorRank(queryVector, this.filterDocuments(filter))
+      .slice(0, top)
+      // Same scale as Azure's cosine score: 1 / (1 + cosine distance)
+      .map(({ doc, score }) => ({ document: selectFields(doc), score: 1 / (2 - score) }));
+  }
+
+  async hybridSearch(query: string, queryVector: number[], top: number, filter?: string): Promise<SearchResult[]> {
+    await this.load();
+    const { rrfK } = getLocalStoreConfig();
+    const candidates = this.filterDocuments(filter);
+
+    // Reciprocal Rank Fusion of the keyword and vector (top k) rankings
+    const fused = new Map<string, { doc: FADocument; score: number }>();
+    const addRanking = (ranking: Array<{ doc: FADocument }>) => {
+      ranking.forEach(({ doc }, rank) => {
+        const entry = fused.get(doc.id) || { doc, score: 0 };
+        entry.score += 1 / (rrfK + rank + 1);
+        fused.set(doc.id, entry);
+      });
+    };
+
+    addRanking(this.keywordRank(query, candidates));
+    addRanking(this.vectorRank(queryVector, candidates).slice(0, top));
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, top)
+      .map(({ doc, score }) => ({ document: selectFields(doc), score }));
+  }
+
+  async getDocument(id: string): Promise<FADocument | null> {
+    await this.load();
+    return this.documents.get(id) || null;
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.load();
+    for (const id of ids) {
+      this.documents.delete(id);
+    }
+    this.invalidateKeywordIndex();
+    await this.persist();
+  }
+
+  async getDocumentCount(): Promise<number> {
+    await this.load();
+    return this.documents.size;
+  }
+
+  async getIndexedDocumentNumbers(documentType: string | undefined, maxResults: number): Promise<Set<string>> {
+    await this.load();
+    const filter = documentType ? `documentType eq '${documentType}'` : undefined;
+
+    const docNumbers = new Set<string>();
+    for (const doc of this.filterDocuments(filter).slice(0, maxResults)) {
+      if (doc.documentNumber) {
+        docNumbers.add(normalizeIndexedDocumentNumber(doc.documentNumber));
+      }
+    }
+    return docNumbers;
+  }
+
+  async getIndexedCFRSections(maxResults: number): Promise<Set<string>> {
+    await this.load();
+
+    const cfrSections = new Set<string>();
+    for (const doc of this.filterDocuments(`documentType eq 'eCFR'`).slice(0, maxResults)) {
+      if (doc.cfrPart && doc.cfrSection) {
+        cfrSections.add(`${doc.cfrPart}.${doc.cfrSection}`);
+      }
+    }
+    return cfrSections;
+  }
+
+  async deleteAllDocuments(): Promise<number> {
+    await this.load();
+    const count = this.documents.size;
+    if (count === 0) {
+      console.log('No documents to delete');
+      return 0;
+    }
+
+    this.documents.clear();
+    this.invalidateKeywordIndex();
+    await this.persist();
+    console.log(`✅ Deleted ${count} documents from index`);
+    return count;
+  }
+
+  async getIndexStats(): Promise<IndexStats> {
+    await this.load();
+    const parentDocs = new Set<string>();
+    for (const doc of this.documents.values()) {
+      parentDocs.add(doc.documentId || doc.id);
+    }
+    return { documentCount: parentDocs.size, chunkCount: this.documents.size };
+  }
+}
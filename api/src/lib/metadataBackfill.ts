@@ -0,0 +1,134 @@
+/**
+ * Metadata Backfill
+ * Fills revision, changeNumber, status and effectiveDate on indexed DRS chunks
+ *
+ * Documents indexed before this metadata was recorded are patched in place:
+ * revision and change come from the document number, status and effective
+ * date from DRS. Only the changed fields are merged, so nothing is re-embedded.
+ */
+
+import { DRSClient, DRSDocument } from "./drsClient";
+import { parseDocumentNumber, compareRevisions, revisionMetadata } from "./documentLineage";
+import { FADocument, FADocumentPatch, getVectorStore } from "./vectorSearch";
+
+/**
+ * Backfill configuration
+ */
+const BACKFILL_CONFIG = {
+  statuses: ['Current', 'Historical', 'Cancelled'],   // DRS statuses searched for a document's record
+  maxChunks: 5000,                                     // Indexed chunks read per run
+  maxSearchResults: 10,
+};
+
+/**
+ * Backfill options
+ */
+export interface BackfillOptions {
+  dryRun?: boolean;           // Report changes without writing them
+  lookupDRS?: boolean;        // Look up status and effective date in DRS (default true)
+  documentType?: string;      // Only this document type, e.g. "AC"
+}
+
+/**
+ * Backfill results
+ */
+export interface BackfillResult {
+  documents: number;          // Distinct DRS documents found in the index
+  chunks: number;             // Their chunks
+  updated: number;            // Chunks patched (or that would be, in a dry run)
+  notFoundInDRS: string[];    // Documents DRS had no record of
+}
+
+const METADATA_FIELDS = ['revision', 'changeNumber', 'status', 'effectiveDate'] as const;
+
+/**
+ * Find the DRS record of exactly this document (not another revision or change)
+ */
+async function findDRSRecord(docType: string, docNumber: string, drsClient: DRSClient): Promise<DRSDocument | null> {
+  const parsed = parseDocumentNumber(docNumber);
+  const docs = await drsClient.searchDocumentsFiltered([parsed.series], docType, {
+    statusFilter: BACKFILL_CONFIG.statuses,
+    maxResults: BACKFILL_CONFIG.maxSearchResults
+  });
+
+  return docs.find(doc => {
+    if (!doc.documentNumber) return false;
+    const candidate = parseDocumentNumber(doc.documentNumber);
+    return candidate.series === parsed.series && compareRevisions(candidate, parsed) === 0;
+  }) || null;
+}
+
+/**
+ * Patch revision metadata onto indexed DRS documents
+ *
+ * @param options - Dry run, DRS lookup and document type filter
+ * @param drsClient - DRS client used for status lookups
+ */
+export async function backfillIndexMetadata(
+  options: BackfillOptions = {},
+  drsClient: DRSClient = new DRSClient()
+): Promise<BackfillResult> {
+  const { dryRun = false, lookupDRS = true, documentType } = options;
+  const store = getVectorStore();
+
+  const filter = documentType ? `documentType eq '${documentType}'` : `documentType ne 'eCFR'`;
+  const chunks = await store.listDocuments(
+    filter,
+    ['id', 'documentType', 'documentNumber', ...METADATA_FIELDS],
+    BACKFILL_CONFIG.maxChunks
+  );
+
+  // Chunks grouped by document
+  const byDocument = new Map<string, FADocument[]>();
+  for (const chunk of chunks) {
+    if (!chunk.documentNumber) continue;
+    const key = `${chunk.documentType}|${chunk.documentNumber}`;
+    byDocument.set(key, [...(byDocument.get(key) || []), chunk]);
+  }
+  console.log(`🔧 Backfilling metadata for ${byDocument.size} documents (${chunks.length} chunks)${dryRun ? ' [dry run]' : ''}`);
+
+  const patches: FADocumentPatch[] = [];
+  const notFoundInDRS: string[] = [];
+
+  for (const [key, docChunks] of byDocument) {
+    const [docType, docNumber] = key.split('|');
+
+    let record: DRSDocument | null = null;
+    if (lookupDRS) {
+      try {
+        record = await findDRSRecord(docType, docNumber, drsClient);
+        if (!record) notFoundInDRS.push(`${docType} ${docNumber}`);
+      } catch (error) {
+        console.warn(`⚠️ DRS lookup failed for ${docType} ${docNumber}:`, error);
+      }
+    }
+
+    // Fields DRS didn't return keep their indexed values
+    const metadata: Partial<FADocument> = {
+      ...revisionMetadata(docNumber, record?.status),
+      effectiveDate: record?.effectiveDate
+    };
+
+    for (const chunk of docChunks) {
+      const patch: FADocumentPatch = { id: chunk.id };
+      for (const field of METADATA_FIELDS) {
+        if (metadata[field] !== undefined && metadata[field] !== chunk[field]) {
+          patch[field] = metadata[field];
+        }
+      }
+      if (Object.keys(patch).length > 1) patches.push(patch);
+    }
+  }
+
+  if (!dryRun && patches.length > 0) {
+    await store.mergeDocuments(patches);
+  }
+
+  console.log(`✅ Metadata backfill: ${patches.length}/${chunks.length} chunks ${dryRun ? 'would be ' : ''}updated, ${notFoundInDRS.length} documents not found in DRS`);
+  return {
+    documents: byDocument.size,
+    chunks: chunks.length,
+    updated: patches.length,
+    notFoundInDRS
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileODataFilter } from "./odataFilter";
+
+const docs: Array<Record<string, unknown>> = [
+  { id: 'a', documentType: 'AC', documentNumber: "23-8C", cfrPart: 23, status: 'Current' },
+  { id: 'b', documentType: 'AC', documentNumber: "25.1309-1B", cfrPart: 25, status: 'Cancelled' },
+  { id: 'c', documentType: 'eCFR', cfrPart: 25, cfrSection: '1309' },
+  { id: 'd', documentType: 'Order', documentNumber: "8110.4C", status: 'Current' },
+];
+
+function matching(filter?: string): string[] {
+  const predicate = compileODataFilter(filter);
+  return docs.filter(predicate).map(d => d.id as string);
+}
+
+describe('compileODataFilter', () => {
+  it('matches everything for an empty filter', () => {
+    assert.deepEqual(matching(undefined), ['a', 'b', 'c', 'd']);
+    assert.deepEqual(matching('  '), ['a', 'b', 'c', 'd']);
+  });
+
+  it('compares strings and numbers', () => {
+    assert.deepEqual(matching(`documentType eq 'AC'`), ['a', 'b']);
+    assert.deepEqual(matching(`cfrPart eq 25`), ['b', 'c']);
+    assert.deepEqual(matching(`cfrPart ge 24`), ['b', 'c']);
+    assert.deepEqual(matching(`cfrPart lt 25`), ['a']);
+  });
+
+  it('treats a missing field as null', () => {
+    // Documents without a status are kept by "ne" (as Azure AI Search does)
+    assert.deepEqual(matching(`status ne 'Cancelled'`), ['a', 'c', 'd']);
+    assert.deepEqual(matching(`status eq null`), ['c']);
+    // Range comparisons never match null
+    assert.deepEqual(matching(`cfrPart gt 0`), ['a', 'b', 'c']);
+  });
+
+  it('combines clauses with and, or, not and parentheses (and binds tighter than or)', () => {
+    assert.deepEqual(matching(`documentType eq 'eCFR' or documentType eq 'AC' and cfrPart eq 23`), ['a', 'c']);
+    assert.deepEqual(matching(`(documentType eq 'eCFR' or documentType eq 'AC') and cfrPart eq 25`), ['b', 'c']);
+    assert.deepEqual(matching(`not (documentType eq 'AC')`), ['c', 'd']);
+  });
+
+  it('evaluates search.in with the default and a custom delimiter', () => {
+    assert.deepEqual(matching(`search.in(documentType, 'eCFR,Order', ',')`), ['c', 'd']);
+    assert.deepEqual(matching(`search.in(documentType, 'AC Order')`), ['a', 'b', 'd']);
+    assert.deepEqual(matching(`search.in(documentNumber, '23-8C|8110.4C', '|')`), ['a', 'd']);
+  });
+
+  it('unescapes doubled quotes in string literals', () => {
+    const predicate = compileODataFilter(`title eq 'Pilot''s Handbook'`);
+    assert.equal(predicate({ title: "Pilot's Handbook" }), true);
+    assert.equal(predicate({ title: "Pilots Handbook" }), false);
+  });
+
+  it('rejects malformed filters', () => {
+    assert.throws(() => compileODataFilter(`documentType eq 'AC`), /Unterminated string/);
+    assert.throws(() => compileODataFilter(`documentType like 'AC'`), /Unsupported operator/);
+    assert.throws(() => compileODataFilter(`(documentType eq 'AC'`), Error);
+    assert.throws(() => compileODataFilter(`documentType eq`), Error);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * OData Filter Evaluator
+ * Evaluates the subset of Azure AI Search $filter syntax used by this app
+ * against in-memory documents (for the local vector store)
+ *
+ * Supported: eq, ne, gt, ge, lt, le, and, or, not, parentheses,
+ * string/number/boolean/null literals, search.in(field, 'a,b', ',')
+ */
+
+type Literal = string | number | boolean | null;
+
+interface Token {
+  kind: 'ident' | 'string' | 'number' | 'lparen' | 'rparen' | 'comma';
+  value: string;
+}
+
+/**
+ * Compiled filter predicate
+ */
+export type FilterPredicate = (doc: Record<string, unknown>) => boolean;
+
+/**
+ * Split a filter expression into tokens
+ */
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < filter.length) {
+    const ch = filter[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen', value: ch });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen', value: ch });
+      i++;
+    } else if (ch === ',') {
+      tokens.push({ kind: 'comma', value: ch });
+      i++;
+    } else if (ch === "'") {
+      // String literal; '' is an escaped quote
+      let value = '';
+      i++;
+      while (i < filter.length) {
+        if (filter[i] === "'" && filter[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (filter[i] === "'") {
+          break;
+        } else {
+          value += filter[i++];
+        }
+      }
+      if (filter[i] !== "'") {
+        throw new Error(`Unterminated string in filter: ${filter}`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value });
+    } else if (/[-\d]/.test(ch)) {
+      const match = filter.slice(i).match(/^-?\d+(\.\d+)?/);
+      if (!match) throw new Error(`Invalid number in filter at ${i}: ${filter}`);
+      tokens.push({ kind: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = filter.slice(i).match(/^[A-Za-z_][\w.]*/)!;
+      tokens.push({ kind: 'ident', value: match[0] });
+      i += match[0].length;
+    } else {
+      throw new Error(`Unexpected character '${ch}' in filter: ${filter}`);
+    }
+  }
+
+  return tokens;
+}
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le'];
+
+/**
+ * Compare a document value with a literal using an OData operator
+ */
+function compare(value: unknown, op: string, literal: Literal): boolean {
+  const actual = value === undefined ? null : value;
+
+  if (op === 'eq') return actual === literal;
+  if (op === 'ne') return actual !== literal;
+
+  // Ordering comparisons never match null
+  if (actual === null || literal === null) return false;
+  const a = actual as string | number;
+  const b = literal as string | number;
+  switch (op) {
+    case 'gt': return a > b;
+    case 'ge': return a >= b;
+    case 'lt': return a < b;
+    case 'le': return a <= b;
+  }
+  return false;
+}
+
+/**
+ * Recursive descent parser producing a predicate
+ */
+class FilterParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): FilterPredicate {
+    const predicate = this.parseOr();
+    if (this.pos < this.tokens.length) {
+      throw new Error(`Unexpected '${this.tokens[this.pos].value}' in filter: ${this.source}`);
+    }
+    return predicate;
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.tokens[this.pos];
+    return token?.kind === 'ident' && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(kind: Token['kind']): Token {
+    const token = this.tokens[this.pos];
+    if (!token || token.kind !== kind) {
+      throw new Error(`Expected ${kind} in filter: ${this.source}`);
+    }
+    this.pos++;
+    return token;
+  }
+
+  private parseOr(): FilterPredicate {
+    let left = this.parseAnd();
+    while (this.peekKeyword('or')) {
+      this.pos++;
+      const l = left;
+      const r = this.parseAnd();
+      left = doc => l(doc) || r(doc);
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterPredicate {
+    let left = this.parseUnary();
+    while (this.peekKeyword('and')) {
+      this.pos++;
+      const l = left;
+      const r = this.parseUnary();
+      left = doc => l(doc) && r(doc);
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterPredicate {
+    if (this.peekKeyword('not')) {
+      this.pos++;
+      const inner = this.parseUnary();
+      return doc => !inner(doc);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterPredicate {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new Error(`Unexpected end of filter: ${this.source}`);
+    }
+
+    if (token.kind === 'lparen') {
+      this.pos++;
+      const inner = this.parseOr();
+      this.expect('rparen');
+      return inner;
+    }
+
+    if (token.kind === 'ident' && token.value.toLowerCase() === 'search.in') {
+      return this.parseSearchIn();
+    }
+
+    const field = this.expect('ident').value;
+    const op = this.expect('ident').value.toLowerCase();
+    if (!COMPARISON_OPERATORS.includes(op)) {
+      throw new Error(`Unsupported operator '${op}' in filter: ${this.source}`);
+    }
+    const literal = this.parseLiteral();
+    return doc => compare(doc[field], op, literal);
+  }
+
+  private parseSearchIn(): FilterPredicate {
+    this.pos++;
+    this.expect('lparen');
+    const field = this.expect('ident').value;
+    this.expect('comma');
+    const values = this.expect('string').value;
+    let delimiter = ' ,';
+    if (this.tokens[this.pos]?.kind === 'comma') {
+      this.pos++;
+      delimiter = this.expect('string').value;
+    }
+    this.expect('rparen');
+
+    const allowed = new Set(
+      values.split(new RegExp(`[${delimiter.replace(/[\]\\^-]/g, '\\$&')}]`)).filter(v => v.length > 0)
+    );
+    return doc => {
+      const value = doc[field];
+      return value !== undefined && value !== null && allowed.has(String(value));
+    };
+  }
+
+  private parseLiteral(): Literal {
+    const token = this.tokens[this.pos++];
+    if (!token) {
+      throw new Error(`Expected value in filter: ${this.source}`);
+    }
+    if (token.kind === 'string') return token.value;
+    if (token.kind === 'number') return Number(token.value);
+    if (token.kind === 'ident') {
+      const keyword = token.value.toLowerCase();
+      if (keyword === 'null') return null;
+      if (keyword === 'true') return true;
+      if (keyword === 'false') return false;
+    }
+    throw new Error(`Invalid value '${token.value}' in filter: ${this.source}`);
+  }
+}
+
+/**
+ * Compile an OData filter expression into a predicate
+ *
+ * @param filter - Filter expression, e.g. "documentType eq 'AC' and cfrPart eq 25"
+ * @returns Predicate over documents (always true for an empty filter)
+ */
+export function compileODataFilter(filter?: string): FilterPredicate {
+  if (!filter || !filter.trim()) {
+    return () => true;
+  }
+  return new FilterParser(tokenize(filter), filter).parse();
+}
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { layoutPageText } from "./pdfTables";
+
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+
+/** A pdf.js text item at (x, y) with an approximate glyph width */
+function item(str: string, x: number, y: number) {
+  return { str, width: str.length * FONT_SIZE / 2, transform: [FONT_SIZE, 0, 0, FONT_SIZE, x, y] };
+}
+
+/** Grid rows from the top down, each cell placed at its column's x */
+function rows(top: number, cells: Array<Array<[string, number]>>) {
+  return cells.flatMap((row, i) => row.map(([str, x]) => item(str, x, top - i * LINE_HEIGHT)));
+}
+
+describe('layoutPageText', () => {
+  it('renders a ruled table as Markdown between the surrounding paragraphs', () => {
+    const layout = layoutPageText([
+      item('1-3. Test conditions are listed below.', 50, 700),
+      ...rows(680, [
+        [['Condition', 50], ['Speed (KIAS)', 200], ['Altitude (ft)', 350]],
+        [['Takeoff', 50], ['120', 200], ['0', 350]],
+        [['Cruise', 50], ['250', 200], ['10000', 350]],
+        [['Landing', 50], ['110', 200], ['0', 350]],
+      ]),
+      item('The applicant should record each condition.', 50, 600),
+    ]);
+
+    const markdown = [
+      '| Condition | Speed (KIAS) | Altitude (ft) |',
+      '| --- | --- | --- |',
+      '| Takeoff | 120 | 0 |',
+      '| Cruise | 250 | 10000 |',
+      '| Landing | 110 | 0 |',
+    ].join('\n');
+
+    assert.equal(layout.tables.length, 1);
+    const [table] = layout.tables;
+    assert.equal(table.markdown, markdown);
+    assert.equal(table.caption, undefined);
+    assert.equal(layout.text.slice(table.start, table.end), markdown);
+    assert.ok(layout.text.startsWith('1-3. Test conditions are listed below.\n'));
+    assert.ok(layout.text.endsWith('\nThe applicant should record each condition.'));
+  });
+
+  it('keeps a caption and folds a header cell spanning two columns into the grid', () => {
+    const layout = layoutPageText([
+      item('Table 2. Load Factors by Category', 150, 700),
+      ...rows(680, [
+        [['Category', 50], ['Limit load factor (g)', 240]],
+        [['Positive', 200], ['Negative', 350]],
+        [['Normal', 50], ['3.8', 200], ['-1.52', 350]],
+        [['Utility', 50], ['4.4', 200], ['-1.76', 350]],
+        [['Acrobatic', 50], ['6.0', 200], ['-3.0', 350]],
+      ]),
+      item('Limits apply at maximum takeoff weight.', 50, 600),
+    ]);
+
+    assert.equal(layout.tables.length, 1);
+    const [table] = layout.tables;
+    assert.equal(table.caption, 'Table 2. Load Factors by Category');
+    assert.equal(layout.text.slice(table.start, table.end).split('\n')[0], table.caption);
+
+    const lines = table.markdown.split('\n');
+    // Every row keeps the three columns of the body
+    assert.ok(lines.every(line => line.split('|').length === 5), table.markdown);
+    assert.match(lines[0], /^\| Category \| Limit load factor \(g\)/);
+    assert.deepEqual(lines.slice(2), [
+      '| Normal | 3.8 | -1.52 |',
+      '| Utility | 4.4 | -1.76 |',
+      '| Acrobatic | 6.0 | -3.0 |',
+    ]);
+  });
+
+  it('leaves plain prose alone', () => {
+    const paragraph = [
+      'This advisory circular provides guidance for showing compliance with the',
+      'requirements of 14 CFR part 23 for flight test of normal category airplanes.',
+      'It describes acceptable means, but not the only means, of compliance.',
+    ];
+    const layout = layoutPageText(paragraph.map((line, i) => item(line, 50, 700 - i * LINE_HEIGHT)));
+
+    assert.deepEqual(layout.tables, []);
+    assert.equal(layout.text, paragraph.join('\n'));
+  });
+
+  it('does not mistake a two-column page layout for a table', () => {
+    const layout = layoutPageText([0, 1, 2, 3, 4].flatMap(i => [
+      item('The left column of a two column page layout continues here with prose text', 40, 700 - i * LINE_HEIGHT),
+      item('while the right column carries on with an unrelated paragraph of prose text', 330, 700 - i * LINE_HEIGHT),
+    ]));
+
+    assert.deepEqual(layout.tables, []);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * PDF Table Extraction
+ * Finds tables in a PDF page's text layout and renders them as Markdown
+ *
+ * pdf-parse joins the text items of each baseline into a line, so a table
+ * comes out as runs of numbers with its columns lost. Here the items'
+ * positions are kept: rows of the page whose text falls into two or more
+ * columns form a table, wrapped cell text is folded back into its row, and
+ * the caption above ("Table 2. Test Conditions") is attached. The rest of
+ * the page renders exactly as pdf-parse renders it.
+ */
+
+/**
+ * Table detection configuration
+ */
+const TABLE_CONFIG = {
+  minRows: 3,                 // Rows with two or more cells (including the header)
+  columnGap: 1.2,             // Gap between cells, in font sizes
+  columnAgreement: 0.75,      // Share of multi-cell rows a column gap must be clear in
+  rowTolerance: 0.25,         // Baselines this close (in font sizes) are one row
+  maxContinuationLines: 2,    // Single-cell lines folded into a row
+  maxTwoColumnCellLength: 40, // Longer average cells in two columns are prose (e.g. a two-column layout)
+  captionLookback: 2,         // Rows above a table searched for its caption
+};
+
+// "Table 2. Test Conditions", "TABLE 3-1 LOAD FACTORS", "Table A-1: ..."
+const TABLE_CAPTION = /^(?:TABLE|Table)\s+[0-9A-Z]+(?:[-.][0-9A-Z]+)*\b/;
+
+// Table of contents entries ("3.3.1 Retrieve Document Metadata ...... 4") and list bullets aren't table rows
+const DOT_LEADER = /(?:\.\s*){4,}/;
+const BULLET = /^[•●◦▪■○–\-\uE000-\uF8FF]$/;   // Symbol font bullets are private-use glyphs
+
+/**
+ * A table found on a page
+ */
+export interface PDFTable {
+  caption?: string;           // Caption line, e.g. "Table 2. Test Conditions"
+  page: number;               // PDF page (1-based)
+  start: number;              // Offset of the table (its caption, if any) in the text
+  end: number;                // Offset after the table
+  markdown: string;           // Header row, separator and rows as a Markdown table
+}
+
+/**
+ * Page text with its tables rendered as Markdown
+ */
+export interface PageLayout {
+  text: string;
+  tables: Array<Omit<PDFTable, 'page'>>;   // Offsets are within the page text
+}
+
+/**
+ * Text item of a page (the fields of pdf.js getTextContent() items used here)
+ */
+export interface TextItem {
+  str: string;
+  width: number;
+  transform: number[];        // [scaleX, skewY, skewX, scaleY, x, y]
+}
+
+/**
+ * A run of text in a row, between column gaps
+ */
+interface Cell {
+  x: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Text items on (about) the same baseline, left to right
+ */
+interface Row {
+  y: number;
+  items: number[];            // Indexes of the row's items
+  cells: Cell[];
+  text: string;
+}
+
+function fontSize(item: TextItem): number {
+  return Math.abs(item.transform[3]) || Math.abs(item.transform[0]) || 10;
+}
+
+/**
+ * Group the non-blank items of a page into rows, top to bottom, and split
+ * each row into cells at gaps wider than the column gap
+ */
+function toRows(items: TextItem[]): Row[] {
+  const order = items
+    .map((_, i) => i)
+    .filter(i => items[i].str.trim())
+    .sort((a, b) => items[b].transform[5] - items[a].transform[5]);
+
+  const groups: number[][] = [];
+  for (const i of order) {
+    const last = groups[groups.length - 1];
+    if (last && items[last[0]].transform[5] - items[i].transform[5] <= fontSize(items[i]) * TABLE_CONFIG.rowTolerance) {
+      last.push(i);
+    } else {
+      groups.push([i]);
+    }
+  }
+
+  return groups.map(group => {
+    group.sort((a, b) => items[a].transform[4] - items[b].transform[4]);
+    const cells: Cell[] = [];
+    for (const i of group) {
+      const item = items[i];
+      const x = item.transform[4];
+      const last = cells[cells.length - 1];
+      if (last && x - last.end < fontSize(item) * TABLE_CONFIG.columnGap) {
+        last.text += item.str;
+        last.end = Math.max(last.end, x + item.width);
+      } else {
+        cells.push({ x, end: x + item.width, text: item.str });
+      }
+    }
+    cells.forEach(c => { c.text = c.text.replace(/\s+/g, ' ').trim(); });
+    return {
+      y: items[group[0]].transform[5],
+      items: group,
+      cells,
+      text: cells.map(c => c.text).join(' ')
+    };
+  });
+}
+
+function isTableRow(row: Row): boolean {
+  return row.cells.length >= 2 &&
+    !TABLE_CAPTION.test(row.text) &&
+    !BULLET.test(row.cells[0].text) &&
+    !row.cells.some(c => DOT_LEADER.test(c.text));
+}
+
+/**
+ * Runs of rows that may be tables: rows of two or more cells, with up to
+ * maxContinuationLines single-cell rows (wrapped text) between them
+ */
+function tableCandidates(rows: Row[]): Array<{ first: number; last: number }> {
+  const runs: Array<{ first: number; last: number }> = [];
+  let first = -1;
+  let last = -1;
+  let tableRows = 0;
+  let continuation = 0;
+
+  const close = () => {
+    if (first >= 0 && tableRows >= TABLE_CONFIG.minRows) runs.push({ first, last });
+    first = -1;
+    tableRows = 0;
+    continuation = 0;
+  };
+
+  rows.forEach((row, i) => {
+    if (isTableRow(row)) {
+      if (first < 0) first = i;
+      last = i;
+      tableRows++;
+      continuation = 0;
+    } else if (first >= 0 && row.cells.length === 1 && !TABLE_CAPTION.test(row.text) &&
+               continuation < TABLE_CONFIG.maxContinuationLines) {
+      continuation++;
+    } else {
+      close();
+    }
+  });
+  close();
+  return runs;
+}
+
+/**
+ * Column boundaries of a table: x positions inside a gap between cells that
+ * most multi-cell rows leave clear (a cell spanning columns in a few rows,
+ * like a section label, doesn't merge them)
+ */
+function columnBoundaries(rows: Row[]): number[] {
+  const tableRows = rows.filter(r => r.cells.length >= 2);
+  const isClear = (row: Row, x: number) => !row.cells.some(c => c.x < x && x < c.end);
+
+  // Overlapping gaps of different rows are narrowed to their common part
+  const gaps: Array<{ x: number; end: number }> = [];
+  const rowGaps = tableRows
+    .flatMap(r => r.cells.slice(1).map((cell, i) => ({ x: r.cells[i].end, end: cell.x })))
+    .sort((a, b) => a.x - b.x);
+  for (const gap of rowGaps) {
+    const last = gaps[gaps.length - 1];
+    if (last && gap.x < last.end) {
+      last.x = gap.x;
+      last.end = Math.min(last.end, gap.end);
+    } else {
+      gaps.push({ ...gap });
+    }
+  }
+
+  return gaps
+    .map(gap => (gap.x + gap.end) / 2)
+    .filter(x => tableRows.filter(r => isClear(r, x)).length >= tableRows.length * TABLE_CONFIG.columnAgreement);
+}
+
+/**
+ * Column of a cell: the one its center falls in
+ */
+function columnOf(boundaries: number[], cell: Cell): number {
+  const center = (cell.x + cell.end) / 2;
+  return boundaries.filter(b => b < center).length;
+}
+
+function markdownRow(cells: string[]): string {
+  return `| ${cells.map(c => c.replace(/\|/g, '\\|')).join(' | ')} |`;
+}
+
+/**
+ * Render the rows of a table as Markdown. A row without a first cell is
+ * wrapped text: it joins the row it is closer to (above, or below for
+ * text vertically centered in a taller row)
+ */
+function renderTable(rows: Row[]): string | null {
+  const boundaries = columnBoundaries(rows);
+  const columns = boundaries.length + 1;
+  if (columns < 2) return null;
+
+  const cellsOf = (row: Row) => {
+    const cells = new Array<string>(columns).fill('');
+    for (const cell of row.cells) {
+      const column = columnOf(boundaries, cell);
+      cells[column] = cells[column] ? `${cells[column]} ${cell.text}` : cell.text;
+    }
+    return cells;
+  };
+  const startsRow = (row?: Row) => !!row && row.cells.length >= 2 && !!cellsOf(row)[0];
+  const join = (into: string[], from: string[], prepend: boolean) => {
+    from.forEach((text, i) => {
+      if (text) into[i] = !into[i] ? text : prepend ? `${text} ${into[i]}` : `${into[i]} ${text}`;
+    });
+  };
+
+  const table: string[][] = [];
+  let pending: string[] | null = null;
+  rows.forEach((row, i) => {
+    const cells = cellsOf(row);
+    if (startsRow(row)) {
+      if (pending) join(cells, pending, true);
+      pending = null;
+      table.push(cells);
+      return;
+    }
+    const next = rows[i + 1];
+    const previous = table[table.length - 1];
+    if (!previous || (next && startsRow(next) && row.y - next.y < rows[i - 1].y - row.y)) {
+      if (pending) join(pending, cells, false);
+      else pending = cells;
+    } else {
+      join(previous, cells, false);
+    }
+  });
+
+  // Columns no row has text in (boundaries found twice in one wide gap)
+  const used = table[0].map((_, i) => table.some(cells => cells[i]));
+  table.forEach((cells, i) => { table[i] = cells.filter((_, column) => used[column]); });
+
+  const averageCell = table.flat().reduce((sum, c) => sum + c.length, 0) / Math.max(table.length * table[0].length, 1);
+  if (table.length < TABLE_CONFIG.minRows || table[0].length < 2 ||
+      (table[0].length === 2 && averageCell > TABLE_CONFIG.maxTwoColumnCellLength)) {
+    return null;
+  }
+
+  return [
+    markdownRow(table[0]),
+    markdownRow(table[0].map(() => '---')),
+    ...table.slice(1).map(markdownRow)
+  ].join('\n');
+}
+
+/**
+ * Lay out a page's text items like pdf-parse does (items on the same
+ * baseline are joined, and a new baseline starts a new line), with each
+ * table's items replaced by its caption and Markdown
+ *
+ * @param items - Text items of the page from pdf.js getTextContent()
+ */
+export function layoutPageText(items: TextItem[]): PageLayout {
+  const rows = toRows(items);
+
+  // Tables, and the table each of their items (caption included) belongs to
+  const found: Array<{ caption?: string; markdown: string }> = [];
+  const tableOfItem = new Map<number, number>();
+  for (const run of tableCandidates(rows)) {
+    const markdown = renderTable(rows.slice(run.first, run.last + 1));
+    if (!markdown) continue;
+
+    let first = run.first;
+    for (let i = run.first - 1; i >= Math.max(0, run.first - TABLE_CONFIG.captionLookback); i--) {
+      if (TABLE_CAPTION.test(rows[i].text)) {
+        first = i;
+        break;
+      }
+    }
+    for (const row of rows.slice(first, run.last + 1)) {
+      row.items.forEach(item => tableOfItem.set(item, found.length));
+    }
+    found.push({ caption: first < run.first ? rows[first].text : undefined, markdown });
+  }
+
+  // Lines in content stream order, as pdf-parse renders them
+  const lines: number[][] = [];
+  let lastY: number | undefined;
+  items.forEach((item, i) => {
+    if (lastY === undefined || lastY !== item.transform[5]) lines.push([]);
+    lines[lines.length - 1].push(i);
+    lastY = item.transform[5];
+  });
+
+  // Each table goes where its first item was, between blank lines (where a chunk can end)
+  const out: string[] = [];
+  let length = 0;
+  const emit = (line: string) => {
+    length += (out.length > 0 ? 1 : 0) + line.length;
+    out.push(line);
+  };
+  const tables: PageLayout['tables'] = [];
+  const emitted = new Set<number>();
+  for (const line of lines) {
+    const rest = line.filter(i => !tableOfItem.has(i));
+    if (rest.length > 0) emit(rest.map(i => items[i].str).join(''));
+
+    for (const index of line.filter(i => tableOfItem.has(i)).map(i => tableOfItem.get(i)!)) {
+      if (emitted.has(index)) continue;
+      emitted.add(index);
+      const { caption, markdown } = found[index];
+      if (out.length > 0) emit('');
+      const start = length + (out.length > 0 ? 1 : 0);
+      if (caption) emit(caption);
+      emit(markdown);
+      tables.push({ caption, start, end: length, markdown });
+      emit('');
+    }
+  }
+
+  return { text: out.join('\n'), tables };
+}
@@ -0,0 +1,255 @@
+/**
+ * Profile Store
+ * Project profiles (certification basis) on the configured storage adapter
+ *
+ * A session with a profile is answered against that basis: the classifier only
+ * routes to the profile's parts, pinned parts are read from eCFR at their
+ * amendment level, and preferred ACs are boosted in retrieval.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { StorageAdapter, createStorageAdapter } from "./storageAdapter";
+import { AircraftCategory, CertificationBasisPart, ProjectProfile } from "./types";
+import { QueryClassification } from "./queryClassifier";
+import { isRecord, optionalString, stringList } from "./fieldParsing";
+
+/**
+ * Configuration
+ */
+const PROFILE_CONFIG = {
+  containerName: 'profiles',
+  maxProfiles: 200,
+};
+
+/**
+ * Display names for aircraft categories
+ */
+export const AIRCRAFT_CATEGORY_LABELS: Record<AircraftCategory, string> = {
+  normal_airplane: 'Normal category airplane (Part 23)',
+  transport_airplane: 'Transport category airplane (Part 25)',
+  normal_rotorcraft: 'Normal category rotorcraft (Part 27)',
+  transport_rotorcraft: 'Transport category rotorcraft (Part 29)',
+  engine: 'Aircraft engine (Part 33)',
+  propeller: 'Propeller (Part 35)',
+};
+
+/**
+ * Check that a value is a known aircraft category
+ */
+function isAircraftCategory(value: unknown): value is AircraftCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(AIRCRAFT_CATEGORY_LABELS, value);
+}
+
+/**
+ * Validate and normalize a profile from a request body
+ * @returns The profile fields, or an error message
+ */
+export function normalizeProfile(input: unknown): { profile?: Omit<ProjectProfile, 'id' | 'createdAt' | 'updatedAt'>; error?: string } {
+  if (!isRecord(input)) {
+    return { error: 'Profile is required' };
+  }
+  const name = optionalString(input.name);
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  const { aircraftCategory } = input;
+  if (!isAircraftCategory(aircraftCategory)) {
+    return { error: `aircraftCategory must be one of: ${Object.keys(AIRCRAFT_CATEGORY_LABELS).join(', ')}` };
+  }
+  const entries: unknown[] = Array.isArray(input.basis) ? input.basis : [];
+  if (entries.length === 0) {
+    return { error: 'basis must list at least one CFR part' };
+  }
+
+  const basis: CertificationBasisPart[] = [];
+  for (const entry of entries) {
+    const fields = isRecord(entry) ? entry : {};
+    const part = Number(fields.part);
+    if (!Number.isInteger(part) || part <= 0) {
+      return { error: `Invalid basis part: ${JSON.stringify(fields.part)}` };
+    }
+    const requestedAmendment = optionalString(fields.amendment);
+    const amendment = requestedAmendment?.replace(/^(?:Amendment|Amdt\.?)\s*/i, '') || undefined;
+    if (amendment && !/^\d{1,3}-\d+$/.test(amendment)) {
+      return { error: `Invalid amendment for Part ${part}: ${requestedAmendment} (e.g. "25-100")` };
+    }
+    const asOf = optionalString(fields.asOf);
+    if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+      return { error: `Invalid date for Part ${part}: ${asOf} (YYYY-MM-DD)` };
+    }
+    if (!basis.some(b => b.part === part)) {
+      basis.push({ part, amendment, asOf: amendment ? undefined : asOf });
+    }
+  }
+
+  return {
+    profile: {
+      name,
+      aircraftCategory,
+      basis,
+      specialConditions: stringList(input.specialConditions),
+      preferredACs: stringList(input.preferredACs).map(ac => ac.replace(/^AC\s*/i, ''))
+    }
+  };
+}
+
+/**
+ * Describe a profile's certification basis, e.g. "Part 25 (Amendment 25-100), Part 33"
+ */
+export function describeBasis(profile: ProjectProfile): string {
+  return profile.basis
+    .map(b => `Part ${b.part}${b.amendment ? ` (Amendment ${b.amendment})` : b.asOf ? ` (as of ${b.asOf})` : ''}`)
+    .join(', ');
+}
+
+/**
+ * Describe a profile for prompts (classifier and answer)
+ */
+export function describeProfile(profile: ProjectProfile): string {
+  let text = `Project: ${profile.name}
+- Aircraft category: ${AIRCRAFT_CATEGORY_LABELS[profile.aircraftCategory]}
+- Certification basis: 14 CFR ${describeBasis(profile)}`;
+  if (profile.specialConditions && profile.specialConditions.length > 0) {
+    text += `\n- Special conditions: ${profile.specialConditions.join('; ')}`;
+  }
+  if (profile.preferredACs && profile.preferredACs.length > 0) {
+    text += `\n- Preferred advisory circulars: ${profile.preferredACs.map(ac => `AC ${ac}`).join(', ')}`;
+  }
+  return text;
+}
+
+/**
+ * Restrict a classification to the profile's certification basis
+ * Sections the question names explicitly are kept even outside the basis
+ */
+export function applyProfileToClassification(
+  classification: QueryClassification,
+  profile: ProjectProfile,
+  question: string
+): QueryClassification {
+  const parts = profile.basis.map(b => b.part);
+  const explicit = new Set(Array.from(question.matchAll(/\b(\d{2,3}\.\d+)\b/g)).map(m => m[1]));
+
+  const cfrSections = classification.cfrSections.filter(s => parts.includes(parseInt(s, 10)) || explicit.has(s));
+  const sectionParts = cfrSections.map(s => parseInt(s, 10));
+  const classifiedParts = classification.cfrParts.filter(p => parts.includes(p));
+  const cfrParts = Array.from(new Set([...classifiedParts, ...sectionParts]));
+
+  return {
+    ...classification,
+    cfrSections,
+    // Nothing classified within the basis: search the whole basis
+    cfrParts: classifiedParts.length > 0 ? cfrParts : Array.from(new Set([...parts, ...sectionParts]))
+  };
+}
+
+/**
+ * Project profile store on the configured storage adapter
+ * (in-memory for local development unless STORAGE_BACKEND is set)
+ */
+export class ProfileStore {
+  private storage: StorageAdapter | null;
+  private enabled: boolean = true;
+
+  constructor(storage?: StorageAdapter | null) {
+    this.storage = storage !== undefined ? storage : createStorageAdapter(PROFILE_CONFIG.containerName, 'memory');
+    if (!this.storage) {
+      console.warn('⚠️  ProfileStore: No storage configured, profiles disabled');
+      this.enabled = false;
+    } else {
+      console.log(`✅ ProfileStore initialized: ${PROFILE_CONFIG.containerName} (${this.storage.name})`);
+    }
+  }
+
+  /**
+   * Get a profile by ID
+   */
+  async get(id: string): Promise<ProjectProfile | null> {
+    if (!this.enabled || !id) return null;
+
+    try {
+      const object = await this.storage!.get(`${id}.json`);
+      return object ? JSON.parse(object.content) as ProjectProfile : null;
+    } catch (error) {
+      console.error(`❌ Error loading profile ${id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List all profiles, most recently updated first
+   */
+  async list(): Promise<ProjectProfile[]> {
+    if (!this.enabled) return [];
+
+    try {
+      const keys = (await this.storage!.list()).filter(k => k.endsWith('.json')).slice(0, PROFILE_CONFIG.maxProfiles);
+      const profiles = await Promise.all(keys.map(key => this.get(key.replace(/\.json$/, ''))));
+      return profiles
+        .filter((p): p is ProjectProfile => p !== null)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.error('❌ Error listing profiles:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a profile, or update it when an ID is given
+   */
+  async save(
+    fields: Omit<ProjectProfile, 'id' | 'createdAt' | 'updatedAt'>,
+    id?: string
+  ): Promise<ProjectProfile> {
+    if (!this.enabled) {
+      throw new Error('Profile storage is not configured');
+    }
+
+    const existing = id ? await this.get(id) : null;
+    const profile: ProjectProfile = {
+      ...fields,
+      id: existing?.id || uuidv4(),
+      createdAt: existing?.createdAt || Date.now(),
+      updatedAt: Date.now()
+    };
+
+    await this.storage!.put(`${profile.id}.json`, JSON.stringify(profile), {
+      createdat: profile.createdAt.toString(),
+      updatedat: profile.updatedAt.toString()
+    });
+    console.log(`📁 Profile saved: ${profile.name} (${profile.id})`);
+
+    return profile;
+  }
+
+  /**
+   * Delete a profile
+   */
+  async delete(id: string): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await this.storage!.delete(`${id}.json`);
+      console.log(`📁 Profile deleted: ${id}`);
+    } catch (error) {
+      console.error(`❌ Error deleting profile ${id}:`, error);
+    }
+  }
+
+  /**
+   * Check if storage is enabled
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+}
+
+// Singleton instance
+let profileStoreInstance: ProfileStore | null = null;
+
+export function getProfileStore(): ProfileStore {
+  if (!profileStoreInstance) {
+    profileStoreInstance = new ProfileStore();
+  }
+  return profileStoreInstance;
+}
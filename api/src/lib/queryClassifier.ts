@@ -4,7 +4,9 @@
  * Routes queries to appropriate data sources (eCFR, DRS)
  */
 
-import Anthropic from "@anthropic-ai/sdk";
+import { LLMProvider } from "./llmProvider";
+import { ProjectProfile } from "./types";
+import { describeProfile } from "./profileStore";
 
 /**
  * Classification result for a query
@@ -114,24 +116,38 @@ IMPORTANT for bird strike questions:
 
 Respond ONLY with valid JSON matching the exact schema. No markdown, no explanation outside JSON.`;
 
+/**
+ * Classifier instructions for a project's certification basis
+ */
+function profileRoutingPrompt(profile: ProjectProfile): string {
+  return `PROJECT CERTIFICATION BASIS - the user is working on this project:
+${describeProfile(profile)}
+
+Route ONLY to the parts in the certification basis unless the question explicitly names another part or section.
+Do NOT add parallel sections for other aircraft categories (e.g. no Part 23 sections for a Part 25 project).
+The aircraft category is known, so do not ask for clarification about which part or category applies.`;
+}
+
 /**
  * Classify a user query to determine routing
  * 
  * @param question - User's question
- * @param anthropic - Anthropic client instance
+ * @param llm - LLM provider (uses the classifier model)
+ * @param profile - Project profile whose certification basis scopes the routing
  * @returns Classification result with routing information
  */
 export async function classifyQuery(
   question: string,
-  anthropic: Anthropic
+  llm: LLMProvider,
+  profile?: ProjectProfile | null
 ): Promise<QueryClassification> {
   console.log(`🏷️  Classifying query: "${question.substring(0, 50)}..."`);
   
   try {
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 500,
-      system: CLASSIFIER_SYSTEM_PROMPT,
+    const text = await llm.complete({
+      role: 'classifier',
+      maxTokens: 500,
+      system: profile ? `${CLASSIFIER_SYSTEM_PROMPT}\n\n${profileRoutingPrompt(profile)}` : CLASSIFIER_SYSTEM_PROMPT,
       messages: [{
         role: "user",
         content: `Classify this aviation regulatory question:
@@ -155,14 +171,13 @@ Respond with JSON only:
       }]
     });
     
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      console.warn('⚠️  Classifier returned non-text response');
+    if (!text) {
+      console.warn('⚠️  Classifier returned empty response');
       return DEFAULT_CLASSIFICATION;
     }
     
     // Parse JSON response
-    const classification = parseClassifierResponse(content.text);
+    const classification = parseClassifierResponse(text);
     
     console.log(`✅ Classification: intent=${classification.intent}, parts=[${classification.cfrParts}], sections=[${classification.cfrSections}], confidence=${classification.confidence}`);
     
@@ -271,3 +286,75 @@ export function quickClassifyDocumentRequest(query: string): { isDocRequest: boo
   
   return { isDocRequest: false };
 }
+
+/**
+ * Point in time referenced by a question or request
+ */
+export interface PointInTimeReference {
+  requested: string;    // Normalized, e.g. "2010-01-01" or "Amendment 25-100"
+  date?: string;        // YYYY-MM-DD
+  amendment?: string;   // e.g. "25-100"
+}
+
+export const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * Format a date as YYYY-MM-DD, or null if it isn't a real calendar date
+ */
+export function toISODate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Regex-based extraction of a historical point in time
+ * e.g. "what did § 25.1309 say on 2010-01-01", "as of March 5, 2015", "at Amendment 25-100"
+ *
+ * Dates need a cue ("on", "as of", "in effect on", ...) unless requireCue is false,
+ * since AD numbers (AD 2023-01-05) look like dates
+ */
+export function extractPointInTime(text: string, requireCue: boolean = true): PointInTimeReference | null {
+  // Amendment level: "Amendment 25-100", "Amdt. 25-100"
+  const amendmentMatch = text.match(/\b(?:Amendment|Amdt\.?)\s+(\d{1,3}-\d+)\b/i);
+  if (amendmentMatch) {
+    return { requested: `Amendment ${amendmentMatch[1]}`, amendment: amendmentMatch[1] };
+  }
+
+  const cue = requireCue ? String.raw`\b(?:on|as of|in effect on|effective|dated)\s+(?:the\s+)?` : String.raw`(?:^|\s)`;
+  const month = String.raw`(${MONTHS.join('|')}|(?:jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec)\.?)`;
+
+  // ISO date: 2010-01-01
+  const isoMatch = text.match(new RegExp(`${cue}(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'i'));
+  if (isoMatch) {
+    const date = toISODate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+    if (date) return { requested: date, date };
+  }
+
+  // Written dates: "January 1, 2010", "1 January 2010"
+  const monthFirst = text.match(new RegExp(`${cue}${month}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`, 'i'));
+  const dayFirst = text.match(new RegExp(`${cue}(\\d{1,2})\\s+${month}\\s+(\\d{4})\\b`, 'i'));
+  const written = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst
+      ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] }
+      : null;
+  if (written) {
+    const monthIndex = MONTHS.findIndex(m => m.startsWith(written.month.toLowerCase().replace('.', '').slice(0, 3)));
+    const date = toISODate(Number(written.year), monthIndex + 1, Number(written.day));
+    if (date) return { requested: date, date };
+  }
+
+  return null;
+}
+
+/**
+ * Regex check for questions about how a regulation changed
+ * e.g. "what changed in § 23.2150", "how has 25.1309 been amended", "changes to Part 25 Subpart F"
+ */
+export function isChangeQuestion(query: string): boolean {
+  return /\b(?:what|which|how)\b[^?]*\b(?:changed?|changes|amended|revised|different|differ)\b/i.test(query) ||
+    /\b(?:changes?|amendments?|revisions?|differences?)\s+(?:to|in|of|between)\b/i.test(query);
+}
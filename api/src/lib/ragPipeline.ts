@@ -1,18 +1,27 @@
 // Load polyfills first
 import "./polyfills";
 
-import Anthropic from "@anthropic-ai/sdk";
-import { Document, RAGResponse, CFRSource, DRSSource, StoredConversation } from "./types";
-import { createAnthropicClient } from "./anthropic";
+import { Document, RAGResponse, CFRSource, CFRSectionOrigin, CFRReferenceGraph, RevisionWarning, DRSSource, StoredConversation, RAGStreamEvent, GroundingReport, AppliedRetrievalFilter, PointInTime, ProjectProfile } from "./types";
+import { LLMProvider, getLLMProvider } from "./llmProvider";
 import { DRSClient, DRSDocument } from "./drsClient";
 import { evaluateSearchResults, extractDocumentType, SearchDocument as EvalSearchDocument } from "./searchEvaluator";
-import { classifyQuery, QueryClassification, quickClassifyDocumentRequest } from "./queryClassifier";
-import { ECFRClient, ECFRSection, getECFRClient } from "./ecfrClient";
+import { classifyQuery, QueryClassification, quickClassifyDocumentRequest, extractPointInTime, isChangeQuestion } from "./queryClassifier";
+import { ECFRClient, ECFRSection, getECFRClient, ECFR_HISTORY_START } from "./ecfrClient";
 import { DocumentCache, getDocumentCache } from "./documentCache";
-import { getConversationStore } from "./conversationStore";
-import { hybridSearch, indexDocuments, ensureIndexExists, hasVectorSearch, FADocument, getIndexedDocumentNumbers } from "./vectorSearch";
+import { hybridSearch, indexDocuments, ensureIndexExists, hasVectorSearch, FADocument, SearchResult } from "./vectorSearch";
 import { hasEmbeddingService } from "./embeddings";
-import { enqueueForIndexing, hasIndexQueue } from "./indexQueue";
+import { enqueueForIndexing, hasIndexQueue, createQueueMessage, processQueueMessage } from "./indexQueue";
+import { resolveCitations, formatLocation } from "./citations";
+import { formatParagraphs, paragraphPaths } from "./ecfrXmlParser";
+import { verifyGrounding, isGroundingEnabled } from "./groundingVerifier";
+import { buildFilterLadder, applyClassificationBoosts } from "./retrievalFilters";
+import { buildContext } from "./contextBuilder";
+import { compareCFR, formatDiffForContext } from "./cfrDiff";
+import { applyProfileToClassification, describeProfile } from "./profileStore";
+import { Reranker, createReranker, selectContext, isRerankingEnabled, getRerankConfig } from "./reranker";
+import { expandCrossReferences, isCrossReferencingEnabled, formatReferenceId } from "./crossReferences";
+import { findRevisionWarnings, revisionMetadata } from "./documentLineage";
+import { getIndexedVersions, needsIndexing } from "./documentVersions";
 
 /**
  * DRS Search Configuration
@@ -48,6 +57,17 @@ const PROGRESSIVE_INDEX_CONFIG = {
   batchSize: parseInt(process.env.PROGRESSIVE_BATCH_SIZE || '4'), // Docs to download per query
 };
 
+/**
+ * eCFR Search Configuration
+ * Full-text search discovers sections the classifier's section mappings miss
+ */
+const ECFR_SEARCH_CONFIG = {
+  enabled: process.env.ECFR_SEARCH_ENABLED !== 'false', // Enabled by default
+  always: process.env.ECFR_SEARCH_ALWAYS === 'true', // Also search when the classifier proposed sections
+  maxParts: 3, // Classified parts searched per question
+  maxSections: parseInt(process.env.ECFR_SEARCH_MAX_SECTIONS || '3'), // Search hits fetched per question
+};
+
 /**
  * Clarity check configuration
  * Stage 1: Pre-fetch (classifier confidence)
@@ -59,6 +79,26 @@ const CLARITY_CONFIG = {
   minDocsForGoodAnswer: 1,        // Below this, results may be insufficient
 };
 
+/**
+ * Build an eCFR full-text search query from the classification
+ * Uses the classified topics (e.g., "stall speed"); falls back to the question
+ * without section references and filler words
+ */
+function buildECFRSearchQuery(question: string, classification: QueryClassification): string {
+  if (classification.topics && classification.topics.length > 0) {
+    return classification.topics.slice(0, 3).join(' ');
+  }
+
+  const stopWords = new Set(['what', 'which', 'when', 'where', 'does', 'is', 'are', 'the', 'a', 'an', 'for', 'of', 'to', 'in', 'on', 'and', 'or', 'how', 'do', 'i', 'my', 'with', 'about', 'part', 'cfr', 'regulation', 'requirements', 'required']);
+  return question
+    .replace(/§?\s*\d+\.\d+/g, ' ')
+    .toLowerCase()
+    .split(/[^a-z0-9-]+/)
+    .filter(word => word.length > 1 && !stopWords.has(word))
+    .slice(0, 8)
+    .join(' ');
+}
+
 /**
  * Build DRS keyword search terms from CFR classification
  * Uses phrases that commonly appear in AC content like "14 CFR Part 23"
@@ -87,12 +127,14 @@ function buildDRSKeywords(classification: QueryClassification): string[] {
 }
 
 export class AircraftCertificationRAG {
-  private anthropic: Anthropic;
+  private llm: LLMProvider;
   private ecfrClient: ECFRClient;
   private cache: DocumentCache;
+  private reranker: Reranker;
 
-  constructor() {
-    this.anthropic = createAnthropicClient();
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
+    this.reranker = createReranker(llm);
     this.ecfrClient = getECFRClient();
     this.cache = getDocumentCache();
   }
@@ -100,12 +142,14 @@ export class AircraftCertificationRAG {
   /**
    * Format retrieved documents for Claude
    * Ported from Python: faa-search.py lines 124-133
+   * Blocks are numbered from 1 so the answer can cite them as [n]
    */
   formatContext(documents: Document[]): string {
     let context = "# Relevant FAA Regulations and Guidance Material\n\n";
 
-    for (const doc of documents) {
-      context += `## Source: ${doc.title}\n`;
+    for (const [i, doc] of documents.entries()) {
+      const location = formatLocation(doc);
+      context += `## [${i + 1}] Source: ${doc.title}${location ? ` (${location})` : ''}\n`;
       context += `${doc.chunk}\n\n`;
       context += "---\n\n";
     }
@@ -116,12 +160,40 @@ export class AircraftCertificationRAG {
   /**
    * Main RAG pipeline: classify → parallel fetch → generate answer
    * Now supports multi-turn conversations with clarifying questions
+   * 
+   * When onEvent is provided, stage events are emitted as each step completes
+   * and the answer is streamed token by token (used by /api/ask/stream)
+   *
+   * When asOf is given (or the question names a date or amendment), CFR text is
+   * read as it stood at that point in time instead of the current text
+   *
+   * With a project profile, routing is limited to the profile's certification basis
+   * and its pinned parts are read at their amendment level
+   *
+   * Pinned sections (e.g. "Ask about this section" in the regulation browser) are
+   * always fetched and placed first in the context
+   *
+   * Once signal is aborted (the streaming client went away), the next event and
+   * the answer generation throw its abort reason instead of carrying on
    */
   async askQuestion(
     question: string, 
-    options: { sessionId?: string; isClarifying?: boolean; conversation?: StoredConversation | null } = {}
+    options: {
+      sessionId?: string;
+      isClarifying?: boolean;
+      conversation?: StoredConversation | null;
+      onEvent?: (event: RAGStreamEvent) => void;
+      signal?: AbortSignal;
+      asOf?: string;
+      profile?: ProjectProfile | null;
+      pinnedSections?: string[];
+    } = {}
   ): Promise<RAGResponse> {
-    const { sessionId, isClarifying = false, conversation = null } = options;
+    const { sessionId, isClarifying = false, conversation = null, onEvent, signal, asOf, profile = null, pinnedSections = [] } = options;
+    const emit = (event: RAGStreamEvent) => {
+      signal?.throwIfAborted();
+      onEvent?.(event);
+    };
     
     // Step 1: Check for quick document requests (e.g., "show me AC 23-8C")
     const quickDoc = quickClassifyDocumentRequest(question);
@@ -130,6 +202,14 @@ export class AircraftCertificationRAG {
       return { ...response, sessionId };
     }
 
+    // Step 1b: Historical lookup - read CFR text as of a date or amendment
+    const { pointInTime, unresolved: unresolvedPointInTime } = await this.resolvePointInTime(question, asOf);
+    
+    // Step 1c: Amendment dates of the project's certification basis (part -> date)
+    const { dates: basisDates, unresolved: unresolvedBasis } = profile
+      ? await this.resolveBasisDates(profile)
+      : { dates: new Map<number, string>(), unresolved: [] };
+
     // Step 2: Classify the query to understand intent and route to correct sources
     let classification: QueryClassification | null = null;
     let classificationUsed = false;
@@ -140,9 +220,19 @@ export class AircraftCertificationRAG {
       const classifyQuestion = conversation && conversation.turns.length > 0
         ? this.buildQuestionWithContext(question, conversation)
         : question;
-      classification = await classifyQuery(classifyQuestion, this.anthropic);
+      classification = await classifyQuery(classifyQuestion, this.llm, profile);
+      if (profile) {
+        classification = applyProfileToClassification(classification, profile, question);
+      }
       classificationUsed = true;
       console.log(`📋 Classification: intent=${classification.intent}, cfrParts=${classification.cfrParts?.join(',') || 'none'}, confidence=${classification.confidence}, needsClarification=${classification.needsClarification}`);
+      emit({
+        type: 'stage',
+        stage: 'classified',
+        message: `Classified as ${classification.intent.replace(/_/g, ' ')}`,
+        count: classification.cfrSections.length,
+        items: classification.cfrSections
+      });
     } catch (error) {
       console.warn('⚠️ Classification failed, using fallback logic:', error);
     }
@@ -151,10 +241,12 @@ export class AircraftCertificationRAG {
     // Only ask for clarification if:
     // - Classifier says it needs clarification AND
     // - This is NOT already a response to a clarifying question AND
-    // - Confidence is below threshold
+    // - Confidence is below threshold AND
+    // - No section was pinned by the user
     if (
       classification?.needsClarification && 
       !isClarifying && 
+      pinnedSections.length === 0 &&
       classification.confidence < CLARITY_CONFIG.minConfidenceForClear
     ) {
       console.log(`🤔 Stage 1: Query needs clarification (confidence: ${classification.confidence})`);
@@ -177,14 +269,55 @@ export class AircraftCertificationRAG {
     let vectorDocs: Document[] = [];
     let vectorSources: { cfrSources: CFRSource[], drsSources: DRSSource[] } = { cfrSources: [], drsSources: [] };
     let vectorSearchUsed = false;
+    let retrievalFilter: AppliedRetrievalFilter | undefined;
     
     if (VECTOR_SEARCH_CONFIG.enabled && hasVectorSearch() && hasEmbeddingService()) {
       try {
         console.log('🔍 Attempting vector search...');
-        const vectorResults = await hybridSearch(question, { top: VECTOR_SEARCH_CONFIG.maxResults });
-        
-        // Filter by minimum score threshold
-        const relevantResults = vectorResults.filter(r => (r.score || 0) >= VECTOR_SEARCH_CONFIG.minScoreThreshold);
+
+        // Fetch a larger candidate pool when results will be reranked
+        const searchTop = isRerankingEnabled()
+          ? Math.max(VECTOR_SEARCH_CONFIG.maxResults, getRerankConfig().candidates)
+          : VECTOR_SEARCH_CONFIG.maxResults;
+
+        // Try classification-derived filters first, relaxing them when too few hits come back
+        let relevantResults: SearchResult[] = [];
+        const ladder = buildFilterLadder(classification);
+        for (let attempt = 0; attempt < ladder.length; attempt++) {
+          const step = ladder[attempt];
+          const vectorResults = await hybridSearch(question, { top: searchTop, filter: step.filter });
+
+          // Filter by minimum score threshold
+          relevantResults = vectorResults.filter(r => (r.score || 0) >= VECTOR_SEARCH_CONFIG.minScoreThreshold);
+          retrievalFilter = {
+            level: step.level,
+            filter: step.filter,
+            description: step.description,
+            hits: relevantResults.length,
+            attempts: attempt + 1
+          };
+
+          if (relevantResults.length >= VECTOR_SEARCH_CONFIG.minResultsRequired) break;
+          if (attempt < ladder.length - 1) {
+            console.log(`🔍 Filter '${step.level}' found ${relevantResults.length} docs, relaxing to '${ladder[attempt + 1].level}'`);
+          }
+        }
+        console.log(`🔍 Vector search filter: ${retrievalFilter!.description} (${retrievalFilter!.hits} hits, ${retrievalFilter!.attempts} attempt(s))`);
+
+        // Indexed CFR chunks are current text - historical lookups and parts pinned by
+        // the project profile fetch CFR text from eCFR instead
+        if (pointInTime || basisDates.size > 0) {
+          relevantResults = relevantResults.filter(r => {
+            const { documentType, cfrPart } = r.document;
+            if (documentType !== 'eCFR') return true;
+            if (pointInTime) return false;
+            // A chunk without a part can't be one of the pinned parts
+            return typeof cfrPart !== 'number' || !basisDates.has(cfrPart);
+          });
+        }
+
+        // Boost results whose metadata matches the classification (and the profile's preferred ACs)
+        relevantResults = applyClassificationBoosts(relevantResults, classification, profile?.preferredACs);
         
         if (relevantResults.length >= VECTOR_SEARCH_CONFIG.minResultsRequired) {
           console.log(`✅ Vector search found ${relevantResults.length} relevant docs (scores: ${relevantResults.map(r => r.score?.toFixed(2)).join(', ')})`);
@@ -209,7 +342,23 @@ export class AircraftCertificationRAG {
             vectorDocs.push({
               title: doc.title,
               chunk: doc.content,
-              score: score
+              score: score,
+              docType: doc.documentType,
+              docNumber: doc.documentNumber,
+              cfrPart: doc.cfrPart,
+              cfrSection: doc.cfrSection,
+              chunkIndex: doc.chunkIndex,
+              // eCFR chunks link to the section; DRS chunks to their PDF
+              url: doc.source?.startsWith('http') ? doc.source : undefined,
+              pageStart: doc.pageStart,
+              pageEnd: doc.pageEnd,
+              // Chunks indexed before offsets were stored read as null in Azure
+              startChar: doc.startChar ?? undefined,
+              endChar: doc.endChar ?? undefined,
+              headingPath: doc.headingPath,
+              revision: doc.revision,
+              changeNumber: doc.changeNumber,
+              status: doc.status
             });
             
             // Track sources by type
@@ -232,6 +381,13 @@ export class AircraftCertificationRAG {
         } else {
           console.log(`⚠️ Vector search found only ${relevantResults.length} docs above threshold (need ${VECTOR_SEARCH_CONFIG.minResultsRequired}), falling back to live APIs`);
         }
+        emit({
+          type: 'stage',
+          stage: 'vector_hits',
+          message: `Found ${vectorDocs.length} indexed documents (${retrievalFilter?.description || 'no filter'})`,
+          count: vectorDocs.length,
+          items: vectorDocs.map(d => d.title)
+        });
       } catch (error) {
         console.warn('⚠️ Vector search failed, falling back to live APIs:', error);
       }
@@ -248,29 +404,80 @@ export class AircraftCertificationRAG {
     let drsDocs: Document[] = [];
     let progressiveDocs: Document[] = [];
     
-    // ALWAYS fetch CFRs when classifier identifies specific sections
+    // Discover sections with eCFR full-text search when the classifier proposed none
+    const searchedSections = await this.searchECFRSections(question, classification);
+    if (searchedSections.length > 0) {
+      emit({
+        type: 'stage',
+        stage: 'ecfr_searched',
+        message: `eCFR search found ${searchedSections.length} more sections`,
+        count: searchedSections.length,
+        items: searchedSections
+      });
+    }
+
+    // Where each section came from (pinned first, then classifier, then search)
+    const sectionOrigins = new Map<string, CFRSectionOrigin>();
+    const addOrigin = (ref: string, origin: CFRSectionOrigin) => {
+      const normalized = ref.match(/\d+\.\d+/)?.[0];
+      if (normalized && !sectionOrigins.has(normalized)) sectionOrigins.set(normalized, origin);
+    };
+    pinnedSections.forEach(ref => addOrigin(ref, 'pinned'));
+    (classification?.cfrSections || []).forEach(ref => addOrigin(ref, 'classifier'));
+    searchedSections.forEach(ref => addOrigin(ref, 'search'));
+
+    // ALWAYS fetch CFRs when classifier identifies specific sections (or search/the user found them)
     // CFRs are authoritative regulatory text and should always be included
-    if (classification?.cfrSections && classification.cfrSections.length > 0) {
-      console.log(`📡 Fetching ${classification.cfrSections.length} CFR sections identified by classifier...`);
-      ecfrDocs = await this.fetchFromECFR(classification);
+    const sectionRefs = Array.from(sectionOrigins.keys());
+    if (sectionRefs.length > 0) {
+      const fromSearch = sectionRefs.filter(ref => sectionOrigins.get(ref) === 'search').length;
+      console.log(`📡 Fetching ${sectionRefs.length} CFR sections (${sectionRefs.length - fromSearch} classified/pinned, ${fromSearch} from eCFR search)...`);
+      ecfrDocs = await this.fetchFromECFR(sectionRefs, pointInTime?.asOf, basisDates);
+      emit({
+        type: 'stage',
+        stage: 'ecfr_fetched',
+        message: `Fetched ${ecfrDocs.length} eCFR sections${pointInTime ? ` as of ${pointInTime.asOf}` : ''}`,
+        count: ecfrDocs.length,
+        items: ecfrDocs.map(s => `§ ${s.part}.${s.section}`)
+      });
       
-      // Index newly fetched CFRs for future queries
-      if (ecfrDocs.length > 0 && VECTOR_SEARCH_CONFIG.indexNewDocuments && hasVectorSearch() && hasEmbeddingService()) {
-        this.indexFetchedDocuments(ecfrDocs, []).catch(err => 
+      // Index newly fetched CFRs for future queries (current text only)
+      const currentSections = ecfrDocs.filter(s => !s.asOf);
+      if (currentSections.length > 0 && VECTOR_SEARCH_CONFIG.indexNewDocuments && hasVectorSearch() && hasEmbeddingService()) {
+        this.indexFetchedSections(currentSections).catch(err => 
           console.warn('⚠️ Background indexing of CFRs failed:', err)
         );
       }
     }
     
+    // Step 5a: "What changed in § X" - compare each section with its previous version (or the asOf date)
+    let changeDocs: Document[] = [];
+    if (classification?.cfrSections && classification.cfrSections.length > 0 && isChangeQuestion(question)) {
+      changeDocs = await this.fetchSectionChanges(classification, pointInTime?.asOf);
+      emit({
+        type: 'stage',
+        stage: 'compared',
+        message: `Compared ${changeDocs.length} sections with earlier versions`,
+        count: changeDocs.length,
+        items: changeDocs.map(d => `§ ${d.cfrPart}.${d.cfrSection}`)
+      });
+    }
+    
     if (!vectorSearchUsed || vectorDocs.length < VECTOR_SEARCH_CONFIG.minResultsRequired) {
       console.log('📡 Fetching from live APIs (DRS)...');
-      drsDocs = await this.fetchFromDRSByClassification(question, classification);
+      const drsFetch = await this.fetchFromDRSByClassification(question, classification);
+      drsDocs = drsFetch.documents;
+      emit({
+        type: 'stage',
+        stage: 'drs_fetched',
+        message: `Fetched ${drsDocs.length} DRS documents`,
+        count: drsDocs.length,
+        items: drsDocs.map(d => d.title)
+      });
       
       // Step 5b: Index newly fetched DRS documents for future queries
-      if (drsDocs.length > 0 && VECTOR_SEARCH_CONFIG.indexNewDocuments && hasVectorSearch() && hasEmbeddingService()) {
-        this.indexFetchedDocuments([], drsDocs).catch(err => 
-          console.warn('⚠️ Background indexing failed:', err)
-        );
+      if (drsFetch.fetched.length > 0 && VECTOR_SEARCH_CONFIG.indexNewDocuments && hasVectorSearch() && hasEmbeddingService()) {
+        this.indexDRSDocuments(drsFetch.fetched);
       }
     } else {
       console.log('✅ Using vector search results');
@@ -285,8 +492,8 @@ export class AircraftCertificationRAG {
 
     // Combine all documents, prioritizing by source authority
     let allDocs: Document[] = [];
-    const cfrSources: CFRSource[] = [];
-    const drsSources: DRSSource[] = [];
+    let cfrSources: CFRSource[] = [];
+    let drsSources: DRSSource[] = [];
     
     // First: Add vector search results (already filtered by relevance)
     if (vectorSearchUsed && vectorDocs.length > 0) {
@@ -310,25 +517,71 @@ export class AircraftCertificationRAG {
       }
     }
     
+    // Then: changes between versions of the sections asked about
+    allDocs = allDocs.concat(changeDocs);
+    
     // Then: eCFR sections from live API (highest authority for regulations)
+    const pinnedDocs: Document[] = [];
     for (const section of ecfrDocs) {
-      allDocs.push({
-        title: `14 CFR § ${section.part}.${section.section} - ${section.sectionTitle}`,
-        chunk: section.content,
-        score: 1.0
-      });
-      cfrSources.push({
-        title: 14,
-        part: section.part,
-        section: section.section,
-        sectionTitle: section.sectionTitle,
-        url: section.url
-      });
+      const doc = this.ecfrSectionToDocument(section);
+      allDocs.push(doc);
+      if (pinnedSections.includes(`${section.part}.${section.section}`)) {
+        pinnedDocs.push(doc);
+      }
+      cfrSources.push(this.ecfrSectionToSource(section, sectionOrigins.get(`${section.part}.${section.section}`)));
     }
     
     // Finally: DRS documents from live API (high authority for ACs, ADs)
     allDocs = allDocs.concat(drsDocs);
 
+    // Step 5d: Rerank all candidates against the question and drop irrelevant ones
+    // (concatenation order above only breaks ties; buildContext applies the token budget)
+    if (isRerankingEnabled() && allDocs.length > 0) {
+      const selection = await selectContext(question, allDocs, this.reranker);
+      allDocs = selection.documents;
+
+      emit({
+        type: 'stage',
+        stage: 'reranked',
+        message: `Selected ${allDocs.length} of ${allDocs.length + selection.dropped} sources`,
+        count: allDocs.length,
+        items: allDocs.map(d => d.title)
+      });
+    }
+
+    // Pinned sections always lead the context, even if the reranker dropped them
+    if (pinnedDocs.length > 0) {
+      const pinnedTitles = new Set(pinnedDocs.map(d => d.title));
+      allDocs = [...pinnedDocs, ...allDocs.filter(d => !pinnedTitles.has(d.title))];
+    }
+
+    // Step 5e: Follow CFR citations in the selected documents ("must meet § 25.1309(b)")
+    // Cited sections come last and only get the budget the citing documents leave over
+    let referenceGraph: CFRReferenceGraph | undefined;
+    if (isCrossReferencingEnabled() && allDocs.length > 0) {
+      const expansion = await expandCrossReferences(allDocs, refs => this.fetchFromECFR(refs, pointInTime?.asOf, basisDates));
+      for (const { section, referencedBy } of expansion.sections) {
+        const doc = this.ecfrSectionToDocument(section);
+        allDocs.push({
+          ...doc,
+          title: `${doc.title} [cited by ${referencedBy.map(formatReferenceId).join(', ')}]`,
+          score: 0.5,
+          referencedBy
+        });
+        cfrSources.push(this.ecfrSectionToSource(section, 'reference'));
+      }
+      if (expansion.graph.edges.length > 0) {
+        referenceGraph = expansion.graph;
+        emit({
+          type: 'stage',
+          stage: 'references_fetched',
+          message: `Followed ${expansion.sections.length} cross-referenced sections`,
+          count: expansion.sections.length,
+          items: expansion.sections.map(({ section }) => `§ ${section.part}.${section.section}`)
+        });
+      }
+    }
+
     // Step 6: Handle no results
     if (allDocs.length === 0) {
       // Last resort: try legacy DRS fallback
@@ -347,23 +600,36 @@ export class AircraftCertificationRAG {
         context: "",
         sessionId,
         ecfrUsed: ecfrDocs.length > 0,
-        classificationUsed
+        classificationUsed,
+        retrievalFilter,
+        pointInTime,
+        profileId: profile?.id
       };
     }
 
-    // Step 6: Format context (include conversation history if available)
+    // Step 6: Build context within the token budget (conversation history + trimmed documents)
+    const built = buildContext(question, allDocs, conversation);
+    allDocs = built.documents;
+
+    // Keep only sources whose documents made it into the context
+    const includedSections = new Set(allDocs.filter(d => d.docType === 'eCFR').map(d => `${d.cfrPart}.${d.cfrSection}`));
+    const includedDocNumbers = new Set(allDocs.filter(d => d.docNumber).map(d => d.docNumber));
+    cfrSources = cfrSources.filter(s => includedSections.has(`${s.part}.${s.section}`));
+    drsSources = drsSources.filter(s => includedDocNumbers.has(s.docNumber));
+
     let context = this.formatContext(allDocs);
-    
-    // Add full conversation history to context - agent always has access to complete conversation
-    const conversationStore = getConversationStore();
-    const conversationContext = conversationStore.formatForContext(conversation);
-    
-    if (conversationContext) {
-      context = conversationContext + "\n\n" + context;
+    if (built.history) {
+      context = built.history + "\n\n" + context;
     }
 
     // Step 7: Generate answer with Claude
-    const systemPrompt = this.buildEnhancedSystemPrompt(ecfrDocs.length > 0, drsDocs.length > 0);
+    const systemPrompt = this.buildEnhancedSystemPrompt(ecfrDocs.length > 0, drsDocs.length > 0, {
+      pointInTime,
+      unresolvedPointInTime,
+      unresolvedBasis,
+      hasChanges: changeDocs.length > 0,
+      profile
+    });
 
     const userMessage = `${context}
 
@@ -371,17 +637,40 @@ User Question: ${question}
 
 Please answer based on the FAA regulations and guidance materials provided above.`;
 
-    console.log("🤖 Generating answer with Claude...");
+    console.log(`🤖 Generating answer (${this.llm.name})...`);
+    emit({
+      type: 'stage',
+      stage: 'generating',
+      message: `Generating answer from ${allDocs.length} sources`,
+      count: allDocs.length
+    });
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 2048,
-        system: systemPrompt,
-        messages: [{ role: "user", content: userMessage }]
-      });
+      const generated = await this.generateAnswer(systemPrompt, userMessage, onEvent && emit, signal);
+      const { answer, citations } = resolveCitations(generated, allDocs);
+
+      // Step 8: Verify each claim of the answer against the retrieved documents
+      let grounding: GroundingReport | undefined;
+      if (isGroundingEnabled() && answer) {
+        emit({
+          type: 'stage',
+          stage: 'verifying',
+          message: 'Verifying answer against sources'
+        });
+        try {
+          grounding = await verifyGrounding(answer, allDocs, this.llm);
+        } catch (error) {
+          console.warn('⚠️ Grounding verification failed:', error);
+        }
+      }
 
-      const answer = response.content[0].type === "text" ? response.content[0].text : "";
+      // Flag cited ACs and Orders that were superseded or cancelled
+      let revisionWarnings: RevisionWarning[] = [];
+      try {
+        revisionWarnings = await findRevisionWarnings(citations, allDocs);
+      } catch (error) {
+        console.warn('⚠️ Revision check failed:', error);
+      }
 
       return {
         answer,
@@ -392,10 +681,22 @@ Please answer based on the FAA regulations and guidance materials provided above
         ecfrUsed: ecfrDocs.length > 0 || vectorSources.cfrSources.length > 0,
         cfrSources: cfrSources.length > 0 ? cfrSources : undefined,
         drsSources: drsSources.length > 0 ? drsSources : undefined,
+        citations: citations.length > 0 ? citations : undefined,
+        grounding,
         classificationUsed,
-        vectorSearchUsed
+        vectorSearchUsed,
+        retrievalFilter,
+        contextReport: built.report,
+        pointInTime,
+        profileId: profile?.id,
+        referenceGraph,
+        revisionWarnings: revisionWarnings.length > 0 ? revisionWarnings : undefined
       };
     } catch (error) {
+      // Nobody is waiting for the answer
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error("Error generating answer:", error);
       
       // Re-throw rate limit errors so the HTTP handler can return 429
@@ -416,6 +717,31 @@ Please answer based on the FAA regulations and guidance materials provided above
     }
   }
 
+  /**
+   * Generate the answer with the answerer model
+   * Streams text deltas as token events when an event handler is provided
+   */
+  private async generateAnswer(
+    systemPrompt: string,
+    userMessage: string,
+    onEvent?: (event: RAGStreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const request = {
+      role: 'answerer' as const,
+      maxTokens: 2048,
+      system: systemPrompt,
+      messages: [{ role: 'user' as const, content: userMessage }],
+      signal
+    };
+
+    if (!onEvent) {
+      return this.llm.complete(request);
+    }
+
+    return this.llm.stream(request, (text) => onEvent({ type: 'token', text }));
+  }
+
   /**
    * Build question with conversation context for the classifier
    * Preserves the original question topic and recent exchanges
@@ -518,12 +844,12 @@ Please answer based on the FAA regulations and guidance materials provided above
       }
       if (keywords.length === 0) return [];
 
-      // 3. Get already-indexed document numbers from vector store
-      const indexedDocNumbers = await getIndexedDocumentNumbers();
-      console.log(`📋 Progressive indexing: ${indexedDocNumbers.size} docs already indexed`);
+      // 3. Get already-indexed documents (and the DRS version they were indexed from)
+      const indexedVersions = await getIndexedVersions();
+      console.log(`📋 Progressive indexing: ${indexedVersions.size} docs already indexed`);
 
       // Check if we've hit the cap
-      if (indexedDocNumbers.size >= PROGRESSIVE_INDEX_CONFIG.maxIndexedPerTopic) {
+      if (indexedVersions.size >= PROGRESSIVE_INDEX_CONFIG.maxIndexedPerTopic) {
         console.log(`📊 Index cap reached (${PROGRESSIVE_INDEX_CONFIG.maxIndexedPerTopic}), skipping progressive fetch`);
         return [];
       }
@@ -545,13 +871,10 @@ Please answer based on the FAA regulations and guidance materials provided above
 
       console.log(`📡 DRS metadata check: found ${metadataResults.length} potential documents`);
 
-      // 5. Filter out already-indexed documents
-      const unindexedDocs = metadataResults.filter(({ doc }) => {
-        const normalizedNumber = doc.documentNumber.replace(/^(AC|AD|TSO|Order)\s*/i, '').trim().toUpperCase();
-        return !indexedDocNumbers.has(normalizedNumber);
-      });
+      // 5. Filter out documents indexed at their current DRS version (modified ones are re-indexed)
+      const unindexedDocs = metadataResults.filter(({ doc }) => needsIndexing(doc, indexedVersions));
 
-      console.log(`🆕 Found ${unindexedDocs.length} unindexed documents`);
+      console.log(`🆕 Found ${unindexedDocs.length} unindexed or modified documents`);
 
       if (unindexedDocs.length === 0) {
         return [];
@@ -571,6 +894,7 @@ Please answer based on the FAA regulations and guidance materials provided above
       // 8. FALLBACK: Inline download if queue not available (original behavior)
       console.log(`📥 Fetching ${batchToFetch.length} new documents inline (queue not available)...`);
       const newDocs: Document[] = [];
+      const downloaded: { doc: DRSDocument; docType: string }[] = [];
       let downloadCount = 0;
       
       for (const { doc, docType } of batchToFetch) {
@@ -580,17 +904,17 @@ Please answer based on the FAA regulations and guidance materials provided above
           const result = await drsClient.fetchDocumentDirect(doc, docType);
           if (result) {
             downloadCount++;
-            const maxChars = 50000;
-            const truncatedText = result.text.length > maxChars
-              ? result.text.substring(0, maxChars) + "\n\n[Document truncated due to length...]"
-              : result.text;
-
+            downloaded.push({ doc, docType });
             newDocs.push({
               title: doc.title,
-              chunk: truncatedText,
+              chunk: result.text,
+              startChar: 0,
+              endChar: result.text.length,
               score: 0.9,
               docType: docType,
-              docNumber: doc.documentNumber
+              docNumber: doc.documentNumber,
+              url: doc.mainDocumentDownloadURL,
+              ...revisionMetadata(doc.documentNumber, doc.status)
             });
 
             console.log(`  ⬇️ Downloaded: ${docType} ${doc.documentNumber} (${downloadCount}/${batchToFetch.length})`);
@@ -603,10 +927,8 @@ Please answer based on the FAA regulations and guidance materials provided above
       console.log(`✅ Progressive fetch complete: ${newDocs.length} new documents`);
 
       // 9. Index newly fetched documents in background (inline mode only)
-      if (newDocs.length > 0 && hasVectorSearch() && hasEmbeddingService()) {
-        this.indexFetchedDocuments([], newDocs).catch(err =>
-          console.warn('⚠️ Background indexing of progressive docs failed:', err)
-        );
+      if (downloaded.length > 0 && hasVectorSearch() && hasEmbeddingService()) {
+        this.indexDRSDocuments(downloaded);
       }
 
       return newDocs;
@@ -617,13 +939,10 @@ Please answer based on the FAA regulations and guidance materials provided above
   }
 
   /**
-   * Index newly fetched documents for future vector search queries
+   * Index newly fetched CFR sections for future vector search queries
    * Runs in background to avoid blocking the response
    */
-  private async indexFetchedDocuments(
-    ecfrSections: ECFRSection[], 
-    drsDocs: Document[]
-  ): Promise<void> {
+  private async indexFetchedSections(ecfrSections: ECFRSection[]): Promise<void> {
     const { generateEmbeddings } = await import('./embeddings');
     const { indexDocuments: indexToVectorDB } = await import('./vectorSearch');
     
@@ -644,47 +963,6 @@ Please answer based on the FAA regulations and guidance materials provided above
       });
     }
     
-    // Convert DRS documents to indexable format
-    // Now uses structured metadata from Document instead of parsing title
-    for (const doc of drsDocs) {
-      // Use metadata if available, skip if not (shouldn't happen with new code)
-      if (doc.docType && doc.docNumber) {
-        const docId = `drs-${doc.docType.toLowerCase()}-${doc.docNumber.replace(/[^a-zA-Z0-9]/g, '-')}`;
-        
-        docsToIndex.push({
-          id: docId,
-          documentType: doc.docType,
-          documentNumber: doc.docNumber,
-          title: doc.title,
-          content: doc.chunk,
-          source: `FAA DRS`,
-          lastIndexed: new Date(),
-          // Include additional metadata if available
-          revision: doc.revision,
-          changeNumber: doc.changeNumber,
-          status: doc.status
-        });
-      } else {
-        // Fallback: try to parse from title for backwards compatibility
-        const match = doc.title.match(/^(AC|TSO|Order|AD)\s*([^\s-]+(?:-[^\s]+)?)/i);
-        if (match) {
-          const docType = match[1].toUpperCase();
-          const docNumber = match[2];
-          const docId = `drs-${docType.toLowerCase()}-${docNumber.replace(/[^a-zA-Z0-9]/g, '-')}`;
-          
-          docsToIndex.push({
-            id: docId,
-            documentType: docType,
-            documentNumber: docNumber,
-            title: doc.title,
-            content: doc.chunk,
-            source: `FAA DRS`,
-            lastIndexed: new Date()
-          });
-        }
-      }
-    }
-    
     if (docsToIndex.length === 0) {
       return;
     }
@@ -711,62 +989,267 @@ Please answer based on the FAA regulations and guidance materials provided above
   }
 
   /**
-   * Fetch eCFR sections based on classification
+   * Index DRS documents fetched on the request path for future vector search queries
+   * Goes through the queue worker's path (version check, structural chunking, page ranges,
+   * tables, revision and version metadata): enqueued if the queue is available, otherwise
+   * processed one by one in the background (the download is served from the document cache)
    */
-  private async fetchFromECFR(classification: QueryClassification | null): Promise<ECFRSection[]> {
-    if (!classification) return [];
-    
-    const sections: ECFRSection[] = [];
+  private indexDRSDocuments(fetched: { doc: DRSDocument; docType: string }[]): void {
+    const indexable = fetched.filter(({ doc }) => doc.mainDocumentDownloadURL);
+    if (indexable.length === 0) return;
+
+    if (hasIndexQueue()) {
+      enqueueForIndexing(indexable).catch(err =>
+        console.warn('⚠️ Enqueueing fetched DRS documents failed:', err)
+      );
+      return;
+    }
+
+    (async () => {
+      for (const { doc, docType } of indexable) {
+        await processQueueMessage(createQueueMessage(doc, docType));
+      }
+    })().catch(err =>
+      console.warn('⚠️ Background indexing of DRS documents failed:', err)
+    );
+  }
+
+  /**
+   * Resolve the point in time to read CFR text at, from the request or the question
+   * Amendments are resolved to the date they took effect
+   *
+   * @returns The point in time, or the request that couldn't be resolved or predates eCFR history
+   *          (current text is fetched, and the answer says the text asked for is unavailable)
+   */
+  private async resolvePointInTime(
+    question: string,
+    asOf?: string
+  ): Promise<{ pointInTime?: PointInTime; unresolved?: string }> {
+    const reference = asOf ? extractPointInTime(asOf, false) : extractPointInTime(question);
+    if (!reference) {
+      if (asOf) {
+        console.warn(`⚠️ Could not parse asOf "${asOf}", using current CFR text`);
+        return { unresolved: asOf };
+      }
+      return {};
+    }
+
+    const date = reference.amendment
+      ? await this.ecfrClient.resolveAmendmentDate(14, reference.amendment)
+      : reference.date;
+    if (!date) {
+      console.warn(`⚠️ No eCFR text for ${reference.requested}, using current CFR text`);
+      return { unresolved: reference.requested };
+    }
+
+    console.log(`📅 Reading CFR text as of ${date}${reference.amendment ? ` (Amendment ${reference.amendment})` : ''}`);
+    return {
+      pointInTime: {
+        requested: reference.requested,
+        asOf: date,
+        amendment: reference.amendment
+      }
+    };
+  }
+
+  /**
+   * Resolve the dates a profile's certification basis pins each part to
+   * Parts without an amendment or date use current text, and so do parts whose amendment
+   * can't be resolved or predates eCFR history (they are returned so the answer can say so)
+   *
+   * @returns Part -> date, and the basis entries without eCFR text (e.g. "Part 25 at Amendment 25-90")
+   */
+  private async resolveBasisDates(profile: ProjectProfile): Promise<{ dates: Map<number, string>; unresolved: string[] }> {
+    const dates = new Map<number, string>();
+    const unresolved: string[] = [];
     
-    // Fetch specific sections mentioned in classification
-    if (classification.cfrSections && classification.cfrSections.length > 0) {
-      for (const sectionRef of classification.cfrSections) {
-        // Parse section reference like "23.2150" or "25.1309"
-        const match = sectionRef.match(/(\d+)\.(\d+)/);
-        if (match) {
-          const part = parseInt(match[1]);
-          const section = match[2];
-          
-          try {
-            // Title 14 is always aviation (14 CFR)
-            const ecfrSection = await this.ecfrClient.fetchSection(14, part, section);
-            if (ecfrSection) {
-              sections.push(ecfrSection);
-            }
-          } catch (error) {
-            console.warn(`⚠️ Failed to fetch eCFR § ${part}.${section}:`, error);
-          }
-        }
+    for (const entry of profile.basis) {
+      const date = entry.amendment
+        ? await this.ecfrClient.resolveAmendmentDate(14, entry.amendment)
+        : entry.asOf;
+      if (date) {
+        dates.set(entry.part, date);
+      } else if (entry.amendment) {
+        console.warn(`⚠️ No eCFR text for Amendment ${entry.amendment} for profile ${profile.name}, using current Part ${entry.part} text`);
+        unresolved.push(`Part ${entry.part} at Amendment ${entry.amendment}`);
       }
     }
     
+    if (dates.size > 0) {
+      console.log(`📁 Profile ${profile.name}: ${Array.from(dates).map(([part, date]) => `Part ${part} as of ${date}`).join(', ')}`);
+    }
+    return { dates, unresolved };
+  }
+
+  /**
+   * Convert a fetched eCFR section into a context document
+   * Historical text is labeled with the date it took effect
+   */
+  private ecfrSectionToDocument(section: ECFRSection): Document {
+    const label = section.asOf ? ` [as of ${section.asOf}, text effective ${section.effectiveDate}]` : '';
+    // Paragraphs are labeled with their full path ("(b)(2) ...") so the answer can cite them
+    const paragraphs = section.paragraphs && section.paragraphs.length > 0 ? section.paragraphs : null;
+    const chunk = paragraphs ? formatParagraphs({ ...section, heading: section.sectionTitle, paragraphs }) : section.content;
+    return {
+      title: `14 CFR § ${section.part}.${section.section} - ${section.sectionTitle}${label}`,
+      chunk,
+      startChar: 0,
+      endChar: chunk.length,
+      score: 1.0,
+      docType: 'eCFR',
+      cfrPart: section.part,
+      cfrSection: section.section,
+      url: section.url,
+      effectiveDate: section.asOf ? section.effectiveDate : undefined,
+      cfrParagraphs: paragraphs ? paragraphPaths(paragraphs) : undefined
+    };
+  }
+
+  /**
+   * Source info for a fetched eCFR section
+   */
+  private ecfrSectionToSource(section: ECFRSection, origin?: CFRSectionOrigin): CFRSource {
+    return {
+      title: 14,
+      part: section.part,
+      section: section.section,
+      sectionTitle: section.sectionTitle,
+      url: section.url,
+      effectiveDate: section.asOf ? section.effectiveDate : undefined,
+      origin
+    };
+  }
+
+  /**
+   * Search eCFR full text within the classified parts for sections the classifier didn't propose
+   * Runs only when the classifier proposed no sections, unless ECFR_SEARCH_ALWAYS is set
+   *
+   * @returns Section references (e.g., "25.1309"), best hits first
+   */
+  private async searchECFRSections(question: string, classification: QueryClassification | null): Promise<string[]> {
+    if (!ECFR_SEARCH_CONFIG.enabled || !classification || classification.cfrParts.length === 0) {
+      return [];
+    }
+    if (classification.cfrSections.length > 0 && !ECFR_SEARCH_CONFIG.always) {
+      return [];
+    }
+
+    const query = buildECFRSearchQuery(question, classification);
+    if (!query) {
+      return [];
+    }
+
+    const parts = classification.cfrParts.slice(0, ECFR_SEARCH_CONFIG.maxParts);
+    const results = (await Promise.all(parts.map(part => this.ecfrClient.searchSections(query, 14, part)))).flat();
+
+    const sections = results
+      .sort((a, b) => b.score - a.score)
+      .map(r => `${r.part}.${r.section}`)
+      .filter((ref, i, refs) => refs.indexOf(ref) === i && !classification.cfrSections.includes(ref))
+      .slice(0, ECFR_SEARCH_CONFIG.maxSections);
+
+    console.log(`🔍 eCFR search added ${sections.length} sections: ${sections.join(', ') || 'none'}`);
     return sections;
   }
 
+  /**
+   * Fetch eCFR sections found by the classifier, eCFR search, or pinned by the user
+   * With asOf, sections are read as they stood on that date; otherwise parts
+   * pinned by the certification basis are read at their basis date
+   */
+  private async fetchFromECFR(
+    sectionRefs: string[],
+    asOf?: string,
+    basisDates: Map<number, string> = new Map()
+  ): Promise<ECFRSection[]> {
+    // Group sections by the date they are read at
+    const byDate = new Map<string, string[]>();
+    for (const sectionRef of sectionRefs) {
+      // Parse section reference like "23.2150" or "25.1309"
+      const match = sectionRef.match(/(\d+)\.(\d+)/);
+      if (match) {
+        const date = asOf || basisDates.get(parseInt(match[1])) || '';
+        byDate.set(date, [...(byDate.get(date) || []), `${match[1]}.${match[2]}`]);
+      }
+    }
+
+    // Title 14 is always aviation (14 CFR)
+    const groups = await Promise.all(
+      Array.from(byDate).map(([date, refs]) => this.ecfrClient.fetchSections(14, refs, date || undefined))
+    );
+
+    // Keep the requested order
+    const order = (s: ECFRSection) => sectionRefs.indexOf(`${s.part}.${s.section}`);
+    return groups.flat().sort((a, b) => order(a) - order(b));
+  }
+
+  /**
+   * Compare classified sections with an earlier version for "what changed" questions
+   * Without a date, each section is compared with its previous version
+   *
+   * @param from - Compare against the text in force on this date (YYYY-MM-DD)
+   */
+  private async fetchSectionChanges(classification: QueryClassification, from?: string): Promise<Document[]> {
+    const docs: Document[] = [];
+    
+    for (const sectionRef of classification.cfrSections.slice(0, 3)) {
+      const match = sectionRef.match(/(\d+)\.(\d+)/);
+      if (!match) continue;
+      const part = parseInt(match[1]);
+      const section = match[2];
+      
+      try {
+        const diff = await compareCFR({ part, section, from });
+        const sectionDiff = diff?.sections[0];
+        if (!diff || !sectionDiff) continue;
+        
+        docs.push({
+          title: `Changes to 14 CFR § ${part}.${section} - ${sectionDiff.sectionTitle} (${diff.fromDate} to ${diff.toDate})`,
+          chunk: (diff.historyNote ? `Note: ${diff.historyNote}.\n\n` : '') + formatDiffForContext(sectionDiff, diff.fromDate, diff.toDate),
+          score: 1.0,
+          docType: 'eCFR',
+          cfrPart: part,
+          cfrSection: section,
+          url: sectionDiff.url,
+          effectiveDate: sectionDiff.toEffectiveDate
+        });
+      } catch (error) {
+        console.warn(`⚠️ Failed to compare eCFR § ${part}.${section}:`, error);
+      }
+    }
+    
+    return docs;
+  }
+
   /**
    * Fetch DRS documents based on classification
    * Enhanced: Cache-first approach - prioritizes cached documents to minimize latency
+   *
+   * @returns The documents for the context, and the DRS metadata they were fetched with (for indexing)
    */
   private async fetchFromDRSByClassification(
     question: string,
     classification: QueryClassification | null
-  ): Promise<Document[]> {
+  ): Promise<{ documents: Document[]; fetched: { doc: DRSDocument; docType: string }[] }> {
+    const documents: Document[] = [];
+    const fetched: { doc: DRSDocument; docType: string }[] = [];
     if (!classification) {
-      return [];
+      return { documents, fetched };
     }
     
     const drsClient = new DRSClient();
-    const documents: Document[] = [];
     const fetchedUrls = new Set<string>(); // Deduplicate by download URL
     let freshDownloadCount = 0; // Track fresh PDF downloads (slow operations)
     
     // Helper to add document with deduplication
-    const addDocument = (doc: Document, downloadUrl: string): boolean => {
+    const addDocument = (doc: Document, downloadUrl: string, source: DRSDocument, docType: string): boolean => {
       if (fetchedUrls.has(downloadUrl)) {
         return false;
       }
       fetchedUrls.add(downloadUrl);
-      documents.push(doc);
+      // The whole extracted text is used (it is trimmed when the context is built)
+      documents.push({ ...doc, startChar: 0, endChar: doc.chunk.length });
+      fetched.push({ doc: source, docType });
       return true;
     };
 
@@ -794,18 +1277,16 @@ Please answer based on the FAA regulations and guidance materials provided above
       
       const result = await drsClient.fetchDocumentWithCache(ref.docNumber, ref.docType);
       if (result && result.doc.mainDocumentDownloadURL) {
-        const maxChars = 50000;
-        const truncatedText = result.text.length > maxChars
-          ? result.text.substring(0, maxChars) + "\n\n[Document truncated due to length...]"
-          : result.text;
         // Use structured metadata instead of embedding in title
         addDocument({
           title: result.doc.title,
-          chunk: truncatedText,
+          chunk: result.text,
           score: 1.0,
           docType: ref.docType,
-          docNumber: result.doc.documentNumber
-        }, result.doc.mainDocumentDownloadURL);
+          docNumber: result.doc.documentNumber,
+          url: result.doc.mainDocumentDownloadURL,
+          ...revisionMetadata(result.doc.documentNumber, result.doc.status)
+        }, result.doc.mainDocumentDownloadURL, result.doc, ref.docType);
       }
     }
     
@@ -911,15 +1392,16 @@ Please answer based on the FAA regulations and guidance materials provided above
         
         const fetched = await drsClient.fetchDocumentDirect(c.result, c.docType);
         if (fetched) {
-          const maxChars = 30000;
           // Use structured metadata instead of embedding in title
           addDocument({
             title: fetched.doc.title,
-            chunk: fetched.text.substring(0, maxChars),
+            chunk: fetched.text,
             score: c.score,
             docType: c.docType,
-            docNumber: c.result.documentNumber
-          }, c.result.mainDocumentDownloadURL!);
+            docNumber: c.result.documentNumber,
+            url: c.result.mainDocumentDownloadURL,
+            ...revisionMetadata(c.result.documentNumber, c.result.status)
+          }, c.result.mainDocumentDownloadURL!, c.result, c.docType);
           console.log(`  📦 Cache hit: ${c.docType} ${c.result.documentNumber}`);
         }
       }
@@ -935,15 +1417,16 @@ Please answer based on the FAA regulations and guidance materials provided above
         const fetched = await drsClient.fetchDocumentDirect(c.result, c.docType);
         if (fetched) {
           freshDownloadCount++;
-          const maxChars = 30000;
           // Use structured metadata instead of embedding in title
           addDocument({
             title: fetched.doc.title,
-            chunk: fetched.text.substring(0, maxChars),
+            chunk: fetched.text,
             score: c.score,
             docType: c.docType,
-            docNumber: c.result.documentNumber
-          }, c.result.mainDocumentDownloadURL!);
+            docNumber: c.result.documentNumber,
+            url: c.result.mainDocumentDownloadURL,
+            ...revisionMetadata(c.result.documentNumber, c.result.status)
+          }, c.result.mainDocumentDownloadURL!, c.result, c.docType);
           console.log(`  ⬇️ Downloaded: ${c.docType} ${c.result.documentNumber} (${freshDownloadCount}/${DRS_CONFIG.maxFreshDownloads})`);
         }
       }
@@ -966,15 +1449,16 @@ Please answer based on the FAA regulations and guidance materials provided above
               docType
             );
             if (result) {
-              const maxChars = 30000;
               // Use structured metadata instead of embedding in title
               addDocument({
                 title: result.doc.title,
-                chunk: result.text.substring(0, maxChars),
+                chunk: result.text,
                 score: 0.9,
                 docType: docType,
-                docNumber: result.doc.documentNumber
-              }, topResult.documentNumber);
+                docNumber: result.doc.documentNumber,
+                url: result.doc.mainDocumentDownloadURL,
+                ...revisionMetadata(result.doc.documentNumber, result.doc.status)
+              }, topResult.documentNumber, result.doc, docType);
             }
           }
         } catch (error) {
@@ -984,7 +1468,7 @@ Please answer based on the FAA regulations and guidance materials provided above
     }
     
     console.log(`📚 DRS fetch complete: ${documents.length} docs, ${freshDownloadCount} fresh downloads`);
-    return documents;
+    return { documents, fetched };
   }
 
   /**
@@ -1048,8 +1532,20 @@ Note: The provided document was retrieved directly from the FAA Dynamic Regulato
 
   /**
    * Enhanced system prompt that notes eCFR and DRS sources
+   * and, for historical lookups, the point in time of the CFR text
    */
-  private buildEnhancedSystemPrompt(hasECFR: boolean, hasDRS: boolean): string {
+  private buildEnhancedSystemPrompt(
+    hasECFR: boolean,
+    hasDRS: boolean,
+    options: {
+      pointInTime?: PointInTime;
+      unresolvedPointInTime?: string;
+      unresolvedBasis?: string[];
+      hasChanges?: boolean;
+      profile?: ProjectProfile | null;
+    } = {}
+  ): string {
+    const { pointInTime, unresolvedPointInTime, unresolvedBasis = [], hasChanges = false, profile } = options;
     let prompt = `You are an FAA aircraft certification expert with deep knowledge of aviation regulations and guidance materials.
 
 Your role is to answer questions based ONLY on the provided FAA regulations, advisory circulars, and guidance documents.
@@ -1076,12 +1572,61 @@ When listing requirements, limits, criteria, or specifications:
 - Only say "incomplete" if the user asks about a specific part/category and you don't have that part's content
 - For injury criteria, performance limits, test conditions, or pass/fail thresholds, include all values from the source documents
 
+CITATION FORMAT:
+- Each source in the context is numbered, e.g. "## [3] Source: 14 CFR § 25.1309 - Equipment, systems, and installations"
+- Place the matching marker right after every sentence or claim drawn from a source, e.g. "...must be designed to perform their intended functions [3]."
+- When a claim is supported by more than one source, cite each, e.g. [2][5]
+- When a source heading gives a paragraph and page, e.g. "## [4] Source: ... (para 8.c, p. 27)", name them next to the marker, e.g. "...(AC 25.1309-1B, para 8.c, p. 27) [4]."
+- Only use numbers that appear in the context - never invent a marker, and do not cite the previous conversation
+
 Answer questions clearly and professionally, as if advising an aircraft manufacturer, engineering team, or certification applicant.`;
 
     if (hasECFR) {
       prompt += `
 
-IMPORTANT: Some content is from the official Electronic Code of Federal Regulations (eCFR). This is the authoritative, current regulatory text. Always cite these as "14 CFR § X.XXX".`;
+IMPORTANT: Some content is from the official Electronic Code of Federal Regulations (eCFR). This is the authoritative${pointInTime ? '' : ', current'} regulatory text. Always cite these as "14 CFR § X.XXX".
+eCFR paragraphs are labeled with their full designator, e.g. "(b)(2) ...". When a claim comes from a specific paragraph, name it next to the marker, e.g. "...must be extremely improbable (§ 25.1309(b)(1)) [3]."`;
+    }
+
+    if (pointInTime) {
+      const requested = pointInTime.amendment ? `${pointInTime.requested} (effective ${pointInTime.asOf})` : pointInTime.asOf;
+      prompt += `
+
+HISTORICAL TEXT: The user asked about the regulations as of ${requested}. The eCFR sections provided are the text in force on ${pointInTime.asOf}, NOT the current text. Each is labeled "[as of ..., text effective ...]".
+- State that the answer reflects the regulations as of ${requested}
+- Give the effective date of every CFR section you quote, e.g. "14 CFR § 25.1309 (text effective 2017-01-03)"
+- If a section's effective date is later than ${pointInTime.asOf}, eCFR does not have the text in force on that date (its history starts ${ECFR_HISTORY_START}); say so, and that the requirement may have differed then
+- Other documents (ACs, Orders, indexed material) are current versions and may postdate ${pointInTime.asOf}`;
+    } else if (unresolvedPointInTime) {
+      prompt += `
+
+POINT-IN-TIME TEXT UNAVAILABLE: The user asked about the regulations as of "${unresolvedPointInTime}", but eCFR has no text for it: it could not be resolved to a date, or it predates eCFR history (which starts ${ECFR_HISTORY_START}). The CFR text provided is the CURRENT text.
+- Begin by saying the text as of "${unresolvedPointInTime}" is not available
+- Do not present the current text as the text in force then; quote it only as current text that may differ
+- Suggest checking the amendment's Federal Register notice, or asking again with a specific date (YYYY-MM-DD) on or after ${ECFR_HISTORY_START}`;
+    }
+
+    if (profile) {
+      prompt += `
+
+PROJECT CERTIFICATION BASIS: The user is working on this project - answer for its certification basis.
+${describeProfile(profile)}
+- CFR sections of parts pinned to an amendment are the text at that amendment level and are labeled "[as of ..., text effective ...]"; say which amendment level your answer reflects
+- Point out where the special conditions may add to or modify the requirements asked about
+- Prefer the preferred advisory circulars when they cover the topic`;
+      if (unresolvedBasis.length > 0) {
+        prompt += `
+- eCFR has no text for ${unresolvedBasis.join(', ')} (not found, or before eCFR history starts ${ECFR_HISTORY_START}): those sections are the CURRENT text. Say the text at that amendment level is not available, and do not present the current text as the basis text`;
+      }
+    }
+
+    if (hasChanges) {
+      prompt += `
+
+CHANGES BETWEEN VERSIONS: Sources titled "Changes to 14 CFR § ..." show a word-level comparison of two versions of a section. Removed text is marked [-like this-] and added text {+like this+}; "…" marks unchanged text that was left out.
+- Summarize what changed in plain language, quoting the old and new wording for substantive changes, and cite the comparison source
+- Give the dates being compared and the effective dates of both versions
+- If the comparison shows no changes, say the section did not change between those dates`;
     }
 
     if (hasDRS) {
@@ -1127,16 +1672,13 @@ Note: Some documents were retrieved from the FAA Dynamic Regulatory System (DRS)
       const pdfBuffer = await drsClient.downloadDocument(topResult.mainDocumentDownloadURL);
       const pdfText = await drsClient.extractTextFromPDF(pdfBuffer);
 
-      // Truncate if too long (Claude has context limits)
-      const maxChars = 50000;
-      const truncatedText = pdfText.length > maxChars
-        ? pdfText.substring(0, maxChars) + "\n\n[Document truncated due to length...]"
-        : pdfText;
-
+      // Long documents are trimmed to their relevant passages when the context is built
       return {
         documents: [{
           title: topResult.title,
-          chunk: truncatedText,
+          chunk: pdfText,
+          startChar: 0,
+          endChar: pdfText.length,
           score: 1.0  // Direct fetch, highest relevance
         }]
       };
@@ -0,0 +1,203 @@
+/**
+ * Reranker
+ * Scores candidate documents (indexed chunks plus live eCFR/DRS documents)
+ * against the question, orders them and drops the irrelevant ones
+ * (buildContext then fits them into the context token budget)
+ *
+ * Rerankers (RERANKER):
+ * - lexical: local BM25 scoring with a bonus for explicitly referenced sections/documents (default)
+ * - llm: the LLM judges each candidate's relevance (falls back to lexical on failure)
+ */
+
+import { LLMProvider } from "./llmProvider";
+import { tokenize } from "./contextBuilder";
+import { Document } from "./types";
+
+/**
+ * Reranking configuration
+ */
+const RERANK_CONFIG = {
+  enabled: process.env.RERANK_ENABLED !== 'false',                       // Enabled by default
+  reranker: process.env.RERANKER || 'lexical',
+  candidates: parseInt(process.env.RERANK_CANDIDATES || '20'),          // Top-N hybrid search hits to rerank
+  minScore: parseFloat(process.env.RERANK_MIN_SCORE || '0.05'),         // Drop candidates below this (0-1)
+  llmExcerptChars: 800,       // Candidate text shown to the LLM reranker
+};
+
+/**
+ * Scores candidates against a question
+ */
+export interface Reranker {
+  readonly name: string;
+
+  /** Relevance score (0-1) for each document, in input order */
+  score(question: string, documents: Document[]): Promise<number[]>;
+}
+
+/**
+ * Candidates selected by reranking
+ */
+export interface ContextSelection {
+  documents: Document[];      // Selected documents, most relevant first (score = rerank score)
+  dropped: number;            // Candidates left out (score below the minimum)
+}
+
+/**
+ * Section and document references in a question ("§ 25.631", "AC 23-8C", "25.1309")
+ */
+function extractQuestionReferences(question: string): string[] {
+  return Array.from(question.matchAll(/\b(\d{2,3}\.\d+|\d{2,3}-[\dA-Z.\-]+)\b/gi)).map(m => m[1].toUpperCase());
+}
+
+/**
+ * Local lexical reranker: BM25 over the candidate set, normalized to 0-1
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async score(question: string, documents: Document[]): Promise<number[]> {
+    const k1 = 1.2;
+    const b = 0.75;
+    const queryTerms = Array.from(new Set(tokenize(question)));
+    const references = extractQuestionReferences(question);
+
+    const docTerms = documents.map(doc => {
+      const terms = tokenize(`${doc.title} ${doc.title} ${doc.chunk}`);
+      const freqs = new Map<string, number>();
+      for (const t of terms) freqs.set(t, (freqs.get(t) || 0) + 1);
+      return { freqs, length: terms.length };
+    });
+    const avgLength = docTerms.reduce((sum, d) => sum + d.length, 0) / Math.max(docTerms.length, 1) || 1;
+
+    const raw = docTerms.map(({ freqs, length }) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = freqs.get(term);
+        if (!tf) continue;
+        const df = docTerms.filter(d => d.freqs.has(term)).length;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * length / avgLength));
+      }
+      return score;
+    });
+
+    const max = Math.max(...raw, 0);
+    return documents.map((doc, i) => {
+      let score = max > 0 ? raw[i] / max : 0;
+
+      // Documents the question names explicitly are always relevant
+      const ids = [
+        doc.cfrPart && doc.cfrSection ? `${doc.cfrPart}.${doc.cfrSection}` : '',
+        (doc.docNumber || '').replace(/^(AC|AD|TSO|Order)\s*/i, '')
+      ].map(id => id.toUpperCase()).filter(Boolean);
+      if (ids.some(id => references.includes(id))) {
+        score += 0.5;
+      }
+
+      return Math.min(1, score);
+    });
+  }
+}
+
+/**
+ * LLM reranker: the model rates each candidate's relevance from an excerpt
+ */
+export class LLMReranker implements Reranker {
+  readonly name = 'llm';
+  private fallback = new LexicalReranker();
+
+  constructor(private llm: LLMProvider) {}
+
+  async score(question: string, documents: Document[]): Promise<number[]> {
+    const candidates = documents.map((doc, i) =>
+      `Candidate ${i + 1}: ${doc.title}\n${doc.chunk.substring(0, RERANK_CONFIG.llmExcerptChars)}`
+    ).join('\n\n---\n\n');
+
+    try {
+      const parsed = await this.llm.completeJSON<Array<{ id: number; score: number }>>({
+        role: 'reranker',
+        maxTokens: 1024,
+        system: `You rank FAA regulatory documents by how useful they are for answering a question.
+
+Rate every candidate from 0 (irrelevant) to 10 (directly answers the question) using its title and excerpt.
+Regulation text and guidance for the exact section or topic asked about should score highest.
+
+Respond ONLY with a JSON array: [{"id": <candidate number>, "score": <0-10>}]`,
+        messages: [{ role: "user", content: `Question: ${question}\n\n${candidates}` }]
+      });
+
+      if (!Array.isArray(parsed) || parsed.length === 0) {
+        throw new Error('Empty reranker response');
+      }
+
+      const scores = new Map<number, number>();
+      for (const item of parsed) {
+        scores.set(Number(item.id) - 1, Math.max(0, Math.min(10, Number(item.score) || 0)) / 10);
+      }
+      // Candidates the model skipped keep their lexical score
+      const lexical = await this.fallback.score(question, documents);
+      return documents.map((_, i) => scores.has(i) ? scores.get(i)! : lexical[i]);
+
+    } catch (error) {
+      console.warn('⚠️ LLM reranking failed, using lexical scores:', error);
+      return this.fallback.score(question, documents);
+    }
+  }
+}
+
+/**
+ * Check if reranking is enabled
+ */
+export function isRerankingEnabled(): boolean {
+  return RERANK_CONFIG.enabled;
+}
+
+/**
+ * Get reranking configuration (for debugging/monitoring)
+ */
+export function getRerankConfig() {
+  return { ...RERANK_CONFIG };
+}
+
+/**
+ * Create the configured reranker
+ */
+export function createReranker(llm: LLMProvider): Reranker {
+  return RERANK_CONFIG.reranker === 'llm' ? new LLMReranker(llm) : new LexicalReranker();
+}
+
+/**
+ * Rerank candidates and drop the ones scoring below the minimum
+ * Candidates are returned in score order (ties keep input order); the token budget
+ * is left to buildContext, which trims or omits documents that don't fit
+ *
+ * @param question - User question
+ * @param candidates - Indexed chunks plus live eCFR/DRS documents
+ * @param reranker - Reranker to score the candidates
+ */
+export async function selectContext(
+  question: string,
+  candidates: Document[],
+  reranker: Reranker
+): Promise<ContextSelection> {
+  if (candidates.length === 0) {
+    return { documents: [], dropped: 0 };
+  }
+
+  const scores = await reranker.score(question, candidates);
+  const ranked = candidates
+    .map((doc, i) => ({ doc, score: scores[i] ?? 0, order: i }))
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  // Always keep the best candidate, even if every score is low
+  const selected = ranked
+    .filter(({ score }, i) => i === 0 || score >= RERANK_CONFIG.minScore)
+    .map(({ doc, score }) => ({ ...doc, score }));
+
+  console.log(`🏅 Reranked ${candidates.length} candidates (${reranker.name}): selected ${selected.length}`);
+
+  return {
+    documents: selected,
+    dropped: candidates.length - selected.length
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildFilterLadder, applyClassificationBoosts } from "./retrievalFilters";
+import { compileODataFilter } from "./odataFilter";
+import { QueryClassification } from "./queryClassifier";
+import { FADocument, SearchResult } from "./vectorStore";
+
+function classification(overrides: Partial<QueryClassification>): QueryClassification {
+  return {
+    intent: 'regulatory_lookup',
+    topics: [],
+    cfrParts: [],
+    cfrSections: [],
+    documentTypes: [],
+    confidence: 0.9,
+    reasoning: '',
+    needsClarification: false,
+    ...overrides
+  };
+}
+
+function result(id: string, score: number, fields: Partial<FADocument>): SearchResult {
+  return {
+    document: { id, title: id, content: '', source: '', lastIndexed: '', ...fields } as FADocument,
+    score
+  };
+}
+
+describe('buildFilterLadder', () => {
+  it('relaxes from the classified parts and types down to no filter', () => {
+    const ladder = buildFilterLadder(classification({ cfrParts: [25, 25, 23], documentTypes: ['AC'] }));
+
+    assert.deepEqual(ladder.map(s => s.level), ['classified', 'document_types', 'current', 'unfiltered']);
+    assert.equal(
+      ladder[0].filter,
+      `status ne 'Cancelled' and ((documentType eq 'eCFR' and (cfrPart eq 25 or cfrPart eq 23)) or search.in(documentType, 'AC', ','))`
+    );
+    assert.equal(ladder[1].filter, `status ne 'Cancelled' and search.in(documentType, 'eCFR,AC', ',')`);
+    assert.equal(ladder[2].filter, `status ne 'Cancelled'`);
+    assert.equal(ladder[3].filter, undefined);
+  });
+
+  it('skips levels the classification has nothing for', () => {
+    assert.deepEqual(buildFilterLadder(null).map(s => s.level), ['current', 'unfiltered']);
+    assert.deepEqual(
+      buildFilterLadder(classification({ cfrParts: [25] })).map(s => s.level),
+      ['classified', 'current', 'unfiltered']
+    );
+    assert.deepEqual(
+      buildFilterLadder(classification({ documentTypes: ['AC', 'Order'] })).map(s => s.level),
+      ['document_types', 'current', 'unfiltered']
+    );
+  });
+
+  it('builds filters each level of which admits more documents', () => {
+    const docs: Array<Record<string, unknown>> = [
+      { id: 'cfr25', documentType: 'eCFR', cfrPart: 25 },
+      { id: 'cfr33', documentType: 'eCFR', cfrPart: 33 },
+      { id: 'ac', documentType: 'AC', status: 'Current' },
+      { id: 'order', documentType: 'Order', status: 'Current' },
+      { id: 'cancelled', documentType: 'AC', status: 'Cancelled' },
+    ];
+    const ladder = buildFilterLadder(classification({ cfrParts: [25], documentTypes: ['AC'] }));
+    const matches = ladder.map(step => docs.filter(compileODataFilter(step.filter)).map(d => d.id));
+
+    assert.deepEqual(matches, [
+      ['cfr25', 'ac'],
+      ['cfr25', 'cfr33', 'ac'],
+      ['cfr25', 'cfr33', 'ac', 'order'],
+      ['cfr25', 'cfr33', 'ac', 'order', 'cancelled'],
+    ]);
+  });
+});
+
+describe('applyClassificationBoosts', () => {
+  it('boosts classified sections, parts and the requested document, and re-sorts', () => {
+    const boosted = applyClassificationBoosts(
+      [
+        result('other', 1.0, { documentType: 'eCFR', cfrPart: 33, cfrSection: '1' }),
+        result('part', 0.9, { documentType: 'eCFR', cfrPart: 25, cfrSection: '631' }),
+        result('section', 0.8, { documentType: 'eCFR', cfrPart: 25, cfrSection: '1309' }),
+        result('ac', 0.5, { documentType: 'AC', documentNumber: 'AC 25.1309-1B' }),
+      ],
+      classification({ cfrParts: [25], cfrSections: ['25.1309'], specificDocument: 'AC 25.1309-1' })
+    );
+
+    assert.deepEqual(boosted.map(r => r.document.id), ['section', 'ac', 'part', 'other']);
+    assert.equal(boosted.find(r => r.document.id === 'section')!.score, 0.8 * 1.5);
+    assert.equal(boosted.find(r => r.document.id === 'ac')!.score, 0.5 * (1 + 0.2 + 1.0));
+  });
+
+  it('leaves results alone without a classification or preferred documents', () => {
+    const results = [result('a', 0.2, { documentType: 'AC', documentNumber: '25-7D' })];
+    assert.equal(applyClassificationBoosts(results, null), results);
+  });
+});
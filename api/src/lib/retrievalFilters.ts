@@ -0,0 +1,141 @@
+/**
+ * Retrieval Filters
+ * Builds index filters and score boosts from the query classification
+ *
+ * Filters are tried as a ladder from most to least specific; the pipeline
+ * moves down a level when a search returns too few relevant hits.
+ */
+
+import { QueryClassification } from "./queryClassifier";
+import { SearchResult } from "./vectorStore";
+import { RetrievalFilterLevel } from "./types";
+
+/**
+ * Boost configuration (multiplies the search score by 1 + boost)
+ */
+const BOOST_CONFIG = {
+  cfrSectionMatch: parseFloat(process.env.RETRIEVAL_BOOST_SECTION || '0.5'),   // Chunk is a classified CFR section
+  cfrPartMatch: parseFloat(process.env.RETRIEVAL_BOOST_PART || '0.2'),         // eCFR chunk in a classified part, or AC numbered for it
+  specificDocument: parseFloat(process.env.RETRIEVAL_BOOST_DOCUMENT || '1.0'), // Document the user asked about by number
+  preferredDocument: parseFloat(process.env.RETRIEVAL_BOOST_PREFERRED || '0.3'), // AC preferred by the project profile
+};
+
+/**
+ * One rung of the filter ladder
+ */
+export interface RetrievalFilterStep {
+  level: RetrievalFilterLevel;
+  filter?: string;        // OData filter (undefined = no filter)
+  description: string;    // Human-readable summary for logs and the response
+}
+
+/**
+ * Excludes cancelled documents (documents without a status are kept)
+ */
+const NOT_CANCELLED = `status ne 'Cancelled'`;
+
+/**
+ * Escape a value for use inside an OData string literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Build the filter ladder for a classification
+ * Levels without a distinct filter (e.g. no classified parts) are skipped
+ *
+ * e.g. Parts 25 + ACs:
+ *   classified:     status ne 'Cancelled' and ((documentType eq 'eCFR' and (cfrPart eq 25)) or search.in(documentType, 'AC', ','))
+ *   document_types: status ne 'Cancelled' and search.in(documentType, 'eCFR,AC', ',')
+ *   current:        status ne 'Cancelled'
+ *   unfiltered:     (no filter)
+ */
+export function buildFilterLadder(classification: QueryClassification | null): RetrievalFilterStep[] {
+  const steps: RetrievalFilterStep[] = [];
+  const parts = Array.from(new Set(classification?.cfrParts || [])).filter(p => Number.isInteger(p));
+  const docTypes = Array.from(new Set(classification?.documentTypes || []));
+
+  if (parts.length > 0) {
+    const partFilter = parts.map(p => `cfrPart eq ${p}`).join(' or ');
+    const cfrClause = `(documentType eq 'eCFR' and (${partFilter}))`;
+    const clause = docTypes.length > 0
+      ? `(${cfrClause} or search.in(documentType, ${quote(docTypes.join(','))}, ','))`
+      : cfrClause;
+    steps.push({
+      level: 'classified',
+      filter: `${NOT_CANCELLED} and ${clause}`,
+      description: `14 CFR Part ${parts.join('/')}${docTypes.length > 0 ? ` + ${docTypes.join(', ')}` : ''}, excluding cancelled`
+    });
+  }
+
+  if (docTypes.length > 0) {
+    const types = ['eCFR', ...docTypes];
+    steps.push({
+      level: 'document_types',
+      filter: `${NOT_CANCELLED} and search.in(documentType, ${quote(types.join(','))}, ',')`,
+      description: `${types.join(', ')}, excluding cancelled`
+    });
+  }
+
+  steps.push({ level: 'current', filter: NOT_CANCELLED, description: 'All documents, excluding cancelled' });
+  steps.push({ level: 'unfiltered', description: 'All documents' });
+
+  return steps;
+}
+
+/**
+ * Normalize a document number for comparison: "AC 25.1309-1B" -> "25.1309-1B"
+ */
+function normalizeDocNumber(docNumber: string): string {
+  return docNumber.replace(/^(AC|AD|TSO|Order)\s*/i, '').trim().toUpperCase();
+}
+
+/**
+ * Re-score search results by how well their metadata matches the classification
+ * Results are returned re-sorted; scores keep the search scale so thresholds still apply
+ *
+ * @param preferredDocuments - Document numbers preferred by the project profile (e.g. ["25.1309-1B"])
+ */
+export function applyClassificationBoosts(
+  results: SearchResult[],
+  classification: QueryClassification | null,
+  preferredDocuments: string[] = []
+): SearchResult[] {
+  if (!classification && preferredDocuments.length === 0) return results;
+
+  const parts = new Set(classification?.cfrParts || []);
+  const sections = new Set(classification?.cfrSections || []);
+  const specific = classification?.specificDocument ? normalizeDocNumber(classification.specificDocument) : null;
+  const preferred = preferredDocuments.map(normalizeDocNumber);
+
+  return results
+    .map(result => {
+      const doc = result.document;
+      let boost = 0;
+
+      if (doc.documentType === 'eCFR') {
+        if (doc.cfrPart && sections.has(`${doc.cfrPart}.${doc.cfrSection}`)) {
+          boost += BOOST_CONFIG.cfrSectionMatch;
+        } else if (doc.cfrPart && parts.has(doc.cfrPart)) {
+          boost += BOOST_CONFIG.cfrPartMatch;
+        }
+      } else if (doc.documentNumber) {
+        const docNumber = normalizeDocNumber(doc.documentNumber);
+        // AC numbering follows the CFR part: AC 25-7D, AC 25.1309-1B
+        const numberPart = parseInt(docNumber, 10);
+        if (parts.has(numberPart)) {
+          boost += BOOST_CONFIG.cfrPartMatch;
+        }
+        if (specific && (docNumber === specific || docNumber.startsWith(specific))) {
+          boost += BOOST_CONFIG.specificDocument;
+        }
+        if (preferred.some(p => docNumber === p || docNumber.startsWith(p))) {
+          boost += BOOST_CONFIG.preferredDocument;
+        }
+      }
+
+      return boost > 0 ? { ...result, score: result.score * (1 + boost) } : result;
+    })
+    .sort((a, b) => b.score - a.score);
+}
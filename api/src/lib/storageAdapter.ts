@@ -0,0 +1,304 @@
+/**
+ * Storage Adapters
+ * Key/value object storage behind DocumentCache and ConversationStore
+ *
+ * Backends (STORAGE_BACKEND):
+ * - blob: Azure Blob Storage, one container per store (default when a connection string is set)
+ * - filesystem: one directory per container under LOCAL_STORAGE_DIR, with
+ *   metadata in a ".meta.json" sidecar next to each object
+ * - memory: process-lifetime Map (lost on restart)
+ *
+ * Objects carry string metadata (e.g. cachedat/ttlhours) so TTL checks work
+ * the same on every backend.
+ */
+
+import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
+import { promises as fs } from "fs";
+import { dirname, join, relative, sep } from "path";
+
+/**
+ * Object properties (without content)
+ */
+export interface StoredObjectProperties {
+  metadata: Record<string, string>;
+  lastModified: Date;
+}
+
+/**
+ * Stored object with content
+ */
+export interface StoredObject extends StoredObjectProperties {
+  content: string;
+}
+
+/**
+ * Object storage for a single container
+ */
+export interface StorageAdapter {
+  readonly name: string;
+
+  /** Get an object, or null if it doesn't exist */
+  get(key: string): Promise<StoredObject | null>;
+
+  /** Get object properties without downloading content, or null if it doesn't exist */
+  getProperties(key: string): Promise<StoredObjectProperties | null>;
+
+  /** Create or replace an object */
+  put(key: string, content: string, metadata: Record<string, string>): Promise<void>;
+
+  /** Delete an object if it exists */
+  delete(key: string): Promise<void>;
+
+  /** List object keys, optionally under a prefix */
+  list(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * Storage configuration
+ */
+const getStorageConfig = () => {
+  // Note: AzureWebJobsStorage is reserved in Azure Static Web Apps, so we use a custom name
+  const connectionString = process.env.BLOB_STORAGE_CONNECTION_STRING || process.env.AzureWebJobsStorage || '';
+  return {
+    backend: process.env.STORAGE_BACKEND || '',
+    connectionString: connectionString === 'UseDevelopmentStorage=true' ? '' : connectionString,
+    localDir: process.env.LOCAL_STORAGE_DIR || join(process.cwd(), 'data', 'storage'),
+  };
+};
+
+/**
+ * Convert readable stream to string
+ */
+async function streamToString(stream: NodeJS.ReadableStream | undefined): Promise<string> {
+  if (!stream) return '';
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Azure Blob Storage container
+ */
+export class BlobStorageAdapter implements StorageAdapter {
+  readonly name = 'blob';
+  private containerClient: ContainerClient | null = null;
+  private initPromise: Promise<ContainerClient> | null = null;
+
+  constructor(private connectionString: string, private containerName: string) {}
+
+  /**
+   * Get the container client (creates the container if it doesn't exist)
+   */
+  private async getContainer(): Promise<ContainerClient> {
+    if (this.containerClient) return this.containerClient;
+
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        const blobService = BlobServiceClient.fromConnectionString(this.connectionString);
+        const container = blobService.getContainerClient(this.containerName);
+        await container.createIfNotExists();
+        console.log(`✅ Blob container initialized: ${this.containerName}`);
+        this.containerClient = container;
+        return container;
+      })();
+      // Allow a retry after a failed initialization
+      this.initPromise.catch(() => { this.initPromise = null; });
+    }
+
+    return this.initPromise;
+  }
+
+  async getProperties(key: string): Promise<StoredObjectProperties | null> {
+    const blobClient = (await this.getContainer()).getBlobClient(key);
+    if (!(await blobClient.exists())) return null;
+
+    const props = await blobClient.getProperties();
+    return { metadata: props.metadata || {}, lastModified: props.lastModified || new Date() };
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const properties = await this.getProperties(key);
+    if (!properties) return null;
+
+    const download = await (await this.getContainer()).getBlobClient(key).download();
+    const content = await streamToString(download.readableStreamBody);
+    return { ...properties, content };
+  }
+
+  async put(key: string, content: string, metadata: Record<string, string>): Promise<void> {
+    const blobClient = (await this.getContainer()).getBlockBlobClient(key);
+    await blobClient.uploadData(Buffer.from(content, 'utf-8'), {
+      metadata,
+      blobHTTPHeaders: {
+        blobContentType: 'application/json'
+      }
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await (await this.getContainer()).getBlobClient(key).deleteIfExists();
+  }
+
+  async list(prefix?: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const blob of (await this.getContainer()).listBlobsFlat({ prefix })) {
+      keys.push(blob.name);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Local filesystem container (directory per container, metadata sidecars)
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  readonly name = 'filesystem';
+  private static readonly META_SUFFIX = '.meta.json';
+  private root: string;
+
+  constructor(baseDir: string, containerName: string) {
+    this.root = join(baseDir, containerName);
+  }
+
+  /**
+   * Resolve a key to a path inside the container directory
+   */
+  private pathFor(key: string): string {
+    const path = join(this.root, key);
+    if (relative(this.root, path).startsWith('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async getProperties(key: string): Promise<StoredObjectProperties | null> {
+    const path = this.pathFor(key);
+    try {
+      const stat = await fs.stat(path);
+      let metadata: Record<string, string> = {};
+      try {
+        metadata = JSON.parse(await fs.readFile(path + FileStorageAdapter.META_SUFFIX, 'utf-8'));
+      } catch {
+        // Missing sidecar - object without metadata
+      }
+      return { metadata, lastModified: stat.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const properties = await this.getProperties(key);
+    if (!properties) return null;
+
+    try {
+      const content = await fs.readFile(this.pathFor(key), 'utf-8');
+      return { ...properties, content };
+    } catch {
+      // Deleted between stat and read
+      return null;
+    }
+  }
+
+  async put(key: string, content: string, metadata: Record<string, string>): Promise<void> {
+    const path = this.pathFor(key);
+    await fs.mkdir(dirname(path), { recursive: true });
+    // Sidecar first so a reader never sees content without its TTL metadata
+    await fs.writeFile(path + FileStorageAdapter.META_SUFFIX, JSON.stringify(metadata), 'utf-8');
+    await fs.writeFile(path, content, 'utf-8');
+  }
+
+  async delete(key: string): Promise<void> {
+    const path = this.pathFor(key);
+    await fs.rm(path, { force: true });
+    await fs.rm(path + FileStorageAdapter.META_SUFFIX, { force: true });
+  }
+
+  async list(prefix: string = ''): Promise<string[]> {
+    const keys: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(path);
+        } else if (!entry.name.endsWith(FileStorageAdapter.META_SUFFIX)) {
+          const key = relative(this.root, path).split(sep).join('/');
+          if (key.startsWith(prefix)) keys.push(key);
+        }
+      }
+    };
+
+    await walk(this.root);
+    return keys.sort();
+  }
+}
+
+/**
+ * In-memory container (process lifetime)
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private objects = new Map<string, StoredObject>();
+
+  async getProperties(key: string): Promise<StoredObjectProperties | null> {
+    const object = this.objects.get(key);
+    return object ? { metadata: { ...object.metadata }, lastModified: object.lastModified } : null;
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const object = this.objects.get(key);
+    return object ? { ...object, metadata: { ...object.metadata } } : null;
+  }
+
+  async put(key: string, content: string, metadata: Record<string, string>): Promise<void> {
+    this.objects.set(key, { content, metadata: { ...metadata }, lastModified: new Date() });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key);
+  }
+
+  async list(prefix: string = ''): Promise<string[]> {
+    return Array.from(this.objects.keys()).filter(key => key.startsWith(prefix)).sort();
+  }
+}
+
+/**
+ * Create the configured storage adapter for a container
+ *
+ * @param containerName - Blob container / directory name
+ * @param fallback - Backend to use when STORAGE_BACKEND is unset and no Blob
+ *                   connection string is configured (null disables storage)
+ * @returns Adapter, or null when storage is disabled
+ */
+export function createStorageAdapter(
+  containerName: string,
+  fallback: 'memory' | 'filesystem' | null
+): StorageAdapter | null {
+  const config = getStorageConfig();
+  const backend = config.backend || (config.connectionString ? 'blob' : fallback);
+
+  switch (backend) {
+    case 'blob':
+      if (!config.connectionString) {
+        console.warn(`⚠️  Storage '${containerName}': STORAGE_BACKEND=blob but no connection string configured`);
+        return null;
+      }
+      return new BlobStorageAdapter(config.connectionString, containerName);
+    case 'filesystem':
+      return new FileStorageAdapter(config.localDir, containerName);
+    case 'memory':
+      return new MemoryStorageAdapter();
+    default:
+      return null;
+  }
+}
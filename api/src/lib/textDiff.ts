@@ -0,0 +1,171 @@
+/**
+ * Text Diff
+ * Word-level diff (Myers' algorithm) used to compare versions of regulation text
+ *
+ * Whitespace is kept as separate tokens so the segments reassemble into
+ * the original texts: equal + delete = old text, equal + insert = new text.
+ */
+
+/**
+ * Diff operation for a run of text
+ */
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+/**
+ * A run of text with the same operation
+ */
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/**
+ * Diff configuration
+ */
+const DIFF_CONFIG = {
+  maxEditDistance: 2000,      // Above this, fall back to a paragraph-level diff
+};
+
+/**
+ * Split text into word and whitespace tokens
+ */
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/**
+ * Split text into paragraphs, keeping the separators as tokens
+ */
+function tokenizeParagraphs(text: string): string[] {
+  return text.split(/(\n\s*\n)/).filter(t => t.length > 0);
+}
+
+/**
+ * Myers' O((N+M)D) shortest edit script over token arrays
+ * @returns Operations in order, or null if the edit distance exceeds maxD
+ */
+function myers(a: string[], b: string[], maxD: number): DiffSegment[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxD);
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];   // trace[d] = diagonals -d-1..d+1 of v before step d
+
+  let found = n === 0 && m === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffSegment[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const vdOffset = d + 1;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[vdOffset + k - 1] < vd[vdOffset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : vd[vdOffset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ op: 'equal', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ op: 'insert', text: b[--y] });
+      } else {
+        ops.push({ op: 'delete', text: a[--x] });
+      }
+    }
+  }
+  return ops.reverse();
+}
+
+/**
+ * Diff two token arrays, trimming the common prefix and suffix first
+ */
+function diffTokens(a: string[], b: string[], maxD: number): DiffSegment[] | null {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middle = myers(a.slice(start, endA), b.slice(start, endB), maxD);
+  if (!middle) return null;
+
+  return [
+    ...a.slice(0, start).map(text => ({ op: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(endA).map(text => ({ op: 'equal' as const, text }))
+  ];
+}
+
+/**
+ * Merge adjacent segments with the same operation
+ */
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.op === segment.op) {
+      last.text += segment.text;
+    } else if (segment.text) {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Word-level diff between two texts
+ * Falls back to a paragraph-level diff, then a full replacement, for very different texts
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  if (oldText === newText) {
+    return oldText ? [{ op: 'equal', text: oldText }] : [];
+  }
+
+  const segments =
+    diffTokens(tokenizeWords(oldText), tokenizeWords(newText), DIFF_CONFIG.maxEditDistance) ||
+    diffTokens(tokenizeParagraphs(oldText), tokenizeParagraphs(newText), DIFF_CONFIG.maxEditDistance) ||
+    [{ op: 'delete' as const, text: oldText }, { op: 'insert' as const, text: newText }];
+
+  return mergeSegments(segments);
+}
+
+/**
+ * Count inserted and deleted words in a diff
+ */
+export function countChangedWords(segments: DiffSegment[]): { insertedWords: number; deletedWords: number } {
+  let insertedWords = 0;
+  let deletedWords = 0;
+  for (const segment of segments) {
+    const words = (segment.text.match(/[^\s]+/g) || []).length;
+    if (segment.op === 'insert') insertedWords += words;
+    if (segment.op === 'delete') deletedWords += words;
+  }
+  return { insertedWords, deletedWords };
+}
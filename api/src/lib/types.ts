@@ -1,5 +1,13 @@
 // TypeScript type definitions for FAA Search API
 
+/**
+ * Character range in a parent document's text
+ */
+export interface TextSpan {
+  startChar: number;
+  endChar: number;
+}
+
 /**
  * Document with optional metadata fields for structured querying
  */
@@ -16,6 +24,40 @@ export interface Document {
   revision?: string;        // e.g., "A", "B", "C"
   changeNumber?: string;    // e.g., "CHG 1", "CHG 2"
   status?: string;          // e.g., "Current", "Cancelled"
+  // Provenance for citations
+  url?: string;             // Link to the source (eCFR page or DRS download)
+  chunkIndex?: number;      // Chunk index within the parent document (vector search results)
+  startChar?: number;       // Start offset of this chunk in the parent document
+  endChar?: number;         // End offset of this chunk in the parent document
+  passages?: TextSpan[];    // Set when the chunk was trimmed to fit the context: the excerpts kept
+  pageStart?: number;       // First PDF page of this chunk (1-based)
+  pageEnd?: number;         // Last PDF page of this chunk
+  headingPath?: string[];   // Headings enclosing this chunk, e.g. ["CHAPTER 8. SAFETY", "8. ANALYSIS", "c. Failures"]
+  effectiveDate?: string;   // Date the CFR text took effect (historical lookups)
+  referencedBy?: string[];  // Cross-referenced section: IDs of the documents citing it
+  cfrParagraphs?: string[]; // eCFR section: paragraph paths labeled in the chunk, e.g. "(b)(2)"
+}
+
+/**
+ * Inline citation linking an [n] marker in the answer to a context block
+ */
+export interface Citation {
+  index: number;            // Context block number, as cited in the answer (e.g., 3 for "[3]")
+  title: string;
+  docType?: string;         // e.g., "eCFR", "AC"
+  docNumber?: string;       // e.g., "25.1309-1B"
+  cfrPart?: number;         // e.g., 25
+  cfrSection?: string;      // e.g., "1309"
+  chunkIndex?: number;      // Chunk index within the parent document
+  startChar?: number;       // Chunk start offset in the parent document (omitted when unknown)
+  endChar?: number;         // Chunk end offset in the parent document (omitted when unknown)
+  passages?: TextSpan[];    // Excerpts the answer saw, when the chunk was trimmed to fit the context
+  url?: string;
+  paragraphs?: string[];    // CFR paragraphs named next to the marker, e.g. ["(b)(2)"]
+  pageStart?: number;       // First PDF page of the cited chunk
+  pageEnd?: number;         // Last PDF page of the cited chunk
+  headingPath?: string[];   // Headings enclosing the cited chunk
+  paragraph?: string;       // Paragraph designator of the cited chunk, e.g. "8.c"
 }
 
 /**
@@ -27,8 +69,16 @@ export interface CFRSource {
   section: string;       // e.g., "2150"
   sectionTitle: string;  // e.g., "Stall speed"
   url: string;           // Direct link to eCFR
+  effectiveDate?: string; // Date this text took effect (historical lookups)
+  origin?: CFRSectionOrigin; // How a live-fetched section was found
 }
 
+/**
+ * How a live-fetched CFR section was found: proposed by the classifier,
+ * discovered by eCFR full-text search, pinned by the user, or cited by another document
+ */
+export type CFRSectionOrigin = 'classifier' | 'search' | 'pinned' | 'reference';
+
 /**
  * DRS Source info in RAG response
  */
@@ -39,6 +89,121 @@ export interface DRSSource {
   url?: string;
 }
 
+/**
+ * Grounding verdict for a single claim in the answer
+ */
+export type GroundingVerdict = 'supported' | 'partially' | 'unsupported';
+
+/**
+ * Verification result for one claim (sentence) of the answer
+ */
+export interface ClaimVerification {
+  text: string;             // Claim text exactly as it appears in the answer
+  start: number;            // Start offset of the claim in the answer
+  end: number;              // End offset of the claim in the answer
+  verdict: GroundingVerdict;
+  lexicalScore: number;     // Fraction of claim terms found in the best-matching source (0-1)
+  sourceIndex?: number;     // Best-matching context block number (1-based)
+  reason?: string;          // Why the claim is not fully supported
+}
+
+/**
+ * Answer grounding report
+ */
+export interface GroundingReport {
+  score: number;            // Overall grounding score (0-1)
+  claims: ClaimVerification[];
+  method: 'lexical' | 'lexical+llm';
+}
+
+/**
+ * Index filter levels, from most to least specific
+ * - classified: classified CFR parts plus classified document types
+ * - document_types: eCFR plus classified document types, any part
+ * - current: everything except cancelled documents
+ * - unfiltered: no filter
+ */
+export type RetrievalFilterLevel = 'classified' | 'document_types' | 'current' | 'unfiltered';
+
+/**
+ * Index filter that produced the vector search results
+ */
+export interface AppliedRetrievalFilter {
+  level: RetrievalFilterLevel;
+  filter?: string;          // OData filter sent to the index
+  description: string;      // Human-readable summary
+  hits: number;             // Relevant hits at this level
+  attempts: number;         // Levels tried (1 = no relaxation needed)
+}
+
+/**
+ * Point in time the CFR text was read at (e.g. a frozen certification basis)
+ */
+export interface PointInTime {
+  requested: string;        // As given, e.g. "2010-01-01" or "Amendment 25-100"
+  asOf: string;             // Date the CFR text was read at (YYYY-MM-DD)
+  amendment?: string;       // Amendment the date was resolved from, e.g. "25-100"
+}
+
+/**
+ * Aircraft category of a certification project
+ */
+export type AircraftCategory =
+  | 'normal_airplane'       // Part 23
+  | 'transport_airplane'    // Part 25
+  | 'normal_rotorcraft'     // Part 27
+  | 'transport_rotorcraft'  // Part 29
+  | 'engine'                // Part 33
+  | 'propeller';            // Part 35
+
+/**
+ * One part of a certification basis, pinned to an amendment or date
+ */
+export interface CertificationBasisPart {
+  part: number;             // e.g., 25
+  amendment?: string;       // e.g., "25-100" - CFR text as of this amendment
+  asOf?: string;            // YYYY-MM-DD, used when no amendment is given
+}
+
+/**
+ * Project profile: the certification basis a session is answered against
+ */
+export interface ProjectProfile {
+  id: string;
+  name: string;                       // e.g., "Model 500 type certificate"
+  aircraftCategory: AircraftCategory;
+  basis: CertificationBasisPart[];    // Applicable 14 CFR parts (unpinned parts use current text)
+  specialConditions?: string[];       // e.g., "25-612-SC: Rechargeable lithium batteries"
+  preferredACs?: string[];            // e.g., ["25.1309-1B", "20-115D"]
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A document block as included in the answer context
+ */
+export interface ContextBlockReport {
+  index: number;            // Context block number, as cited in the answer
+  title: string;
+  category: 'cfr' | 'guidance';
+  originalTokens: number;   // Estimated tokens before trimming
+  includedTokens: number;   // Estimated tokens included
+  truncated: boolean;       // Trimmed to its most relevant passages
+}
+
+/**
+ * What went into the answer context and what was cut to fit the token budget
+ */
+export interface ContextReport {
+  budgetTokens: number;
+  usedTokens: number;         // Estimated tokens of history + documents
+  historyTokens: number;
+  historyTurns: number;       // Conversation turns included
+  historyTurnsOmitted: number;
+  blocks: ContextBlockReport[];
+  omitted: string[];          // Titles of documents left out to stay within budget
+}
+
 /**
  * RAG API response
  */
@@ -51,14 +216,259 @@ export interface RAGResponse {
   ecfrUsed?: boolean;           // True if eCFR API was used
   cfrSources?: CFRSource[];     // CFR sections used in response
   drsSources?: DRSSource[];     // DRS documents used in response
+  citations?: Citation[];       // Context blocks cited inline as [n] in the answer
+  grounding?: GroundingReport;  // Per-claim verification of the answer against the sources
   classificationUsed?: boolean; // True if classifier was used
   vectorSearchUsed?: boolean;   // True if vector search was used
+  retrievalFilter?: AppliedRetrievalFilter; // Index filter applied to vector search
+  contextReport?: ContextReport; // Token budget usage of the answer context
+  pointInTime?: PointInTime;    // Historical CFR lookup (text as of a date or amendment)
+  profileId?: string;           // Project profile the answer was scoped to
+  referenceGraph?: CFRReferenceGraph; // CFR citations followed from the retrieved documents
+  revisionWarnings?: RevisionWarning[]; // Cited documents that were superseded or cancelled
   // Multi-turn conversation fields
   sessionId?: string;           // Session ID for conversation continuity
   needsClarification?: boolean; // True if the query was too vague/broad
   clarifyingQuestion?: string;  // Follow-up question to ask the user
 }
 
+/**
+ * A document or CFR section in the reference graph
+ */
+export interface CFRReferenceNode {
+  id: string;                 // Section (e.g., "25.1309") or document (e.g., "AC 25.1309-1A")
+  title?: string;
+  depth: number;              // 0 = retrieved for the question, 1 = cited by a retrieved document, ...
+  included: boolean;          // Text was added to the context
+}
+
+/**
+ * A citation from one document to a CFR section
+ */
+export interface CFRReferenceEdge {
+  from: string;               // Citing node ID
+  to: string;                 // Cited section, e.g., "21.17"
+  citation: string;           // As written, e.g., "§ 21.17(a)"
+}
+
+/**
+ * CFR citations followed from the retrieved documents
+ */
+export interface CFRReferenceGraph {
+  nodes: CFRReferenceNode[];
+  edges: CFRReferenceEdge[];
+}
+
+/**
+ * A run of text in a regulation diff
+ */
+export interface CFRDiffSegment {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Changes to one CFR section between two dates
+ */
+export interface CFRSectionDiff {
+  part: number;               // e.g., 23
+  section: string;            // e.g., "2150"
+  sectionTitle: string;
+  status: 'changed' | 'unchanged' | 'added' | 'removed';
+  fromEffectiveDate?: string; // Date the older text took effect (absent if added)
+  toEffectiveDate?: string;   // Date the newer text took effect (absent if removed)
+  segments: CFRDiffSegment[]; // Word-level diff, older to newer
+  insertedWords: number;
+  deletedWords: number;
+  url?: string;               // eCFR link to the newer text
+}
+
+/**
+ * Response from GET /api/cfr/diff
+ */
+export interface CFRDiffResponse {
+  title: number;              // e.g., 14
+  part: number;
+  section?: string;           // Set for a section diff
+  subpart?: string;           // Set for a subpart diff
+  fromDate: string;
+  toDate: string;
+  sections: CFRSectionDiff[]; // Subpart diffs list only sections that changed
+  unchangedSections?: number; // Subpart sections without changes between the dates
+  skippedSections?: string[]; // Changed sections not compared (over the per-request limit)
+  historyNote?: string;       // Set when a requested date predates eCFR history (compared from its start instead)
+}
+
+/**
+ * Node of a CFR part's table of contents (GET /api/cfr/structure/{part})
+ */
+export interface CFRStructureNode {
+  type: 'part' | 'subpart' | 'subject_group' | 'section' | 'appendix';
+  identifier: string;         // e.g., "25", "F", "25.1309", "Appendix K to Part 25"
+  label: string;              // e.g., "§ 25.1309", "Subpart F"
+  description: string;        // e.g., "Equipment, systems, and installations."
+  reserved?: boolean;         // [Reserved] placeholder with no text
+  children?: CFRStructureNode[];
+}
+
+/**
+ * Text of one CFR section (GET /api/cfr/section/{part}/{section})
+ */
+export interface CFRSectionText {
+  title: number;
+  part: number;
+  section: string;            // e.g., "1309"
+  sectionTitle: string;
+  content: string;
+  effectiveDate: string;      // Date the text took effect (or the issue date read)
+  asOf?: string;              // Requested point in time
+  url: string;
+  intro?: string[];           // Undesignated text before the first paragraph
+  paragraphs?: CFRParagraph[]; // Paragraph tree parsed from the eCFR XML
+  tables?: CFRTable[];        // Tables outside any paragraph
+  notes?: string[];
+  sourceNote?: string;        // e.g., "[Amdt. 25-23, 35 FR 5679, Apr. 8, 1970]"
+  authority?: string;
+}
+
+/**
+ * Table (GPOTABLE) in a CFR section
+ */
+export interface CFRTable {
+  title?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Designated paragraph of a CFR section, e.g. (b)(2)
+ */
+export interface CFRParagraph {
+  designator: string;         // This level only, e.g., "(2)"
+  path: string;               // Full designator path, e.g., "(b)(2)"
+  heading?: string;           // Italic paragraph heading, e.g., "Applicability."
+  text: string;               // Text of this paragraph without its designator or children
+  children: CFRParagraph[];
+  tables?: CFRTable[];
+  citations?: string[];       // CFR citations in the text, e.g., ["§ 21.17(a)"]
+}
+
+/**
+ * Serial number range an AD applies to (inclusive; open-ended when from or to is missing)
+ */
+export interface ADSerialRange {
+  model?: string;             // Model the range is listed for, if the AD lists ranges per model
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Applicability and compliance times extracted from an airworthiness directive
+ */
+export interface ADRecord {
+  adNumber: string;           // e.g., "2024-02-05"
+  title: string;
+  status?: string;            // DRS status, e.g., "Current"
+  effectiveDate?: string;     // YYYY-MM-DD
+  makes: string[];            // e.g., ["The Boeing Company"]
+  models: string[];           // Aircraft models, e.g., ["737-800", "737-900ER"]
+  serialRanges: ADSerialRange[];
+  serialNumbers: string[];    // Individually listed serial numbers
+  engineModels: string[];     // e.g., ["CFM56-7B24"]
+  propellerModels: string[];
+  complianceTimes: string[];  // e.g., ["Within 500 flight hours after the effective date of this AD"]
+  supersedes?: string;        // AD number this AD replaces
+  extraction: 'llm' | 'pattern';  // How the applicability was extracted
+  url?: string;
+}
+
+/**
+ * Aircraft configuration checked against ADs (POST /api/ad/applicability)
+ */
+export interface AircraftConfiguration {
+  make: string;               // e.g., "Boeing"
+  model: string;              // e.g., "737-800"
+  serialNumber?: string;
+  engineModels?: string[];
+  propellerModels?: string[];
+}
+
+/**
+ * How certainly an AD applies: "possibly_applies" when the configuration lacks
+ * a detail the AD depends on (e.g. the serial number) or its applicability couldn't be extracted
+ */
+export type ADMatchLevel = 'applies' | 'possibly_applies';
+
+/**
+ * An AD matching an aircraft configuration
+ */
+export interface ADMatch {
+  ad: ADRecord;
+  match: ADMatchLevel;
+  reasons: string[];          // e.g., ["Model 737-800", "S/N 30001 in 29000-31000"]
+}
+
+/**
+ * Response from POST /api/ad/applicability
+ */
+export interface ADApplicabilityResponse {
+  configuration: AircraftConfiguration;
+  matches: ADMatch[];         // Applies first, then possibly applies; newest first
+  checked: number;            // ADs whose applicability was checked
+}
+
+/**
+ * One revision or change of a document series (e.g. AC 23-8C CHG 1)
+ */
+export interface DocumentRevision {
+  docNumber: string;          // As listed in DRS, e.g., "23-8C CHG 1"
+  revision: string;           // Revision letter, '' for the original issue
+  changeNumber?: string;      // e.g., "CHG 1"
+  status?: string;            // DRS status, e.g., "Current", "Cancelled"
+  title: string;
+  lastModified?: string;
+  url?: string;
+}
+
+/**
+ * Revision chain of an AC or Order series (GET /api/documents/lineage/{docType}/{docNumber})
+ */
+export interface DocumentLineage {
+  docType: string;            // e.g., "AC"
+  series: string;             // Number without revision letter or change, e.g., "23-8"
+  revisions: DocumentRevision[]; // Oldest first
+  current?: DocumentRevision; // Latest revision in effect (absent if the series was cancelled)
+}
+
+/**
+ * A cited document that is no longer in effect
+ */
+export interface RevisionWarning {
+  docType: string;
+  docNumber: string;          // As cited, e.g., "23-8B"
+  status: 'superseded' | 'cancelled';
+  citationIndexes: number[];  // Context blocks citing it ([n])
+  current?: DocumentRevision; // Version in effect, if any
+}
+
+/**
+ * Pipeline stages reported by the streaming ask endpoint
+ */
+export type RAGStreamStage = 'classified' | 'vector_hits' | 'ecfr_searched' | 'ecfr_fetched' | 'compared' | 'drs_fetched' | 'reranked' | 'references_fetched' | 'generating' | 'verifying';
+
+/**
+ * Server-Sent Event payloads emitted by POST /api/ask/stream
+ * - stage: a pipeline step finished (items lists what was found, e.g. section numbers or titles)
+ * - token: incremental answer text
+ * - done: final response with sources (same shape as POST /api/ask)
+ * - error: pipeline failed; status mirrors the HTTP status the blocking endpoint would return
+ */
+export type RAGStreamEvent =
+  | { type: 'stage'; stage: RAGStreamStage; message: string; count?: number; items?: string[] }
+  | { type: 'token'; text: string }
+  | { type: 'done'; response: RAGResponse }
+  | { type: 'error'; error: string; status: number };
+
 /**
  * Request to ask a question
  */
@@ -66,6 +476,9 @@ export interface AskQuestionRequest {
   question: string;
   sessionId?: string;         // Optional session ID for conversation continuity
   isClarifying?: boolean;     // True if this is a response to a clarifying question
+  asOf?: string;              // Read CFR text as of a date (YYYY-MM-DD) or amendment (e.g. "Amendment 25-100")
+  profileId?: string;         // Project profile to answer against ('' clears it; kept for the session)
+  pinnedSections?: string[];  // CFR sections always included in the context (e.g. ["25.1309"])
 }
 
 /**
@@ -0,0 +1,149 @@
+/**
+ * Vector Store
+ * Backend-independent interface for the document index used by retrieval
+ * and indexing, plus the schema shared by all backends
+ *
+ * Backends (VECTOR_STORE):
+ * - azure: Azure AI Search (default)
+ * - local: file-backed in-process store (brute-force cosine + BM25)
+ */
+
+// Document interface for the search index
+export interface FADocument {
+  id: string;                    // Unique document ID (e.g., "cfr-14-23-2240" or "ac-23-8b-chunk-3")
+  documentType: string;          // Document type (e.g., "eCFR", "AC", "AD", "TSO")
+  title: string;                 // Document title (clean, without metadata prefix)
+  content: string;               // Chunk text content (~2K chars)
+  contentVector?: number[];      // Embedding vector (1024 dims for Cohere)
+  cfrPart?: number;              // CFR part number (e.g., 23, 25)
+  cfrSection?: string;           // CFR section (e.g., "2240")
+  documentNumber?: string;       // AC/AD number (e.g., "23-8C", "25-28")
+  effectiveDate?: string;        // ISO date string
+  source?: string;               // Source URL or reference
+  lastIndexed: Date | string;    // When indexed
+  // Chunking metadata
+  documentId?: string;           // Parent document ID (e.g., "drs-ac-23-8c")
+  chunkIndex?: number;           // 0-based chunk index within parent doc
+  totalChunks?: number;          // Total chunks for this parent document
+  chunkTitle?: string;           // Section title for this chunk (if identified)
+  headingPath?: string[];        // Headings enclosing this chunk, outermost first
+  pageStart?: number;            // First PDF page of this chunk (1-based)
+  pageEnd?: number;              // Last PDF page of this chunk
+  startChar?: number;            // Start offset of this chunk in the parent document's text
+  endChar?: number;              // End offset of this chunk in the parent document's text
+  tableCaption?: string;         // Caption of a table indexed on its own (e.g., "Table 2. Test Conditions")
+  // Indexed version (for incremental re-indexing)
+  docLastModified?: string;      // DRS docLastModifiedDate the document was indexed from
+  contentHash?: string;          // SHA-256 of the document's extracted text
+  // Revision metadata (from the document number and DRS)
+  revision?: string;             // Document revision (e.g., "A", "B", "C")
+  changeNumber?: string;         // Change number (e.g., "CHG 1", "CHG 2")
+  status?: string;               // Document status (e.g., "Current", "Cancelled")
+}
+
+// Fields to update on an indexed document
+export type FADocumentPatch = Pick<FADocument, 'id'> & Partial<Omit<FADocument, 'id' | 'contentVector'>>;
+
+// Search result with score
+export interface SearchResult {
+  document: FADocument;
+  score: number;
+  highlights?: string[];
+}
+
+// Search options accepted by vectorSearch/hybridSearch
+export interface SearchOptions {
+  top?: number;
+  filter?: string;               // OData filter expression
+  documentTypes?: string[];      // Restrict to these document types (OR'ed)
+}
+
+// Index statistics
+export interface IndexStats {
+  documentCount: number;         // Distinct parent documents
+  chunkCount: number;            // Indexed chunks
+}
+
+/**
+ * Document index backend
+ * Embeddings are generated by the caller; documents passed to indexDocuments
+ * must already carry contentVector
+ */
+export interface VectorStore {
+  readonly name: string;
+
+  /** Whether the backend is configured and usable */
+  isConfigured(): boolean;
+
+  /** Create the index if it doesn't exist */
+  ensureIndexExists(): Promise<void>;
+
+  /** Insert or replace documents (matched by id) */
+  indexDocuments(docs: FADocument[]): Promise<void>;
+
+  /** Update fields of existing documents (matched by id), keeping the other fields and the vector */
+  mergeDocuments(docs: FADocumentPatch[]): Promise<void>;
+
+  /** Documents matching a filter, with only the given fields */
+  listDocuments(filter: string | undefined, fields: Array<keyof FADocument>, maxResults: number): Promise<FADocument[]>;
+
+  /** Pure vector similarity search */
+  vectorSearch(queryVector: number[], top: number, filter?: string): Promise<SearchResult[]>;
+
+  /** Keyword + vector search fused into a single ranking */
+  hybridSearch(query: string, queryVector: number[], top: number, filter?: string): Promise<SearchResult[]>;
+
+  /** Get a document by id, or null if it isn't indexed */
+  getDocument(id: string): Promise<FADocument | null>;
+
+  /** Delete documents by id */
+  deleteDocuments(ids: string[]): Promise<void>;
+
+  /** Number of indexed chunks */
+  getDocumentCount(): Promise<number>;
+
+  /** Normalized document numbers (e.g. "23-8C") of indexed documents */
+  getIndexedDocumentNumbers(documentType: string | undefined, maxResults: number): Promise<Set<string>>;
+
+  /** Indexed CFR sections as "part.section" (e.g. "25.631") */
+  getIndexedCFRSections(maxResults: number): Promise<Set<string>>;
+
+  /** Delete every document; returns the number deleted */
+  deleteAllDocuments(): Promise<number>;
+
+  /** Parent document and chunk counts */
+  getIndexStats(): Promise<IndexStats>;
+}
+
+/**
+ * Fields returned by searches (everything except the vector)
+ */
+export const SEARCH_SELECT_FIELDS: Array<keyof FADocument> = [
+  'id', 'documentType', 'title', 'content', 'cfrPart', 'cfrSection', 'documentNumber',
+  'effectiveDate', 'source', 'lastIndexed', 'documentId', 'chunkIndex', 'chunkTitle',
+  'revision', 'changeNumber', 'status', 'headingPath', 'pageStart', 'pageEnd', 'startChar', 'endChar', 'tableCaption'
+];
+
+/**
+ * Fields matched by the keyword part of hybrid search
+ */
+export const KEYWORD_SEARCH_FIELDS: Array<keyof FADocument> = ['title', 'content', 'cfrSection', 'documentNumber', 'tableCaption'];
+
+/**
+ * Combine a caller filter with a document type restriction
+ */
+export function buildFilterString(options: SearchOptions): string | undefined {
+  let filterString = options.filter || '';
+  if (options.documentTypes && options.documentTypes.length > 0) {
+    const typeFilter = options.documentTypes.map(t => `documentType eq '${t}'`).join(' or ');
+    filterString = filterString ? `(${filterString}) and (${typeFilter})` : typeFilter;
+  }
+  return filterString || undefined;
+}
+
+/**
+ * Normalize an indexed document number for lookup: "AC 23-8C" -> "23-8C"
+ */
+export function normalizeIndexedDocumentNumber(documentNumber: string): string {
+  return documentNumber.replace(/^(AC|AD|TSO|Order)\s*/i, '').trim().toUpperCase();
+}
@@ -0,0 +1,136 @@
+import type { Component } from "solid-js";
+import { Show, For, createSignal } from "solid-js";
+import type { ADApplicabilityResponse, ADMatchLevel } from "../types";
+import { api } from "../services/api";
+
+interface ADCheckerProps {
+  onClose: () => void;
+}
+
+const MATCH_LABELS: Record<ADMatchLevel, string> = {
+  applies: "Applies",
+  possibly_applies: "Possibly applies",
+};
+
+// Comma-separated model list, e.g. "CFM56-7B24, CFM56-7B26"
+const splitList = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+
+const ADChecker: Component<ADCheckerProps> = (props) => {
+  const [make, setMake] = createSignal("");
+  const [model, setModel] = createSignal("");
+  const [serialNumber, setSerialNumber] = createSignal("");
+  const [engineModels, setEngineModels] = createSignal("");
+  const [propellerModels, setPropellerModels] = createSignal("");
+  const [result, setResult] = createSignal<ADApplicabilityResponse | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const handleCheck = async (e: Event) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    try {
+      setResult(
+        await api.checkADApplicability({
+          make: make().trim(),
+          model: model().trim(),
+          serialNumber: serialNumber().trim() || undefined,
+          engineModels: splitList(engineModels()),
+          propellerModels: splitList(propellerModels()),
+        })
+      );
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <section class="ad-checker">
+      <div class="regulation-diff-header">
+        <h2>Airworthiness Directive Check</h2>
+        <button class="regulation-diff-close" onClick={props.onClose} title="Close">
+          ✕
+        </button>
+      </div>
+
+      <form class="regulation-diff-form" onSubmit={handleCheck}>
+        <input type="text" value={make()} onInput={(e) => setMake(e.currentTarget.value)} placeholder="Make (e.g. Boeing)" />
+        <input type="text" value={model()} onInput={(e) => setModel(e.currentTarget.value)} placeholder="Model (e.g. 737-800)" />
+        <input
+          type="text"
+          value={serialNumber()}
+          onInput={(e) => setSerialNumber(e.currentTarget.value)}
+          placeholder="Serial number"
+        />
+        <input
+          type="text"
+          value={engineModels()}
+          onInput={(e) => setEngineModels(e.currentTarget.value)}
+          placeholder="Engine models"
+        />
+        <input
+          type="text"
+          value={propellerModels()}
+          onInput={(e) => setPropellerModels(e.currentTarget.value)}
+          placeholder="Propeller models"
+        />
+        <button type="submit" disabled={!make().trim() || !model().trim() || isLoading()}>
+          {isLoading() ? "Checking..." : "Check ADs"}
+        </button>
+      </form>
+
+      <Show when={error()}>
+        <div class="error">{error()}</div>
+      </Show>
+
+      <Show when={result()}>
+        {(check) => (
+          <div class="ad-results">
+            <p class="regulation-diff-summary">
+              {check().matches.filter((m) => m.match === "applies").length} apply,{" "}
+              {check().matches.filter((m) => m.match === "possibly_applies").length} possibly apply ({check().checked} ADs
+              checked)
+            </p>
+            <ul>
+              <For each={check().matches}>
+                {(match) => (
+                  <li class={`ad-match ad-${match.match}`}>
+                    <div class="ad-match-header">
+                      <Show when={match.ad.url} fallback={<strong>AD {match.ad.adNumber}</strong>}>
+                        <a href={match.ad.url} target="_blank" rel="noopener noreferrer">
+                          <strong>AD {match.ad.adNumber}</strong>
+                        </a>
+                      </Show>
+                      <span class="ad-match-level">{MATCH_LABELS[match.match]}</span>
+                      <Show when={match.ad.effectiveDate}>
+                        <span class="ad-match-date">Effective {match.ad.effectiveDate}</span>
+                      </Show>
+                    </div>
+                    <div class="ad-match-title">{match.ad.title}</div>
+                    <div class="ad-match-reasons">{match.reasons.join(" · ")}</div>
+                    <Show when={match.ad.supersedes}>
+                      <div class="ad-match-reasons">Supersedes AD {match.ad.supersedes}</div>
+                    </Show>
+                    <Show when={match.ad.complianceTimes.length > 0}>
+                      <ul class="ad-compliance">
+                        <For each={match.ad.complianceTimes}>{(time) => <li>{time}</li>}</For>
+                      </ul>
+                    </Show>
+                  </li>
+                )}
+              </For>
+            </ul>
+            <Show when={check().matches.length === 0}>
+              <p class="regulation-diff-hint">No current ADs found for this configuration.</p>
+            </Show>
+          </div>
+        )}
+      </Show>
+    </section>
+  );
+};
+
+export default ADChecker;
@@ -1,16 +1,32 @@
 import type { Component } from "solid-js";
-import { Show } from "solid-js";
+import { Show, createSignal } from "solid-js";
 import { conversationState, conversationActions } from "../stores/conversation";
 import Header from "./Header";
 import MessageList from "./MessageList";
 import QuestionInput from "./QuestionInput";
 import LoadingIndicator from "./LoadingIndicator";
+import RegulationDiff from "./RegulationDiff";
+import RegulationBrowser from "./RegulationBrowser";
+import ADChecker from "./ADChecker";
+import type { CFRSectionText } from "../types";
 
 const ChatInterface: Component = () => {
+  const [showDiff, setShowDiff] = createSignal(false);
+  const [showBrowser, setShowBrowser] = createSignal(false);
+  const [showADChecker, setShowADChecker] = createSignal(false);
+  const [draft, setDraft] = createSignal<{ text: string } | null>(null);
+
   const handleAskQuestion = (question: string) => {
     conversationActions.askQuestion(question);
   };
 
+  // Pin the section into the next question's context and start the question for the user
+  const handleAskAboutSection = (section: CFRSectionText) => {
+    conversationActions.pinSection(`${section.part}.${section.section}`);
+    setDraft({ text: `About ${section.sectionTitle.replace(/\.$/, "")}: ` });
+    setShowBrowser(false);
+  };
+
   const handleClearConversation = () => {
     if (confirm("Are you sure you want to clear the conversation history?")) {
       conversationActions.clearMessages();
@@ -23,11 +39,31 @@ const ChatInterface: Component = () => {
         onClearConversation={handleClearConversation}
         onToggleContext={conversationActions.toggleContextVisibility}
         showContext={conversationState.showContext}
+        onToggleDiff={() => setShowDiff(!showDiff())}
+        showDiff={showDiff()}
+        onToggleBrowser={() => setShowBrowser(!showBrowser())}
+        showBrowser={showBrowser()}
+        onToggleADChecker={() => setShowADChecker(!showADChecker())}
+        showADChecker={showADChecker()}
+        profileId={conversationState.profileId}
+        onSelectProfile={conversationActions.setProfile}
         onExport={conversationActions.exportConversation}
         hasMessages={conversationState.messages.length > 0}
       />
 
       <main class="chat-main">
+        <Show when={showBrowser()}>
+          <RegulationBrowser onClose={() => setShowBrowser(false)} onAskAboutSection={handleAskAboutSection} />
+        </Show>
+
+        <Show when={showADChecker()}>
+          <ADChecker onClose={() => setShowADChecker(false)} />
+        </Show>
+
+        <Show when={showDiff()}>
+          <RegulationDiff onClose={() => setShowDiff(false)} />
+        </Show>
+
         <MessageList
           messages={conversationState.messages}
           showContext={conversationState.showContext}
@@ -35,7 +71,7 @@ const ChatInterface: Component = () => {
         />
 
         <Show when={conversationState.isLoading}>
-          <LoadingIndicator message="Searching FAA regulations..." />
+          <LoadingIndicator message={conversationState.loadingStage || "Searching FAA regulations..."} />
         </Show>
 
         <Show when={conversationState.rateLimitCountdown !== null}>
@@ -59,6 +95,9 @@ const ChatInterface: Component = () => {
         <QuestionInput
           onSubmit={handleAskQuestion}
           isLoading={conversationState.isLoading}
+          draft={draft()}
+          pinnedSections={conversationState.pinnedSections}
+          onUnpinSection={conversationActions.unpinSection}
         />
       </div>
     </div>
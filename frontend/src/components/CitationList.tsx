@@ -0,0 +1,88 @@
+import type { Component } from "solid-js";
+import { For, Show } from "solid-js";
+import type { Citation } from "../types";
+
+interface CitationListProps {
+  messageId: string;
+  citations: Citation[];
+}
+
+// Short label for a citation, e.g. "14 CFR § 25.1309" or "AC 25.1309-1B"
+const citationLabel = (citation: Citation) => {
+  if (citation.cfrPart && citation.cfrSection) {
+    return `14 CFR § ${citation.cfrPart}.${citation.cfrSection}`;
+  }
+  if (citation.docType && citation.docNumber) {
+    return citation.docNumber.toUpperCase().startsWith(citation.docType.toUpperCase())
+      ? citation.docNumber
+      : `${citation.docType} ${citation.docNumber}`;
+  }
+  return citation.title;
+};
+
+// eCFR link to a paragraph of the cited section, e.g. "...section-25.1309#p-25.1309(b)(1)"
+const paragraphUrl = (citation: Citation, path: string) =>
+  citation.url ? `${citation.url.split("#")[0]}#p-${citation.cfrPart}.${citation.cfrSection}${path}` : undefined;
+
+// PDF link opening at the cited page, e.g. "...AC_25.1309-1B.pdf#page=27"
+const pageUrl = (citation: Citation) =>
+  citation.url && citation.pageStart ? `${citation.url.split("#")[0]}#page=${citation.pageStart}` : undefined;
+
+// Page range, e.g. "p. 27" or "pp. 27-28"
+const pageLabel = (citation: Citation) =>
+  citation.pageEnd && citation.pageEnd !== citation.pageStart
+    ? `pp. ${citation.pageStart}-${citation.pageEnd}`
+    : `p. ${citation.pageStart}`;
+
+const CitationList: Component<CitationListProps> = (props) => {
+  return (
+    <div class="citations">
+      <h4>Citations:</h4>
+      <ol>
+        <For each={props.citations}>
+          {(citation) => (
+            <li id={`cite-${props.messageId}-${citation.index}`} value={citation.index}>
+              <Show when={citation.url} fallback={<strong>{citationLabel(citation)}</strong>}>
+                <a href={citation.url} target="_blank" rel="noopener noreferrer">
+                  <strong>{citationLabel(citation)}</strong>
+                </a>
+              </Show>
+              <Show when={citation.paragraphs && citation.paragraphs.length > 0}>
+                <span class="citation-paragraphs">
+                  <For each={citation.paragraphs}>
+                    {(path) => (
+                      <a href={paragraphUrl(citation, path)} target="_blank" rel="noopener noreferrer">
+                        {path}
+                      </a>
+                    )}
+                  </For>
+                </span>
+              </Show>
+              <Show when={citation.paragraph || citation.pageStart}>
+                <span class="citation-location" title={citation.headingPath?.join(" > ")}>
+                  <Show when={citation.paragraph}>, para {citation.paragraph}</Show>
+                  <Show when={citation.pageStart}>
+                    {", "}
+                    <Show when={pageUrl(citation)} fallback={pageLabel(citation)}>
+                      <a href={pageUrl(citation)} target="_blank" rel="noopener noreferrer">
+                        {pageLabel(citation)}
+                      </a>
+                    </Show>
+                  </Show>
+                </span>
+              </Show>
+              <Show when={citation.title !== citationLabel(citation)}>
+                {" "}– {citation.title}
+              </Show>
+              <Show when={citation.chunkIndex !== undefined}>
+                <span class="citation-chunk"> (chunk {(citation.chunkIndex ?? 0) + 1})</span>
+              </Show>
+            </li>
+          )}
+        </For>
+      </ol>
+    </div>
+  );
+};
+
+export default CitationList;
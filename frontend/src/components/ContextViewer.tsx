@@ -1,14 +1,18 @@
 import type { Component } from "solid-js";
-import { Show, createSignal } from "solid-js";
+import { Show, For, createSignal } from "solid-js";
+import type { ContextReport } from "../types";
 
 interface ContextViewerProps {
   context: string;
+  report?: ContextReport;
   isVisible: boolean;
 }
 
 const ContextViewer: Component<ContextViewerProps> = (props) => {
   const [isExpanded, setIsExpanded] = createSignal(false);
 
+  const trimmedBlocks = () => props.report?.blocks.filter((b) => b.truncated) || [];
+
   return (
     <Show when={props.isVisible && props.context}>
       <div class="context-viewer">
@@ -19,6 +23,40 @@ const ContextViewer: Component<ContextViewerProps> = (props) => {
           {isExpanded() ? "Hide" : "Show"} Retrieved Context
         </button>
         <Show when={isExpanded()}>
+          <Show when={props.report}>
+            {(report) => (
+              <div class="context-report">
+                <span>
+                  ~{report().usedTokens.toLocaleString()} / {report().budgetTokens.toLocaleString()} tokens
+                  · {report().blocks.length} sources
+                  <Show when={report().historyTurns > 0}>
+                    {" "}· {report().historyTurns} previous turns
+                  </Show>
+                </span>
+                <Show when={trimmedBlocks().length > 0}>
+                  <span class="context-report-note">
+                    Trimmed to relevant passages:{" "}
+                    <For each={trimmedBlocks()}>
+                      {(block, i) => (
+                        <>
+                          {i() > 0 ? ", " : ""}[{block.index}] {block.title}
+                        </>
+                      )}
+                    </For>
+                  </span>
+                </Show>
+                <Show when={report().omitted.length > 0 || report().historyTurnsOmitted > 0}>
+                  <span class="context-report-note">
+                    Left out to fit the budget:{" "}
+                    {[
+                      ...report().omitted,
+                      ...(report().historyTurnsOmitted > 0 ? [`${report().historyTurnsOmitted} older turns`] : []),
+                    ].join(", ")}
+                  </span>
+                </Show>
+              </div>
+            )}
+          </Show>
           <div class="context-content">
             <pre>{props.context}</pre>
           </div>
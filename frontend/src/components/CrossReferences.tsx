@@ -0,0 +1,42 @@
+import type { Component } from "solid-js";
+import { For, Show } from "solid-js";
+import type { CFRReferenceGraph } from "../types";
+
+interface CrossReferencesProps {
+  graph: CFRReferenceGraph;
+}
+
+const formatId = (id: string) => (/^\d{1,3}\.\d+$/.test(id) ? `§ ${id}` : id);
+
+const CrossReferences: Component<CrossReferencesProps> = (props) => {
+  // Citing document -> sections it cites
+  const groups = () => {
+    const byFrom = new Map<string, string[]>();
+    for (const edge of props.graph.edges) {
+      byFrom.set(edge.from, [...(byFrom.get(edge.from) || []), edge.citation]);
+    }
+    return Array.from(byFrom);
+  };
+
+  const notIncluded = () => props.graph.nodes.filter((n) => n.depth > 0 && !n.included).length;
+
+  return (
+    <details class="cross-references">
+      <summary>Cross-references ({props.graph.edges.length})</summary>
+      <ul>
+        <For each={groups()}>
+          {([from, citations]) => (
+            <li>
+              <span class="cross-reference-from">{formatId(from)}</span> → {citations.join(", ")}
+            </li>
+          )}
+        </For>
+      </ul>
+      <Show when={notIncluded() > 0}>
+        <p class="cross-reference-note">{notIncluded()} cited sections were not added to the context.</p>
+      </Show>
+    </details>
+  );
+};
+
+export default CrossReferences;
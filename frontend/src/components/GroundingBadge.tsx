@@ -0,0 +1,27 @@
+import type { Component } from "solid-js";
+import { Show } from "solid-js";
+import type { GroundingReport } from "../types";
+
+interface GroundingBadgeProps {
+  grounding: GroundingReport;
+}
+
+const GroundingBadge: Component<GroundingBadgeProps> = (props) => {
+  const unsupported = () => props.grounding.claims.filter((c) => c.verdict === "unsupported").length;
+  const partial = () => props.grounding.claims.filter((c) => c.verdict === "partially").length;
+  const level = () => (props.grounding.score >= 0.8 ? "high" : props.grounding.score >= 0.5 ? "medium" : "low");
+
+  return (
+    <div class={`grounding-badge grounding-${level()}`} title={`Verified with ${props.grounding.method} check`}>
+      <span class="grounding-score">Grounding: {Math.round(props.grounding.score * 100)}%</span>
+      <Show when={unsupported() > 0}>
+        <span class="grounding-detail">{unsupported()} unsupported</span>
+      </Show>
+      <Show when={partial() > 0}>
+        <span class="grounding-detail">{partial()} partially supported</span>
+      </Show>
+    </div>
+  );
+};
+
+export default GroundingBadge;
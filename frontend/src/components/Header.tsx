@@ -1,10 +1,19 @@
 import type { Component } from "solid-js";
 import { Show } from "solid-js";
+import ProfileSelector from "./ProfileSelector";
 
 interface HeaderProps {
   onClearConversation: () => void;
   onToggleContext: () => void;
   showContext: boolean;
+  onToggleDiff: () => void;
+  showDiff: boolean;
+  onToggleBrowser: () => void;
+  showBrowser: boolean;
+  onToggleADChecker: () => void;
+  showADChecker: boolean;
+  profileId: string | null;
+  onSelectProfile: (profileId: string | null) => void;
   onExport: (format: "json" | "text") => void;
   hasMessages: boolean;
 }
@@ -15,6 +24,7 @@ const Header: Component<HeaderProps> = (props) => {
       <div class="header-content">
         <h1>FAA Aircraft Certification Search</h1>
         <div class="header-actions">
+          <ProfileSelector profileId={props.profileId} onSelect={props.onSelectProfile} />
           <button
             class="toggle-context"
             onClick={props.onToggleContext}
@@ -22,6 +32,27 @@ const Header: Component<HeaderProps> = (props) => {
           >
             {props.showContext ? "Hide" : "Show"} Context
           </button>
+          <button
+            class="toggle-browser"
+            onClick={props.onToggleBrowser}
+            title="Browse the table of contents of 14 CFR parts"
+          >
+            {props.showBrowser ? "Hide" : "Browse"} CFR
+          </button>
+          <button
+            class="toggle-ad-checker"
+            onClick={props.onToggleADChecker}
+            title="Find the airworthiness directives that apply to an aircraft"
+          >
+            {props.showADChecker ? "Hide" : "Check"} ADs
+          </button>
+          <button
+            class="toggle-diff"
+            onClick={props.onToggleDiff}
+            title="Compare versions of a regulation"
+          >
+            {props.showDiff ? "Hide" : "Compare"} Versions
+          </button>
           <Show when={props.hasMessages}>
             <button
               class="export-btn"
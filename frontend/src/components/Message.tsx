@@ -3,7 +3,11 @@ import { Show } from "solid-js";
 import { marked } from "marked";
 import type { Message as MessageType } from "../types";
 import SourceList from "./SourceList";
+import CitationList from "./CitationList";
+import GroundingBadge from "./GroundingBadge";
 import ContextViewer from "./ContextViewer";
+import CrossReferences from "./CrossReferences";
+import RevisionWarnings from "./RevisionWarnings";
 
 // Configure marked for safe rendering
 marked.setOptions({
@@ -21,6 +25,36 @@ const Message: Component<MessageProps> = (props) => {
     return new Date(timestamp).toLocaleTimeString();
   };
 
+  const escapeAttribute = (value: string) =>
+    value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+  // Wrap claims the grounding check did not fully support in <mark> tags (before markdown parsing)
+  const markUnsupportedClaims = (answer: string) => {
+    const flagged = (props.message.grounding?.claims || [])
+      .filter((c) => c.verdict !== "supported" && answer.slice(c.start, c.end) === c.text)
+      .sort((a, b) => b.start - a.start);
+
+    let result = answer;
+    for (const claim of flagged) {
+      const title = escapeAttribute(claim.reason || (claim.verdict === "unsupported" ? "Not supported by the sources" : "Partially supported"));
+      result = `${result.slice(0, claim.start)}<mark class="claim-${claim.verdict}" title="${title}">${claim.text}</mark>${result.slice(claim.end)}`;
+    }
+    return result;
+  };
+
+  // Render the answer, turning [n] markers into links to their footnotes
+  const renderAnswer = () => {
+    const html = marked.parse(markUnsupportedClaims(props.message.answer || '')) as string;
+    const cited = new Set((props.message.citations || []).map((c) => c.index));
+    if (cited.size === 0) return html;
+
+    return html.replace(/\[(\d+)\]/g, (match, n: string) =>
+      cited.has(Number(n))
+        ? `<sup class="citation-ref"><a href="#cite-${props.message.id}-${n}">[${n}]</a></sup>`
+        : match
+    );
+  };
+
   return (
     <div class="message">
       <div class="question">
@@ -48,9 +82,32 @@ const Message: Component<MessageProps> = (props) => {
               <span class="clarification-text">Needs more information</span>
             </div>
           </Show>
-          <div class="answer-content" innerHTML={marked.parse(props.message.answer || '') as string} />
-          <SourceList sources={props.message.sources} count={props.message.sourceCount} />
-          <ContextViewer context={props.message.context} isVisible={props.showContext} />
+          <Show when={props.message.pointInTime}>
+            <div class="point-in-time-badge">
+              <span class="point-in-time-icon">📅</span>
+              <span class="point-in-time-text">
+                Regulations as of {props.message.pointInTime!.asOf}
+                {props.message.pointInTime!.amendment ? ` (Amendment ${props.message.pointInTime!.amendment})` : ""}
+              </span>
+            </div>
+          </Show>
+          <div class="answer-content" innerHTML={renderAnswer()} />
+          <Show when={!props.message.isStreaming}>
+            <Show when={props.message.grounding && props.message.grounding.claims.length > 0}>
+              <GroundingBadge grounding={props.message.grounding!} />
+            </Show>
+            <Show when={props.message.revisionWarnings && props.message.revisionWarnings.length > 0}>
+              <RevisionWarnings warnings={props.message.revisionWarnings!} />
+            </Show>
+            <Show when={props.message.citations && props.message.citations.length > 0}>
+              <CitationList messageId={props.message.id} citations={props.message.citations!} />
+            </Show>
+            <SourceList sources={props.message.sources} count={props.message.sourceCount} />
+            <Show when={props.message.referenceGraph}>
+              <CrossReferences graph={props.message.referenceGraph!} />
+            </Show>
+            <ContextViewer context={props.message.context} report={props.message.contextReport} isVisible={props.showContext} />
+          </Show>
         </Show>
       </div>
     </div>
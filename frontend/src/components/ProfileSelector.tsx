@@ -0,0 +1,198 @@
+import type { Component } from "solid-js";
+import { Show, For, createSignal, onMount } from "solid-js";
+import type { AircraftCategory, CertificationBasisPart, ProjectProfile } from "../types";
+import { api } from "../services/api";
+
+interface ProfileSelectorProps {
+  profileId: string | null;
+  onSelect: (profileId: string | null) => void;
+}
+
+const CATEGORY_LABELS: Record<AircraftCategory, string> = {
+  normal_airplane: "Normal category airplane (Part 23)",
+  transport_airplane: "Transport category airplane (Part 25)",
+  normal_rotorcraft: "Normal category rotorcraft (Part 27)",
+  transport_rotorcraft: "Transport category rotorcraft (Part 29)",
+  engine: "Aircraft engine (Part 33)",
+  propeller: "Propeller (Part 35)",
+};
+
+/**
+ * Parse basis lines like "25 @ 25-100", "33 @ 2015-01-01" or "Part 21"
+ */
+function parseBasis(value: string): CertificationBasisPart[] | null {
+  const basis: CertificationBasisPart[] = [];
+  for (const entry of value.split(/[,\n]/).map((e) => e.trim()).filter(Boolean)) {
+    const match = entry.match(/^(?:part\s*)?(\d+)\s*(?:@\s*(.+))?$/i);
+    if (!match) return null;
+    const level = match[2]?.trim();
+    basis.push({
+      part: Number(match[1]),
+      amendment: level && !/^\d{4}-\d{2}-\d{2}$/.test(level) ? level : undefined,
+      asOf: level && /^\d{4}-\d{2}-\d{2}$/.test(level) ? level : undefined,
+    });
+  }
+  return basis;
+}
+
+function formatBasis(basis: CertificationBasisPart[]): string {
+  return basis.map((b) => `${b.part}${b.amendment ? ` @ ${b.amendment}` : b.asOf ? ` @ ${b.asOf}` : ""}`).join(", ");
+}
+
+const ProfileSelector: Component<ProfileSelectorProps> = (props) => {
+  const [profiles, setProfiles] = createSignal<ProjectProfile[]>([]);
+  const [editing, setEditing] = createSignal<ProjectProfile | "new" | null>(null);
+  const [name, setName] = createSignal("");
+  const [category, setCategory] = createSignal<AircraftCategory>("transport_airplane");
+  const [basis, setBasis] = createSignal("");
+  const [preferredACs, setPreferredACs] = createSignal("");
+  const [specialConditions, setSpecialConditions] = createSignal("");
+  const [isSaving, setIsSaving] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const selected = () => profiles().find((p) => p.id === props.profileId);
+
+  onMount(async () => {
+    try {
+      setProfiles(await api.listProfiles());
+      // The selected profile was deleted elsewhere
+      if (props.profileId && !selected()) props.onSelect(null);
+    } catch {
+      setProfiles([]);
+    }
+  });
+
+  const openForm = (profile: ProjectProfile | null) => {
+    setEditing(profile || "new");
+    setName(profile?.name || "");
+    setCategory(profile?.aircraftCategory || "transport_airplane");
+    setBasis(profile ? formatBasis(profile.basis) : "");
+    setPreferredACs(profile?.preferredACs?.join(", ") || "");
+    setSpecialConditions(profile?.specialConditions?.join("\n") || "");
+    setError(null);
+  };
+
+  const handleSave = async (e: Event) => {
+    e.preventDefault();
+    const parsedBasis = parseBasis(basis());
+    if (!parsedBasis || parsedBasis.length === 0) {
+      setError('Enter the basis as CFR parts, e.g. "25 @ 25-100, 33 @ 2015-01-01"');
+      return;
+    }
+
+    const current = editing();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await api.saveProfile(
+        {
+          name: name(),
+          aircraftCategory: category(),
+          basis: parsedBasis,
+          preferredACs: preferredACs().split(",").map((ac) => ac.trim()).filter(Boolean),
+          specialConditions: specialConditions().split("\n").map((sc) => sc.trim()).filter(Boolean),
+        },
+        current && current !== "new" ? current.id : undefined
+      );
+      setProfiles([saved, ...profiles().filter((p) => p.id !== saved.id)]);
+      props.onSelect(saved.id);
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const profile = selected();
+    if (!profile || !confirm(`Delete the project profile "${profile.name}"?`)) return;
+    try {
+      await api.deleteProfile(profile.id);
+      setProfiles(profiles().filter((p) => p.id !== profile.id));
+      props.onSelect(null);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div class="profile-selector">
+      <select
+        value={props.profileId || ""}
+        onChange={(e) => props.onSelect(e.currentTarget.value || null)}
+        title={selected() ? `Basis: 14 CFR ${formatBasis(selected()!.basis)}` : "Answer without a project basis"}
+      >
+        <option value="">No project</option>
+        <For each={profiles()}>{(profile) => <option value={profile.id}>{profile.name}</option>}</For>
+      </select>
+      <button class="profile-btn" onClick={() => openForm(null)} title="Create a project profile">
+        New
+      </button>
+      <Show when={selected()}>
+        <button class="profile-btn" onClick={() => openForm(selected()!)} title="Edit the selected profile">
+          Edit
+        </button>
+        <button class="profile-btn" onClick={handleDelete} title="Delete the selected profile">
+          Delete
+        </button>
+      </Show>
+
+      <Show when={editing()}>
+        <form class="profile-form" onSubmit={handleSave}>
+          <label>
+            Project name
+            <input type="text" value={name()} onInput={(e) => setName(e.currentTarget.value)} required />
+          </label>
+          <label>
+            Aircraft category
+            <select value={category()} onChange={(e) => setCategory(e.currentTarget.value as AircraftCategory)}>
+              <For each={Object.entries(CATEGORY_LABELS)}>
+                {([value, label]) => <option value={value}>{label}</option>}
+              </For>
+            </select>
+          </label>
+          <label>
+            Certification basis (part @ amendment or date)
+            <input
+              type="text"
+              value={basis()}
+              onInput={(e) => setBasis(e.currentTarget.value)}
+              placeholder="25 @ 25-100, 33 @ 2015-01-01"
+            />
+          </label>
+          <label>
+            Preferred ACs
+            <input
+              type="text"
+              value={preferredACs()}
+              onInput={(e) => setPreferredACs(e.currentTarget.value)}
+              placeholder="25.1309-1A, 20-115D"
+            />
+          </label>
+          <label>
+            Special conditions (one per line)
+            <textarea
+              rows={3}
+              value={specialConditions()}
+              onInput={(e) => setSpecialConditions(e.currentTarget.value)}
+            />
+          </label>
+          <Show when={error()}>
+            <div class="error">{error()}</div>
+          </Show>
+          <div class="profile-form-actions">
+            <button type="button" onClick={() => setEditing(null)}>
+              Cancel
+            </button>
+            <button type="submit" disabled={!name().trim() || isSaving()}>
+              {isSaving() ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </Show>
+    </div>
+  );
+};
+
+export default ProfileSelector;
@@ -1,13 +1,25 @@
 import type { Component } from "solid-js";
-import { createSignal } from "solid-js";
+import { Show, For, createSignal, createEffect } from "solid-js";
 
 interface QuestionInputProps {
   onSubmit: (question: string) => void;
   isLoading: boolean;
+  draft?: { text: string } | null;  // Seeds the input (e.g. from the regulation browser)
+  pinnedSections?: string[];
+  onUnpinSection?: (section: string) => void;
 }
 
 const QuestionInput: Component<QuestionInputProps> = (props) => {
   const [question, setQuestion] = createSignal("");
+  let textarea: HTMLTextAreaElement | undefined;
+
+  createEffect(() => {
+    const draft = props.draft;
+    if (draft) {
+      setQuestion(draft.text);
+      textarea?.focus();
+    }
+  });
 
   const handleSubmit = (e: Event) => {
     e.preventDefault();
@@ -20,7 +32,23 @@ const QuestionInput: Component<QuestionInputProps> = (props) => {
 
   return (
     <form class="question-input" onSubmit={handleSubmit}>
+      <Show when={props.pinnedSections && props.pinnedSections.length > 0}>
+        <div class="pinned-sections">
+          <span>Pinned:</span>
+          <For each={props.pinnedSections}>
+            {(section) => (
+              <span class="pinned-section">
+                § {section}
+                <button type="button" onClick={() => props.onUnpinSection?.(section)} title="Unpin section">
+                  ✕
+                </button>
+              </span>
+            )}
+          </For>
+        </div>
+      </Show>
       <textarea
+        ref={textarea}
         value={question()}
         onInput={(e) => setQuestion(e.currentTarget.value)}
         placeholder="Ask a question about FAA aircraft certification..."
@@ -0,0 +1,245 @@
+import type { Component } from "solid-js";
+import { Show, For, createSignal } from "solid-js";
+import type { CFRStructureNode, CFRSectionText, CFRParagraph, CFRTable } from "../types";
+import { api } from "../services/api";
+
+interface RegulationBrowserProps {
+  onClose: () => void;
+  onAskAboutSection: (section: CFRSectionText) => void;
+}
+
+// Parts listed before anything is searched
+const COMMON_PARTS = [
+  { part: 21, name: "Certification Procedures for Products and Articles" },
+  { part: 23, name: "Normal Category Airplanes" },
+  { part: 25, name: "Transport Category Airplanes" },
+  { part: 27, name: "Normal Category Rotorcraft" },
+  { part: 29, name: "Transport Category Rotorcraft" },
+  { part: 33, name: "Aircraft Engines" },
+  { part: 35, name: "Propellers" },
+  { part: 39, name: "Airworthiness Directives" },
+];
+
+interface StructureNodeProps {
+  node: CFRStructureNode;
+  selected: string | null;
+  onOpenSection: (identifier: string) => void;
+}
+
+const StructureNode: Component<StructureNodeProps> = (props) => {
+  const [expanded, setExpanded] = createSignal(false);
+
+  return (
+    <Show
+      when={props.node.type !== "section"}
+      fallback={
+        <li>
+          <button
+            class={`browser-section ${props.selected === props.node.identifier ? "selected" : ""}`}
+            disabled={props.node.reserved}
+            onClick={() => props.onOpenSection(props.node.identifier)}
+          >
+            <span class="browser-label">{props.node.label}</span> {props.node.description}
+          </button>
+        </li>
+      }
+    >
+      <li>
+        <button
+          class={`browser-group browser-${props.node.type}`}
+          disabled={!props.node.children}
+          onClick={() => setExpanded(!expanded())}
+        >
+          <span class="browser-toggle">{props.node.children ? (expanded() ? "▾" : "▸") : "·"}</span>
+          <span class="browser-label">{props.node.label}</span> {props.node.description}
+        </button>
+        <Show when={expanded() && props.node.children}>
+          <ul class="browser-children">
+            <For each={props.node.children}>
+              {(child) => (
+                <StructureNode node={child} selected={props.selected} onOpenSection={props.onOpenSection} />
+              )}
+            </For>
+          </ul>
+        </Show>
+      </li>
+    </Show>
+  );
+};
+
+const SectionTable: Component<{ table: CFRTable }> = (props) => (
+  <table class="browser-table">
+    <Show when={props.table.title}>
+      <caption>{props.table.title}</caption>
+    </Show>
+    <Show when={props.table.headers.length > 0}>
+      <thead>
+        <tr>
+          <For each={props.table.headers}>{(header) => <th>{header}</th>}</For>
+        </tr>
+      </thead>
+    </Show>
+    <tbody>
+      <For each={props.table.rows}>
+        {(row) => (
+          <tr>
+            <For each={row}>{(cell) => <td>{cell}</td>}</For>
+          </tr>
+        )}
+      </For>
+    </tbody>
+  </table>
+);
+
+const ParagraphNode: Component<{ paragraph: CFRParagraph }> = (props) => (
+  <div class="browser-paragraph" title={props.paragraph.path}>
+    <p>
+      <span class="browser-designator">{props.paragraph.designator}</span>{" "}
+      <Show when={props.paragraph.heading}>
+        <em>{props.paragraph.heading}</em>{" "}
+      </Show>
+      {props.paragraph.text}
+    </p>
+    <For each={props.paragraph.tables}>{(table) => <SectionTable table={table} />}</For>
+    <For each={props.paragraph.children}>{(child) => <ParagraphNode paragraph={child} />}</For>
+  </div>
+);
+
+const RegulationBrowser: Component<RegulationBrowserProps> = (props) => {
+  const [partInput, setPartInput] = createSignal("");
+  const [structure, setStructure] = createSignal<CFRStructureNode | null>(null);
+  const [section, setSection] = createSignal<CFRSectionText | null>(null);
+  const [selected, setSelected] = createSignal<string | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const openPart = async (part: number) => {
+    setIsLoading(true);
+    setError(null);
+    setSection(null);
+    setSelected(null);
+    try {
+      setStructure(await api.getCFRStructure(part));
+    } catch (err) {
+      setStructure(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openSection = async (identifier: string) => {
+    const [part, sectionNumber] = identifier.split(".");
+    setSelected(identifier);
+    setError(null);
+    try {
+      setSection(await api.getCFRSection(Number(part), sectionNumber));
+    } catch (err) {
+      setSection(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOpenPart = (e: Event) => {
+    e.preventDefault();
+    const part = parseInt(partInput().replace(/^\s*part\s*/i, ""), 10);
+    if (isNaN(part)) {
+      setError('Enter a part number like "25"');
+      return;
+    }
+    openPart(part);
+  };
+
+  return (
+    <section class="regulation-browser">
+      <div class="regulation-diff-header">
+        <h2>Browse 14 CFR</h2>
+        <button class="regulation-diff-close" onClick={props.onClose} title="Close">
+          ✕
+        </button>
+      </div>
+
+      <form class="regulation-diff-form" onSubmit={handleOpenPart}>
+        <input
+          type="text"
+          value={partInput()}
+          onInput={(e) => setPartInput(e.currentTarget.value)}
+          placeholder="Part number (e.g. 25)"
+        />
+        <button type="submit" disabled={!partInput().trim() || isLoading()}>
+          {isLoading() ? "Loading..." : "Open"}
+        </button>
+      </form>
+
+      <Show when={!structure()}>
+        <ul class="browser-parts">
+          <For each={COMMON_PARTS}>
+            {(item) => (
+              <li>
+                <button class="browser-group browser-part" onClick={() => openPart(item.part)} disabled={isLoading()}>
+                  <span class="browser-label">Part {item.part}</span> {item.name}
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <Show when={error()}>
+        <div class="error">{error()}</div>
+      </Show>
+
+      <Show when={structure()}>
+        {(part) => (
+          <div class="browser-layout">
+            <div class="browser-tree">
+              <button class="browser-back" onClick={() => setStructure(null)}>
+                ← All parts
+              </button>
+              <h3>
+                {part().label} — {part().description}
+              </h3>
+              <ul class="browser-children">
+                <For each={part().children}>
+                  {(child) => <StructureNode node={child} selected={selected()} onOpenSection={openSection} />}
+                </For>
+              </ul>
+            </div>
+
+            <Show when={section()}>
+              {(text) => (
+                <div class="browser-text">
+                  <div class="browser-text-header">
+                    <a href={text().url} target="_blank" rel="noopener noreferrer">
+                      {text().sectionTitle}
+                    </a>
+                    <span class="browser-text-date">Text as of {text().effectiveDate}</span>
+                  </div>
+                  <Show
+                    when={text().paragraphs && text().paragraphs!.length > 0}
+                    fallback={<div class="browser-text-content">{text().content}</div>}
+                  >
+                    <div class="browser-text-content browser-text-structured">
+                      <For each={text().intro}>{(intro) => <p>{intro}</p>}</For>
+                      <For each={text().tables}>{(table) => <SectionTable table={table} />}</For>
+                      <For each={text().paragraphs}>{(paragraph) => <ParagraphNode paragraph={paragraph} />}</For>
+                      <For each={text().notes}>{(note) => <p class="browser-note">{note}</p>}</For>
+                      <Show when={text().sourceNote}>
+                        <p class="browser-note">{text().sourceNote}</p>
+                      </Show>
+                    </div>
+                  </Show>
+                  <button class="browser-ask" onClick={() => props.onAskAboutSection(text())}>
+                    Ask about this section
+                  </button>
+                </div>
+              )}
+            </Show>
+          </div>
+        )}
+      </Show>
+    </section>
+  );
+};
+
+export default RegulationBrowser;
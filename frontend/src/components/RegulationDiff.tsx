@@ -0,0 +1,152 @@
+import type { Component } from "solid-js";
+import { Show, For, createSignal } from "solid-js";
+import type { CFRDiffResponse } from "../types";
+import { api } from "../services/api";
+
+interface RegulationDiffProps {
+  onClose: () => void;
+}
+
+const STATUS_LABELS = {
+  changed: "Changed",
+  unchanged: "No changes",
+  added: "Added",
+  removed: "Removed",
+} as const;
+
+const RegulationDiff: Component<RegulationDiffProps> = (props) => {
+  // Section ("23.2150") or subpart ("25 F") reference
+  const [reference, setReference] = createSignal("");
+  const [from, setFrom] = createSignal("");
+  const [to, setTo] = createSignal("");
+  const [diff, setDiff] = createSignal<CFRDiffResponse | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const parseReference = (value: string) => {
+    const section = value.match(/^\s*§?\s*(\d+)\.(\d+)\s*$/);
+    if (section) return { part: Number(section[1]), section: section[2] };
+    const subpart = value.match(/^\s*(?:part\s*)?(\d+)\s*(?:,|\s)\s*(?:subpart\s*)?([A-Z]{1,2})\s*$/i);
+    if (subpart) return { part: Number(subpart[1]), subpart: subpart[2].toUpperCase() };
+    return null;
+  };
+
+  const handleCompare = async (e: Event) => {
+    e.preventDefault();
+    const parsed = parseReference(reference());
+    if (!parsed) {
+      setError('Enter a section like "23.2150" or a subpart like "25 F"');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDiff(await api.getCFRDiff({ ...parsed, from: from() || undefined, to: to() || undefined }));
+    } catch (err) {
+      setDiff(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <section class="regulation-diff">
+      <div class="regulation-diff-header">
+        <h2>Compare Regulation Versions</h2>
+        <button class="regulation-diff-close" onClick={props.onClose} title="Close">
+          ✕
+        </button>
+      </div>
+
+      <form class="regulation-diff-form" onSubmit={handleCompare}>
+        <input
+          type="text"
+          value={reference()}
+          onInput={(e) => setReference(e.currentTarget.value)}
+          placeholder="Section (23.2150) or subpart (25 F)"
+        />
+        <label>
+          From
+          <input type="date" value={from()} onInput={(e) => setFrom(e.currentTarget.value)} />
+        </label>
+        <label>
+          To
+          <input type="date" value={to()} onInput={(e) => setTo(e.currentTarget.value)} />
+        </label>
+        <button type="submit" disabled={!reference().trim() || isLoading()}>
+          {isLoading() ? "Comparing..." : "Compare"}
+        </button>
+      </form>
+      <p class="regulation-diff-hint">Leave the dates empty to see the most recent change.</p>
+
+      <Show when={error()}>
+        <div class="error">{error()}</div>
+      </Show>
+
+      <Show when={diff()}>
+        {(result) => (
+          <div class="regulation-diff-result">
+            <div class="regulation-diff-summary">
+              14 CFR Part {result().part}
+              {result().subpart ? ` Subpart ${result().subpart}` : ""}: {result().fromDate} → {result().toDate}
+              <Show when={result().unchangedSections}>
+                {" "}· {result().unchangedSections} sections unchanged
+              </Show>
+            </div>
+            <Show when={result().historyNote}>
+              <p class="regulation-diff-hint">{result().historyNote}</p>
+            </Show>
+            <Show when={result().sections.length === 0}>
+              <p class="regulation-diff-hint">No sections changed between these dates.</p>
+            </Show>
+            <For each={result().sections}>
+              {(section) => (
+                <div class="diff-section">
+                  <div class="diff-section-header">
+                    <a href={section.url} target="_blank" rel="noopener noreferrer">
+                      {section.sectionTitle}
+                    </a>
+                    <span class={`diff-status diff-status-${section.status}`}>
+                      {STATUS_LABELS[section.status]}
+                    </span>
+                    <Show when={section.status === "changed"}>
+                      <span class="diff-counts">
+                        <span class="diff-count-insert">+{section.insertedWords}</span>{" "}
+                        <span class="diff-count-delete">−{section.deletedWords}</span> words
+                      </span>
+                    </Show>
+                  </div>
+                  <div class="diff-section-dates">
+                    Text effective {section.fromEffectiveDate || "—"} → {section.toEffectiveDate || "—"}
+                  </div>
+                  <div class="diff-text">
+                    <For each={section.segments}>
+                      {(segment) =>
+                        segment.op === "insert" ? (
+                          <ins class="diff-insert">{segment.text}</ins>
+                        ) : segment.op === "delete" ? (
+                          <del class="diff-delete">{segment.text}</del>
+                        ) : (
+                          <span>{segment.text}</span>
+                        )
+                      }
+                    </For>
+                  </div>
+                </div>
+              )}
+            </For>
+            <Show when={result().skippedSections}>
+              <p class="regulation-diff-hint">
+                Not compared (too many changes): {result().skippedSections!.map((s) => `§ ${s}`).join(", ")}
+              </p>
+            </Show>
+          </div>
+        )}
+      </Show>
+    </section>
+  );
+};
+
+export default RegulationDiff;
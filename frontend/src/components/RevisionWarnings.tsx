@@ -0,0 +1,100 @@
+import type { Component } from "solid-js";
+import { For, Show, createSignal } from "solid-js";
+import type { DocumentLineage, DocumentRevision, RevisionWarning } from "../types";
+import { api } from "../services/api";
+
+interface RevisionWarningsProps {
+  warnings: RevisionWarning[];
+}
+
+// DRS numbers sometimes include the type already ("AC 23-8B")
+const documentLabel = (docType: string, docNumber: string) =>
+  docNumber.toUpperCase().startsWith(docType.toUpperCase()) ? docNumber : `${docType} ${docNumber}`;
+
+const WarningItem: Component<{ warning: RevisionWarning }> = (props) => {
+  const [lineage, setLineage] = createSignal<DocumentLineage | null>(null);
+  const [isLoading, setIsLoading] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const label = () => documentLabel(props.warning.docType, props.warning.docNumber);
+  const revisionLabel = (revision: DocumentRevision) => documentLabel(props.warning.docType, revision.docNumber);
+
+  const showCurrentVersion = async () => {
+    if (lineage()) {
+      setLineage(null);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      setLineage(await api.getDocumentLineage(props.warning.docType, props.warning.docNumber));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <li class={`revision-warning revision-${props.warning.status}`}>
+      <div>
+        <strong>{label()}</strong> (cited in {props.warning.citationIndexes.map((i) => `[${i}]`).join(", ")})
+        {props.warning.status === "superseded" ? " has been superseded" : " has been cancelled"}
+        <Show when={props.warning.current}>
+          {(current) => (
+            <>
+              {" by "}
+              <Show when={current().url} fallback={revisionLabel(current())}>
+                <a href={current().url} target="_blank" rel="noopener noreferrer">
+                  {revisionLabel(current())}
+                </a>
+              </Show>
+            </>
+          )}
+        </Show>
+        .
+      </div>
+      <Show when={props.warning.current}>
+        <button class="revision-show-current" onClick={showCurrentVersion} disabled={isLoading()}>
+          {isLoading() ? "Loading..." : lineage() ? "Hide revisions" : "Show the current version"}
+        </button>
+      </Show>
+      <Show when={error()}>
+        <div class="error">{error()}</div>
+      </Show>
+      <Show when={lineage()}>
+        {(chain) => (
+          <ol class="revision-chain">
+            <For each={chain().revisions}>
+              {(revision) => (
+                <li classList={{ "revision-current": revision.docNumber === chain().current?.docNumber }}>
+                  <Show when={revision.url} fallback={<span>{revisionLabel(revision)}</span>}>
+                    <a href={revision.url} target="_blank" rel="noopener noreferrer">
+                      {revisionLabel(revision)}
+                    </a>
+                  </Show>
+                  <Show when={revision.status}>
+                    <span class="revision-status">{revision.status}</span>
+                  </Show>
+                </li>
+              )}
+            </For>
+          </ol>
+        )}
+      </Show>
+    </li>
+  );
+};
+
+const RevisionWarnings: Component<RevisionWarningsProps> = (props) => {
+  return (
+    <div class="revision-warnings">
+      <span class="revision-warnings-icon">⚠️</span>
+      <ul>
+        <For each={props.warnings}>{(warning) => <WarningItem warning={warning} />}</For>
+      </ul>
+    </div>
+  );
+};
+
+export default RevisionWarnings;
@@ -1,14 +1,33 @@
-import type { RAGResponse, AskQuestionRequest } from "../types";
+import type {
+  RAGResponse,
+  AskQuestionRequest,
+  RAGStreamEvent,
+  CFRDiffResponse,
+  CFRStructureNode,
+  CFRSectionText,
+  ProjectProfile,
+  AircraftConfiguration,
+  ADApplicabilityResponse,
+  DocumentLineage
+} from "../types";
 
 class FAASearchAPI {
   private baseURL = "/api";
 
-  async askQuestion(question: string, sessionId?: string, isClarifying?: boolean): Promise<RAGResponse> {
+  async askQuestion(
+    question: string,
+    sessionId?: string,
+    isClarifying?: boolean,
+    profileId?: string,
+    pinnedSections?: string[]
+  ): Promise<RAGResponse> {
     try {
       const request: AskQuestionRequest = { 
         question,
         sessionId,
-        isClarifying
+        isClarifying,
+        profileId,
+        pinnedSections
       };
 
       const response = await fetch(`${this.baseURL}/ask`, {
@@ -37,6 +56,277 @@ class FAASearchAPI {
       throw error instanceof Error ? error : new Error(String(error));
     }
   }
+
+  /**
+   * Ask a question via the streaming endpoint (Server-Sent Events over POST)
+   * Stage and token events are passed to onEvent as they arrive; resolves with
+   * the final response once the done event is received
+   */
+  async askQuestionStream(
+    question: string,
+    onEvent: (event: RAGStreamEvent) => void,
+    sessionId?: string,
+    isClarifying?: boolean,
+    profileId?: string,
+    pinnedSections?: string[]
+  ): Promise<RAGResponse> {
+    try {
+      const request: AskQuestionRequest = {
+        question,
+        sessionId,
+        isClarifying,
+        profileId,
+        pinnedSections
+      };
+
+      const response = await fetch(`${this.baseURL}/ask/stream`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Accept": "text/event-stream"
+        },
+        body: JSON.stringify(request)
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error || response.statusText || `HTTP ${response.status}`;
+
+        if (response.status === 429) {
+          throw new Error(`429 Rate limit exceeded. Please wait before trying again.`);
+        }
+        throw new Error(errorMessage);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+
+          // SSE frames are separated by a blank line
+          let boundary = buffer.indexOf("\n\n");
+          while (boundary !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf("\n\n");
+
+            const data = frame
+              .split("\n")
+              .filter((line) => line.startsWith("data:"))
+              .map((line) => line.slice(5).trimStart())
+              .join("\n");
+            if (!data) continue;
+
+            const event = JSON.parse(data) as RAGStreamEvent;
+            if (event.type === "done") {
+              return event.response;
+            }
+            if (event.type === "error") {
+              if (event.status === 429) {
+                throw new Error(`429 Rate limit exceeded. Please wait before trying again.`);
+              }
+              throw new Error(event.error);
+            }
+            onEvent(event);
+          }
+        }
+      } finally {
+        // Release the connection once we stop reading (after done, an error or a bad frame)
+        reader.cancel().catch(() => {});
+      }
+
+      throw new Error("Stream ended before the answer was complete");
+    } catch (error) {
+      console.error("Streaming API request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Compare a CFR section or subpart between two dates (dates default to the last two versions)
+   */
+  async getCFRDiff(params: {
+    part: number;
+    section?: string;
+    subpart?: string;
+    from?: string;
+    to?: string;
+  }): Promise<CFRDiffResponse> {
+    const query = new URLSearchParams({ part: String(params.part) });
+    if (params.section) query.set("section", params.section);
+    if (params.subpart) query.set("subpart", params.subpart);
+    if (params.from) query.set("from", params.from);
+    if (params.to) query.set("to", params.to);
+
+    try {
+      const response = await fetch(`${this.baseURL}/cfr/diff?${query}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("CFR diff request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Get the table of contents of a CFR part (part → subparts → sections)
+   */
+  async getCFRStructure(part: number): Promise<CFRStructureNode> {
+    try {
+      const response = await fetch(`${this.baseURL}/cfr/structure/${part}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("CFR structure request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Get the current text of a CFR section
+   */
+  async getCFRSection(part: number, section: string): Promise<CFRSectionText> {
+    try {
+      const response = await fetch(`${this.baseURL}/cfr/section/${part}/${encodeURIComponent(section)}`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("CFR section request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * List project profiles, most recently updated first
+   */
+  async listProfiles(): Promise<ProjectProfile[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/profiles`);
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      const data: { profiles: ProjectProfile[] } = await response.json();
+      return data.profiles;
+    } catch (error) {
+      console.error("Profile list request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Create a project profile, or update it when an ID is given
+   */
+  async saveProfile(
+    fields: Omit<ProjectProfile, "id" | "createdAt" | "updatedAt">,
+    id?: string
+  ): Promise<ProjectProfile> {
+    try {
+      const response = await fetch(`${this.baseURL}/profiles${id ? `/${encodeURIComponent(id)}` : ""}`, {
+        method: id ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(fields)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("Profile save request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Delete a project profile
+   */
+  async deleteProfile(id: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseURL}/profiles/${encodeURIComponent(id)}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Profile delete request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Find the airworthiness directives that apply to an aircraft configuration
+   */
+  async checkADApplicability(configuration: AircraftConfiguration): Promise<ADApplicabilityResponse> {
+    try {
+      const response = await fetch(`${this.baseURL}/ad/applicability`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(configuration)
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("AD applicability request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  /**
+   * Get the revision chain of an AC or Order (e.g. AC 23-8A → 23-8B → 23-8C)
+   */
+  async getDocumentLineage(docType: string, docNumber: string): Promise<DocumentLineage> {
+    try {
+      const response = await fetch(
+        `${this.baseURL}/documents/lineage/${encodeURIComponent(docType)}/${encodeURIComponent(docNumber)}`
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || response.statusText || `HTTP ${response.status}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error("Document lineage request failed:", error);
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
 }
 
 export const api = new FAASearchAPI();
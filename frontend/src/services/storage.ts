@@ -11,6 +11,7 @@ interface StoredData {
   };
   messages: Message[];
   sessionId?: string | null;
+  profileId?: string | null;
 }
 
 export class ConversationStorage {
@@ -26,8 +27,11 @@ export class ConversationStorage {
         showContext: data.settings?.showContext || false,
         error: null,
         sessionId: data.sessionId || null,
+        profileId: data.profileId || null,
+        pinnedSections: [],
         rateLimitCountdown: null,
-        pendingQuestion: null
+        pendingQuestion: null,
+        loadingStage: null
       };
     } catch (error) {
       console.error("Error loading conversation from localStorage:", error);
@@ -37,8 +41,8 @@ export class ConversationStorage {
 
   save(state: ConversationState): void {
     try {
-      // Auto-prune to max messages
-      const messages = state.messages.slice(-MAX_MESSAGES);
+      // Auto-prune to max messages (partial streamed answers are not persisted)
+      const messages = state.messages.filter((m) => !m.isStreaming).slice(-MAX_MESSAGES);
 
       const data: StoredData = {
         version: "1.0",
@@ -47,7 +51,8 @@ export class ConversationStorage {
           showContext: state.showContext
         },
         messages,
-        sessionId: state.sessionId
+        sessionId: state.sessionId,
+        profileId: state.profileId
       };
 
       localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
@@ -10,8 +10,11 @@ const initialState: ConversationState = storage.load() || {
   showContext: false,
   error: null,
   sessionId: null,
+  profileId: null,
+  pinnedSections: [],
   rateLimitCountdown: null,
-  pendingQuestion: null
+  pendingQuestion: null,
+  loadingStage: null
 };
 
 // Rate limit countdown interval
@@ -70,43 +73,79 @@ export const conversationActions = {
     // Set loading state
     setConversationState("isLoading", true);
     setConversationState("error", null);
+    setConversationState("loadingStage", null);
+
+    // Determine if this is a response to a clarifying question
+    // (checked before the placeholder message is added)
+    const isClarifying = isLastMessageClarifying();
+
+    // Add a placeholder message that is filled in as answer tokens stream in
+    const messageId = generateId();
+    const placeholder: Message = {
+      id: messageId,
+      timestamp: Date.now(),
+      question: question.trim(),
+      answer: "",
+      sources: [],
+      sourceCount: 0,
+      context: "",
+      isStreaming: true
+    };
+    setConversationState("messages", (messages) => [...messages, placeholder]);
+
+    const updateMessage = (update: Partial<Message>) => {
+      setConversationState("messages", (m) => m.id === messageId, update);
+    };
 
     try {
-      // Determine if this is a response to a clarifying question
-      const isClarifying = isLastMessageClarifying();
-      
-      // Call API with session ID for conversation continuity
-      const response = await api.askQuestion(
+      // Call streaming API with session ID for conversation continuity
+      const response = await api.askQuestionStream(
         question,
+        (event) => {
+          if (event.type === "stage") {
+            setConversationState("loadingStage", event.message);
+          } else if (event.type === "token") {
+            setConversationState("messages", (m) => m.id === messageId, "answer", (answer) => answer + event.text);
+          }
+        },
         conversationState.sessionId || undefined,
-        isClarifying
+        isClarifying,
+        conversationState.profileId || "",
+        conversationState.pinnedSections.length > 0 ? [...conversationState.pinnedSections] : undefined
       );
 
+      // Pinned sections only apply to the question they were pinned for
+      setConversationState("pinnedSections", []);
+
       // Update session ID if returned (new session or existing)
       if (response.sessionId) {
         setConversationState("sessionId", response.sessionId);
       }
 
-      // Create message from response
-      const message: Message = {
-        id: generateId(),
-        timestamp: Date.now(),
-        question: question.trim(),
+      // Replace partial answer with the final response
+      updateMessage({
         answer: response.answer,
         sources: response.sources,
         sourceCount: response.sourceCount,
         context: response.context,
         error: response.error,
         needsClarification: response.needsClarification,
-        clarifyingQuestion: response.clarifyingQuestion
-      };
-
-      // Add message to store
-      setConversationState("messages", (messages) => [...messages, message]);
+        clarifyingQuestion: response.clarifyingQuestion,
+        citations: response.citations,
+        grounding: response.grounding,
+        contextReport: response.contextReport,
+        pointInTime: response.pointInTime,
+        referenceGraph: response.referenceGraph,
+        revisionWarnings: response.revisionWarnings,
+        isStreaming: false
+      });
 
       // Persist to localStorage
       storage.save(conversationState);
     } catch (error) {
+      // Drop the partial answer; the question is retried or the error shown instead
+      setConversationState("messages", (messages) => messages.filter((m) => m.id !== messageId));
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       // Check if it's a rate limit error
@@ -119,6 +158,7 @@ export const conversationActions = {
       console.error("Failed to get answer:", error);
     } finally {
       setConversationState("isLoading", false);
+      setConversationState("loadingStage", null);
     }
   },
 
@@ -134,6 +174,24 @@ export const conversationActions = {
     storage.clear();
   },
 
+  // Select the project profile questions are answered against (null for none)
+  setProfile(profileId: string | null) {
+    setConversationState("profileId", profileId);
+    storage.save(conversationState);
+  },
+
+  // Pin a CFR section (e.g. "25.1309") into the next question's context
+  pinSection(section: string) {
+    if (!conversationState.pinnedSections.includes(section)) {
+      // The API accepts up to 5 pinned sections; keep the most recent
+      setConversationState("pinnedSections", (sections) => [...sections, section].slice(-5));
+    }
+  },
+
+  unpinSection(section: string) {
+    setConversationState("pinnedSections", (sections) => sections.filter((s) => s !== section));
+  },
+
   setError(error: string | null) {
     setConversationState("error", error);
   },
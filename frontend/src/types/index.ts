@@ -4,14 +4,50 @@
 export type { 
   Document,
   CFRSource, 
+  CFRSectionOrigin,
   DRSSource, 
+  Citation,
+  GroundingVerdict,
+  ClaimVerification,
+  GroundingReport,
+  RetrievalFilterLevel,
+  AppliedRetrievalFilter,
+  ContextBlockReport,
+  ContextReport,
+  PointInTime,
+  CFRReferenceNode,
+  CFRReferenceEdge,
+  CFRReferenceGraph,
+  CFRDiffSegment,
+  CFRSectionDiff,
+  CFRDiffResponse,
+  CFRStructureNode,
+  CFRSectionText,
+  CFRParagraph,
+  CFRTable,
+  AircraftCategory,
+  CertificationBasisPart,
+  ProjectProfile,
+  ADSerialRange,
+  ADRecord,
+  AircraftConfiguration,
+  ADMatchLevel,
+  ADMatch,
+  ADApplicabilityResponse,
+  DocumentRevision,
+  DocumentLineage,
+  RevisionWarning,
   RAGResponse, 
   AskQuestionRequest, 
-  AskQuestionResponse 
+  AskQuestionResponse,
+  RAGStreamStage,
+  RAGStreamEvent
 } from '@shared/types/api';
 
 // Frontend-only types (UI state)
 
+import type { Citation, GroundingReport, ContextReport, PointInTime, CFRReferenceGraph, RevisionWarning } from '@shared/types/api';
+
 export interface Message {
   id: string;
   timestamp: number;
@@ -23,6 +59,13 @@ export interface Message {
   error?: string;
   needsClarification?: boolean;  // True if the assistant is asking a clarifying question
   clarifyingQuestion?: string;   // The clarifying question text
+  citations?: Citation[];        // Inline [n] citations resolved to their sources
+  grounding?: GroundingReport;   // Per-claim verification of the answer
+  contextReport?: ContextReport; // What the context included/trimmed to fit the token budget
+  pointInTime?: PointInTime;     // CFR text was read as of this date/amendment
+  referenceGraph?: CFRReferenceGraph; // CFR citations followed from the sources
+  revisionWarnings?: RevisionWarning[]; // Cited documents that were superseded or cancelled
+  isStreaming?: boolean;         // True while answer tokens are still arriving
 }
 
 export interface ConversationState {
@@ -31,6 +74,9 @@ export interface ConversationState {
   showContext: boolean;
   error: string | null;
   sessionId: string | null;  // Session ID for multi-turn conversations
+  profileId: string | null;  // Selected project profile (certification basis)
+  pinnedSections: string[];  // CFR sections pinned into the next question's context
   rateLimitCountdown: number | null;  // Seconds until rate limit resets
   pendingQuestion: string | null;  // Question to retry after rate limit
+  loadingStage: string | null;  // Latest pipeline stage message while streaming
 }